@@ -1,6 +1,6 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract NutritionAIFHE is SepoliaConfig {
@@ -17,11 +17,28 @@ contract NutritionAIFHE is SepoliaConfig {
     error InvalidProof();
     error AlreadyProcessed();
     error InvalidParameter();
+    error NotPendingOwner();
+    error ActionNotScheduled();
+    error TimelockNotReady();
+
+    // Tunable constants of the nutrition model, in kcal unless noted
+    struct AnalysisParams {
+        uint32 bmr; // Base Metabolic Rate used when weight or height is missing
+        uint32 activityFactor; // calories per activity level point
+        uint32 loseWeightAdjustment; // taken off the TDEE for goal 1
+        uint32 gainMuscleAdjustment; // added to the TDEE for goal 2
+        uint32 proteinPercent; // share of the calorie target from protein when weight is missing
+        uint32 proteinPerKg; // protein in tenths of a gram per kg of body weight
+        uint32 fatPercent; // share from fat; carbs get the rest
+        uint32 waterTargetMl;
+    }
 
     struct DecryptionContext {
         uint256 batchId;
+        address provider; // the callback runs as the oracle, so the requester is kept here
         bytes32 stateHash;
         bool processed;
+        AnalysisParams params; // the callback recomputes with these, even if the owner changed them since
     }
 
     struct UserEncryptedData {
@@ -32,7 +49,11 @@ contract NutritionAIFHE is SepoliaConfig {
         euint32 waterIntakeMl;
         euint32 activityLevel; // e.g., 1-5 scale
         euint32 healthGoal;    // e.g., 1: lose weight, 2: gain muscle, 3: maintain
-        euint32 allergyFlags;  // Bitmask for common allergies
+        euint32 allergyFlags;  // Bitmask for common allergies, bits assigned in frontend/web/src/sdk/allergens.ts
+        euint32 weightKg;      // 0 when not provided
+        euint32 heightCm;
+        euint32 ageYears;
+        euint32 sex;           // 0: unspecified, 1: male, 2: female
     }
 
     struct EncryptedAnalysis {
@@ -44,7 +65,27 @@ contract NutritionAIFHE is SepoliaConfig {
         euint32 score; // Overall health score
     }
 
+    // Decrypted analysis as delivered by the oracle, kept so it can be read again later
+    struct AnalysisRecord {
+        uint256 batchId;
+        uint256 requestId;
+        uint64 completedAt;
+        uint32 calorieTarget;
+        uint32 proteinTarget;
+        uint32 carbTarget;
+        uint32 fatTarget;
+        uint32 waterTarget;
+        uint32 score;
+    }
+
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    uint256 public constant MAX_REGISTERED_CIPHERTEXTS = 16;
+
     address public owner;
+    address public pendingOwner; // proposed by the owner, becomes owner once it accepts
+    uint256 public timelockDelay; // 0 disables the timelock
+    uint256 public timelockEpoch; // bumped by every delay change, which drops everything scheduled before it
+    mapping(bytes32 => uint256) public actionScheduledAt; // actionId => when it was scheduled
     mapping(address => bool) public isProvider;
     bool public paused;
     mapping(address => uint256) public lastSubmissionTime;
@@ -54,18 +95,40 @@ contract NutritionAIFHE is SepoliaConfig {
     uint256 public currentBatchId = 1;
     bool public batchOpen = false;
     mapping(uint256 => mapping(address => UserEncryptedData)) public batchUserData;
-    mapping(uint256 => bool) public batchProcessed;
+    mapping(uint256 => mapping(address => bool)) public batchProcessed; // per batch and provider, like the analyses
 
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
+    AnalysisParams private analysisParams = AnalysisParams({
+        bmr: 1500,
+        activityFactor: 50,
+        loseWeightAdjustment: 500,
+        gainMuscleAdjustment: 500,
+        proteinPercent: 30,
+        proteinPerKg: 16,
+        fatPercent: 25,
+        waterTargetMl: 2500
+    });
+
+    mapping(uint256 => mapping(address => AnalysisRecord)) private analyses;
+    mapping(address => uint256[]) private analysedBatches; // per provider, oldest first
+
+    event OwnershipProposed(address indexed owner, address indexed pendingOwner);
+    event OwnershipProposalCancelled(address indexed pendingOwner);
     event OwnershipTransferred(address indexed oldOwner, address indexed newOwner);
+    event TimelockDelaySet(uint256 oldDelay, uint256 newDelay);
+    event ActionScheduled(bytes32 indexed actionId, bytes data, uint256 scheduledAt);
+    event ActionCancelled(bytes32 indexed actionId);
+    event ActionExecuted(bytes32 indexed actionId);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event PauseToggled(bool paused);
     event CooldownSet(uint256 oldCooldown, uint256 newCooldown);
+    event AnalysisParamsSet(AnalysisParams oldParams, AnalysisParams newParams);
     event BatchOpened(uint256 batchId);
     event BatchClosed(uint256 batchId);
     event DataSubmitted(address indexed user, uint256 batchId);
+    event CiphertextsRegistered(address indexed user, uint256 count);
     event DecryptionRequested(uint256 indexed requestId, uint256 batchId);
     event DecryptionCompleted(uint256 indexed requestId, uint256 batchId, uint256[] results);
 
@@ -74,6 +137,20 @@ contract NutritionAIFHE is SepoliaConfig {
         _;
     }
 
+    // While a timelock delay is set, the call must have been scheduled with exactly this calldata,
+    // under the current delay, at least timelockDelay ago; each schedule is good for one execution
+    modifier timelocked() {
+        if (timelockDelay > 0) {
+            bytes32 actionId = actionIdOf(msg.data);
+            uint256 scheduledAt = actionScheduledAt[actionId];
+            if (scheduledAt == 0) revert ActionNotScheduled();
+            if (block.timestamp < scheduledAt + timelockDelay) revert TimelockNotReady();
+            delete actionScheduledAt[actionId];
+            emit ActionExecuted(actionId);
+        }
+        _;
+    }
+
     modifier onlyProvider() {
         if (!isProvider[msg.sender]) revert NotProvider();
         _;
@@ -104,20 +181,66 @@ contract NutritionAIFHE is SepoliaConfig {
         emit ProviderAdded(owner);
     }
 
-    function transferOwnership(address newOwner) external onlyOwner {
+    // Ownership moves in two steps so a mistyped address can't take it: the owner proposes, the
+    // proposed address accepts. A new proposal replaces the pending one.
+    function proposeOwnership(address newOwner) external onlyOwner timelocked {
+        if (newOwner == address(0)) revert InvalidParameter();
+        pendingOwner = newOwner;
+        emit OwnershipProposed(owner, newOwner);
+    }
+
+    function cancelOwnershipProposal() external onlyOwner {
+        address proposed = pendingOwner;
+        if (proposed == address(0)) revert NotPendingOwner();
+        pendingOwner = address(0);
+        emit OwnershipProposalCancelled(proposed);
+    }
+
+    function acceptOwnership() external {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
         address oldOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(oldOwner, newOwner);
+        owner = msg.sender;
+        pendingOwner = address(0);
+        emit OwnershipTransferred(oldOwner, msg.sender);
+    }
+
+    // Calls are filed under the epoch they were scheduled in, so a delay change (which could
+    // otherwise let calls scheduled under no or a shorter delay run at once) invalidates them
+    function actionIdOf(bytes calldata data) public view returns (bytes32) {
+        return keccak256(abi.encode(timelockEpoch, data));
+    }
+
+    // Queues a call to one of the timelocked functions; `data` is its full calldata
+    function scheduleAction(bytes calldata data) external onlyOwner {
+        bytes32 actionId = actionIdOf(data);
+        if (actionScheduledAt[actionId] != 0) revert InvalidParameter();
+        actionScheduledAt[actionId] = block.timestamp;
+        emit ActionScheduled(actionId, data, block.timestamp);
+    }
+
+    function cancelAction(bytes32 actionId) external onlyOwner {
+        if (actionScheduledAt[actionId] == 0) revert ActionNotScheduled();
+        delete actionScheduledAt[actionId];
+        emit ActionCancelled(actionId);
     }
 
-    function addProvider(address provider) external onlyOwner {
+    // Timelocked itself, so the delay can't be dropped to skip it
+    function setTimelockDelay(uint256 delay) external onlyOwner timelocked {
+        if (delay > MAX_TIMELOCK_DELAY) revert InvalidParameter();
+        uint256 oldDelay = timelockDelay;
+        timelockDelay = delay;
+        timelockEpoch++;
+        emit TimelockDelaySet(oldDelay, delay);
+    }
+
+    function addProvider(address provider) external onlyOwner timelocked {
         if (!isProvider[provider]) {
             isProvider[provider] = true;
             emit ProviderAdded(provider);
         }
     }
 
-    function removeProvider(address provider) external onlyOwner {
+    function removeProvider(address provider) external onlyOwner timelocked {
         if (isProvider[provider]) {
             isProvider[provider] = false;
             emit ProviderRemoved(provider);
@@ -129,13 +252,27 @@ contract NutritionAIFHE is SepoliaConfig {
         emit PauseToggled(_paused);
     }
 
-    function setCooldownSeconds(uint256 _cooldownSeconds) external onlyOwner {
+    function setCooldownSeconds(uint256 _cooldownSeconds) external onlyOwner timelocked {
         if (_cooldownSeconds == 0) revert InvalidParameter();
         uint256 oldCooldown = cooldownSeconds;
         cooldownSeconds = _cooldownSeconds;
         emit CooldownSet(oldCooldown, _cooldownSeconds);
     }
 
+    function getAnalysisParams() external view returns (AnalysisParams memory) {
+        return analysisParams;
+    }
+
+    // Takes effect for analyses requested afterwards
+    function setAnalysisParams(AnalysisParams calldata params) external onlyOwner timelocked {
+        if (params.bmr == 0 || params.waterTargetMl == 0) revert InvalidParameter();
+        if (params.loseWeightAdjustment > params.bmr) revert InvalidParameter(); // the target would wrap below zero
+        if (uint256(params.proteinPercent) + params.fatPercent > 100) revert InvalidParameter();
+        AnalysisParams memory oldParams = analysisParams;
+        analysisParams = params;
+        emit AnalysisParamsSet(oldParams, params);
+    }
+
     function openBatch() external onlyProvider whenNotPaused {
         if (batchOpen) revert InvalidBatch(); // Cannot open if already open
         batchOpen = true;
@@ -149,42 +286,64 @@ contract NutritionAIFHE is SepoliaConfig {
         emit BatchClosed(currentBatchId);
     }
 
+    // All twelve values are encrypted together by the client and share one input proof
     function submitUserData(
-        euint32 dailyCalories,
-        euint32 proteinGrams,
-        euint32 carbGrams,
-        euint32 fatGrams,
-        euint32 waterIntakeMl,
-        euint32 activityLevel,
-        euint32 healthGoal,
-        euint32 allergyFlags
+        externalEuint32 dailyCalories,
+        externalEuint32 proteinGrams,
+        externalEuint32 carbGrams,
+        externalEuint32 fatGrams,
+        externalEuint32 waterIntakeMl,
+        externalEuint32 activityLevel,
+        externalEuint32 healthGoal,
+        externalEuint32 allergyFlags,
+        externalEuint32 weightKg,
+        externalEuint32 heightCm,
+        externalEuint32 ageYears,
+        externalEuint32 sex,
+        bytes calldata inputProof
     ) external onlyProvider whenNotPaused checkSubmissionCooldown {
         if (!batchOpen) revert InvalidBatch();
 
         lastSubmissionTime[msg.sender] = block.timestamp;
 
         UserEncryptedData memory data = UserEncryptedData({
-            dailyCalories: dailyCalories,
-            proteinGrams: proteinGrams,
-            carbGrams: carbGrams,
-            fatGrams: fatGrams,
-            waterIntakeMl: waterIntakeMl,
-            activityLevel: activityLevel,
-            healthGoal: healthGoal,
-            allergyFlags: allergyFlags
+            dailyCalories: _storeInput(dailyCalories, inputProof),
+            proteinGrams: _storeInput(proteinGrams, inputProof),
+            carbGrams: _storeInput(carbGrams, inputProof),
+            fatGrams: _storeInput(fatGrams, inputProof),
+            waterIntakeMl: _storeInput(waterIntakeMl, inputProof),
+            activityLevel: _storeInput(activityLevel, inputProof),
+            healthGoal: _storeInput(healthGoal, inputProof),
+            allergyFlags: _storeInput(allergyFlags, inputProof),
+            weightKg: _storeInput(weightKg, inputProof),
+            heightCm: _storeInput(heightCm, inputProof),
+            ageYears: _storeInput(ageYears, inputProof),
+            sex: _storeInput(sex, inputProof)
         });
 
         batchUserData[currentBatchId][msg.sender] = data;
         emit DataSubmitted(msg.sender, currentBatchId);
     }
 
+    // Meal records and goals are kept as handles in the storage adapter, which never ingests them.
+    // Registering them here puts them in the ACL for this contract and the sender, which the
+    // relayer checks before it decrypts them for the user.
+    function registerCiphertexts(externalEuint32[] calldata values, bytes calldata inputProof) external {
+        if (values.length == 0 || values.length > MAX_REGISTERED_CIPHERTEXTS) revert InvalidParameter();
+        for (uint256 i = 0; i < values.length; i++) {
+            _storeInput(values[i], inputProof);
+        }
+        emit CiphertextsRegistered(msg.sender, values.length);
+    }
+
     function requestAnalysis(uint256 batchId) external onlyProvider whenNotPaused checkDecryptionCooldown {
-        if (batchProcessed[batchId]) revert AlreadyProcessed();
+        if (batchProcessed[batchId][msg.sender]) revert AlreadyProcessed();
         if (!FHE.isInitialized(batchUserData[batchId][msg.sender].dailyCalories)) revert InvalidBatch(); // Check if data exists for this provider in this batch
 
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
 
-        EncryptedAnalysis memory analysis = _computeAnalysis(batchId, msg.sender);
+        AnalysisParams memory params = analysisParams;
+        EncryptedAnalysis memory analysis = _computeAnalysis(batchId, msg.sender, params);
 
         // 1. Prepare Ciphertexts
         bytes32[] memory cts = new bytes32[](6);
@@ -202,7 +361,13 @@ contract NutritionAIFHE is SepoliaConfig {
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
         // 4. Store Context
-        decryptionContexts[requestId] = DecryptionContext({ batchId: batchId, stateHash: stateHash, processed: false });
+        decryptionContexts[requestId] = DecryptionContext({
+            batchId: batchId,
+            provider: msg.sender,
+            stateHash: stateHash,
+            processed: false,
+            params: params
+        });
         emit DecryptionRequested(requestId, batchId);
     }
 
@@ -216,11 +381,12 @@ contract NutritionAIFHE is SepoliaConfig {
         // a. Replay Guard
         if (ctx.processed) revert ReplayAttempt();
         if (ctx.batchId == 0) revert InvalidBatch(); // Should have been set
+        // Another request for the same batch, sent before this one's callback, already completed
+        if (batchProcessed[ctx.batchId][ctx.provider]) revert AlreadyProcessed();
 
         // b. State Verification
         // Rebuild cts in the exact same order as in requestAnalysis
-        UserEncryptedData memory data = batchUserData[ctx.batchId][msg.sender]; // msg.sender is the provider who initiated
-        EncryptedAnalysis memory analysis = _computeAnalysis(ctx.batchId, msg.sender); // Recompute analysis
+        EncryptedAnalysis memory analysis = _computeAnalysis(ctx.batchId, ctx.provider, ctx.params); // Recompute analysis
 
         bytes32[] memory cts = new bytes32[](6);
         cts[0] = FHE.toBytes32(analysis.calorieTarget);
@@ -234,68 +400,111 @@ contract NutritionAIFHE is SepoliaConfig {
         if (currentHash != ctx.stateHash) {
             revert StateMismatch();
         }
-        // c. Proof Verification
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert InvalidProof();
-        }
+        // c. Proof Verification (checkSignatures reverts on invalid KMS signatures)
+        if (proof.length == 0) revert InvalidProof();
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
         // d. Decode & Finalize
+        // cleartexts holds one 32-byte word per handle, in the order of cts
+        (uint256 calorieTarget, uint256 proteinTarget, uint256 carbTarget, uint256 fatTarget, uint256 waterTarget, uint256 score) =
+            abi.decode(cleartexts, (uint256, uint256, uint256, uint256, uint256, uint256));
         uint256[] memory results = new uint256[](6);
-        assembly {
-            // Skip first 32 bytes (offset)
-            let dataOffset := add(cleartexts, 0x20)
-            results[0] := mload(dataOffset)          // calorieTarget
-            results[1] := mload(add(dataOffset, 0x20)) // proteinTarget
-            results[2] := mload(add(dataOffset, 0x40)) // carbTarget
-            results[3] := mload(add(dataOffset, 0x60)) // fatTarget
-            results[4] := mload(add(dataOffset, 0x80)) // waterTarget
-            results[5] := mload(add(dataOffset, 0xa0)) // score
-        }
+        results[0] = calorieTarget;
+        results[1] = proteinTarget;
+        results[2] = carbTarget;
+        results[3] = fatTarget;
+        results[4] = waterTarget;
+        results[5] = score;
 
         ctx.processed = true;
         decryptionContexts[requestId] = ctx; // Update storage
-        batchProcessed[ctx.batchId] = true; // Mark batch as processed
+        batchProcessed[ctx.batchId][ctx.provider] = true; // Mark the provider's analysis of the batch as done
+
+        // Decrypted euint32 values always fit in uint32
+        analyses[ctx.batchId][ctx.provider] = AnalysisRecord({
+            batchId: ctx.batchId,
+            requestId: requestId,
+            completedAt: uint64(block.timestamp),
+            calorieTarget: uint32(calorieTarget),
+            proteinTarget: uint32(proteinTarget),
+            carbTarget: uint32(carbTarget),
+            fatTarget: uint32(fatTarget),
+            waterTarget: uint32(waterTarget),
+            score: uint32(score)
+        });
+        analysedBatches[ctx.provider].push(ctx.batchId);
 
         emit DecryptionCompleted(requestId, ctx.batchId, results);
     }
 
-    function _computeAnalysis(uint256 batchId, address provider) internal view returns (EncryptedAnalysis memory) {
-        UserEncryptedData memory data = batchUserData[batchId][provider];
+    function hasAnalysis(address provider, uint256 batchId) public view returns (bool) {
+        return analyses[batchId][provider].completedAt != 0;
+    }
+
+    function getAnalysis(address provider, uint256 batchId) external view returns (AnalysisRecord memory) {
+        if (!hasAnalysis(provider, batchId)) revert InvalidBatch();
+        return analyses[batchId][provider];
+    }
 
-        // Initialize constants (example values, should be configurable or more complex)
-        euint32 BMR = FHE.asEuint32(1500); // Example Base Metabolic Rate
-        euint32 ACTIVITY_FACTOR = FHE.asEuint32(50); // Example calories per activity level point
-        euint32 PROTEIN_RATIO = FHE.asEuint32(2); // 2 grams per kg of target weight (simplified)
-        // ... other constants
+    function analysisCount(address provider) external view returns (uint256) {
+        return analysedBatches[provider].length;
+    }
+
+    // Up to `limit` of the provider's analyses, oldest first, starting at `offset`
+    function getAnalysisHistory(address provider, uint256 offset, uint256 limit) external view returns (AnalysisRecord[] memory page) {
+        uint256[] storage batchIds = analysedBatches[provider];
+        if (offset >= batchIds.length) return new AnalysisRecord[](0);
+        uint256 end = offset + limit > batchIds.length ? batchIds.length : offset + limit;
+        page = new AnalysisRecord[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = analyses[batchIds[i]][provider];
+        }
+    }
+
+    function _computeAnalysis(uint256 batchId, address provider, AnalysisParams memory params) internal returns (EncryptedAnalysis memory) {
+        UserEncryptedData memory data = batchUserData[batchId][provider];
 
         // Simplified AI logic (example)
         // 1. Estimate TDEE (Total Daily Energy Expenditure)
-        euint32 activityCalories = data.activityLevel.fheMul(ACTIVITY_FACTOR);
-        euint32 tdee = BMR.fheAdd(activityCalories);
+        ebool hasWeight = data.weightKg.gt(0);
+        euint32 bmr = _estimateBmr(data, hasWeight, params.bmr);
+        euint32 activityCalories = data.activityLevel.mul(params.activityFactor);
+        euint32 tdee = activityCalories.add(bmr);
 
         // 2. Adjust based on health goal
-        // e.g., lose weight (1): -500, gain muscle (2): +500, maintain (3): 0
+        // lose weight (1): -loseWeightAdjustment, gain muscle (2): +gainMuscleAdjustment, maintain (3): 0
+        // Arithmetic is modulo 2^32, so the loss is added as its two's complement
         euint32 adjustment = FHE.asEuint32(0);
-        ebool isGoal1 = data.healthGoal.fheEq(FHE.asEuint32(1));
-        ebool isGoal2 = data.healthGoal.fheEq(FHE.asEuint32(2));
-        adjustment = isGoal1.fheSelect(FHE.asEuint32(500).fheMul(FHE.asEuint32(-1)), adjustment); // if goal1, -500
-        adjustment = isGoal2.fheSelect(FHE.asEuint32(500), adjustment); // if goal2, +500
-        euint32 calorieTarget = tdee.fheAdd(adjustment);
-
-        // 3. Macronutrient targets (simplified percentages)
-        euint32 proteinTarget = calorieTarget.fheMul(FHE.asEuint32(30)).fheDiv(FHE.asEuint32(100)).fheDiv(FHE.asEuint32(4)); // 30% calories from protein
-        euint32 fatTarget = calorieTarget.fheMul(FHE.asEuint32(25)).fheDiv(FHE.asEuint32(100)).fheDiv(FHE.asEuint32(9)); // 25% calories from fat
-        euint32 carbTarget = calorieTarget.fheSub(proteinTarget.fheMul(FHE.asEuint32(4))).fheSub(fatTarget.fheMul(FHE.asEuint32(9))).fheDiv(FHE.asEuint32(4));
-
-
-        // 4. Water target (e.g., 35ml per kg of target weight, or fixed amount)
-        euint32 waterTarget = FHE.asEuint32(2500); // Example fixed target
+        ebool isGoal1 = data.healthGoal.eq(FHE.asEuint32(1));
+        ebool isGoal2 = data.healthGoal.eq(FHE.asEuint32(2));
+        adjustment = FHE.select(isGoal1, FHE.asEuint32(0).sub(params.loseWeightAdjustment), adjustment);
+        adjustment = FHE.select(isGoal2, FHE.asEuint32(params.gainMuscleAdjustment), adjustment);
+        euint32 calorieTarget = tdee.add(adjustment);
+
+        // 3. Macronutrient targets: protein scales with body weight when it is known, fat is a share
+        // of the calories and carbs fill the rest (none when protein and fat already exceed the target)
+        euint32 proteinByWeight = data.weightKg.mul(params.proteinPerKg).div(10);
+        euint32 proteinByShare = calorieTarget.mul(params.proteinPercent).div(100).div(4); // 4 kcal per gram
+        euint32 proteinTarget = FHE.select(hasWeight, proteinByWeight, proteinByShare);
+        euint32 fatTarget = calorieTarget.mul(params.fatPercent).div(100).div(9); // 9 kcal per gram
+        euint32 macroCalories = proteinTarget.mul(4).add(fatTarget.mul(9));
+        euint32 carbTarget = FHE.select(
+            calorieTarget.ge(macroCalories),
+            calorieTarget.sub(macroCalories).div(4),
+            FHE.asEuint32(0)
+        );
+
+        // 4. Water target (fixed amount for now)
+        euint32 waterTarget = FHE.asEuint32(params.waterTargetMl);
 
         // 5. Score (simplified example: how close calories are to target)
-        euint32 diff = data.dailyCalories.fheSub(calorieTarget);
-        euint32 absDiff = diff.fheGe(FHE.asEuint32(0)).fheSelect(diff, FHE.asEuint32(0).fheSub(diff));
-        euint32 score = FHE.asEuint32(100).fheSub(absDiff.fheMul(FHE.asEuint32(100)).fheDiv(calorieTarget.fheMax(FHE.asEuint32(1))));
-
+        // FHE can only divide by plaintext, so the score drops one point per SCORE_STEP calories
+        // away from the target instead of by percentage
+        uint32 SCORE_STEP = 20;
+        ebool over = data.dailyCalories.ge(calorieTarget);
+        euint32 absDiff = FHE.select(over, data.dailyCalories.sub(calorieTarget), calorieTarget.sub(data.dailyCalories));
+        euint32 penalty = FHE.min(absDiff.div(SCORE_STEP), FHE.asEuint32(100));
+        euint32 score = FHE.asEuint32(100).sub(penalty);
 
         return EncryptedAnalysis({
             calorieTarget: calorieTarget,
@@ -307,17 +516,38 @@ contract NutritionAIFHE is SepoliaConfig {
         });
     }
 
+    // Mifflin-St Jeor, 10 * weight + 6.25 * height - 5 * age + 5 (male) or - 161 (female), in
+    // quarter kcal so every factor is a whole number. Unspecified sex takes the midpoint, -78.
+    // Falls back to `fallbackBmr` unless both weight and height are given; floors at 0.
+    function _estimateBmr(UserEncryptedData memory data, ebool hasWeight, uint32 fallbackBmr) internal returns (euint32) {
+        ebool isMale = data.sex.eq(1);
+        ebool isFemale = data.sex.eq(2);
+        euint32 gains = data.weightKg.mul(40).add(data.heightCm.mul(25)).add(FHE.select(isMale, FHE.asEuint32(20), FHE.asEuint32(0)));
+        euint32 sexLoss = FHE.select(isFemale, FHE.asEuint32(644), FHE.select(isMale, FHE.asEuint32(0), FHE.asEuint32(312)));
+        euint32 losses = data.ageYears.mul(20).add(sexLoss);
+        euint32 mifflin = FHE.select(gains.ge(losses), gains.sub(losses).div(4), FHE.asEuint32(0));
+        ebool hasBody = FHE.and(hasWeight, data.heightCm.gt(0));
+        return FHE.select(hasBody, mifflin, FHE.asEuint32(fallbackBmr));
+    }
+
     function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
-    function _initIfNeeded(euint32 val, uint256 plainVal) internal pure returns (euint32) {
+    function _initIfNeeded(euint32 val, uint32 plainVal) internal returns (euint32) {
         if (FHE.isInitialized(val)) {
             return val;
         }
         return FHE.asEuint32(plainVal);
     }
 
+    // Verifies a client input and keeps it usable by this contract and readable by its sender
+    function _storeInput(externalEuint32 input, bytes calldata inputProof) internal returns (euint32 value) {
+        value = FHE.fromExternal(input, inputProof);
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+    }
+
     function _requireInitialized(euint32 val) internal pure {
         if (!FHE.isInitialized(val)) revert InvalidParameter();
     }
@@ -2,7 +2,7 @@
 import fs from "fs";
 import path from "path";
 import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
+import { ethers as hardhatEthers, network } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
 
 const WORD_LIBRARY = [
@@ -325,8 +325,11 @@ async function main() {
     privateKey = await ask("Enter the deployer private key (testnet only): ");
   }
 
-  const DEFAULT_RPC = "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3";
-  const rpc = DEFAULT_RPC;
+  // DEPLOY_RPC_URL (for endpoints with an API key), else the url of the --network in hardhat.config.ts
+  const rpc = process.env.DEPLOY_RPC_URL || ("url" in network.config ? network.config.url : "");
+  if (!rpc) {
+    throw new Error("No RPC to deploy through: set DEPLOY_RPC_URL or run with --network <name>");
+  }
 
   const provider = new JsonRpcProvider(rpc);
   const wallet = new Wallet(privateKey, provider);
@@ -339,8 +342,18 @@ async function main() {
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
+    // The frontend looks for the DataStored event behind a write conflict back to here
+    const universalAdapterBlock = (await factory.deploymentTransaction()?.wait())?.blockNumber;
     console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+    const NutritionAIFactory = await hardhatEthers.getContractFactory("NutritionAIFHE", wallet);
+    const nutritionAI = await NutritionAIFactory.deploy();
+    await nutritionAI.waitForDeployment();
+    const nutritionAIAddress = await nutritionAI.getAddress();
+    // The frontend reads NutritionAIFHE's events from here on
+    const nutritionAIBlock = (await nutritionAI.deploymentTransaction()?.wait())?.blockNumber;
+    console.log("NutritionAIFHE contract deployed at:", nutritionAIAddress);
+
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
       const lines = walletsContent.split("\n").filter(line => line.trim() !== "");
@@ -351,22 +364,30 @@ async function main() {
       }
     }
 
-    const logEntry = `${deployedAddress} | ${wallet.address} | 成功`;
+    const logEntry = `${deployedAddress} | ${nutritionAIAddress} | ${wallet.address} | 成功`;
     fs.appendFileSync(successLogPath, logEntry + "\n");
 
     const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
-      const config = {
-        network: rpc,
-        contractAddress: deployedAddress,
-        deployer: wallet.address,
+      // Deployments are keyed by chain id; RPC URLs stay out of the frontend bundle
+      const configPath = path.join(frontendConfigDir, "config.json");
+      const chainId = Number((await provider.getNetwork()).chainId);
+      const config = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf-8")) : {};
+      config.defaultChainId = config.defaultChainId ?? chainId;
+      config.deployments = {
+        ...config.deployments,
+        [chainId]: {
+          ...config.deployments?.[chainId],
+          universalAdapter: deployedAddress,
+          universalAdapterBlock,
+          nutritionAI: nutritionAIAddress,
+          nutritionAIBlock,
+          deployer: wallet.address,
+        },
       };
-      fs.writeFileSync(
-        path.join(frontendConfigDir, "config.json"),
-        JSON.stringify(config, null, 2)
-      );
+      fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
       console.log("Wrote frontend config: frontend/web/src/config.json");
 
       try {
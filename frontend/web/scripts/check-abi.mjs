@@ -0,0 +1,73 @@
+// check-abi.mjs
+// Fails the build when an ABI copied into src/abi no longer matches the contract it came from.
+// The hardhat artifact is the reference; without one (contracts not compiled here) the
+// typechain factory in types/ is used, since the app's typed bindings come from it.
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const webDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const rootDir = path.resolve(webDir, "../..");
+const abiDir = path.join(webDir, "src", "abi");
+
+const describeEntry = entry => {
+  const inputs = (entry.inputs ?? []).map(input => input.type).join(",");
+  return entry.name ? `${entry.type} ${entry.name}(${inputs})` : `${entry.type}(${inputs})`;
+};
+
+// Key order and entry order carry no meaning in an ABI
+const canonical = value =>
+  Array.isArray(value)
+    ? value.map(canonical)
+    : value && typeof value === "object"
+      ? Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical(value[key])]))
+      : value;
+
+const byEntry = abi => new Map(abi.map(entry => [describeEntry(entry), JSON.stringify(canonical(entry))]));
+
+function referenceAbi(contractName, sourceName) {
+  const artifact = path.join(rootDir, "artifacts", sourceName, `${contractName}.json`);
+  if (fs.existsSync(artifact)) {
+    return { from: path.relative(rootDir, artifact), abi: JSON.parse(fs.readFileSync(artifact, "utf-8")).abi };
+  }
+  const factory = path.join(rootDir, "types", "factories", path.dirname(sourceName), `${contractName}__factory.ts`);
+  if (fs.existsSync(factory)) {
+    const literal = fs.readFileSync(factory, "utf-8").match(/const _abi = (\[[\s\S]*?\n\]) as const;/);
+    if (literal) return { from: path.relative(rootDir, factory), abi: new Function(`return ${literal[1]}`)() };
+  }
+  return null;
+}
+
+let failed = false;
+for (const file of fs.readdirSync(abiDir).filter(name => name.endsWith(".json"))) {
+  const json = JSON.parse(fs.readFileSync(path.join(abiDir, file), "utf-8"));
+  const abi = Array.isArray(json) ? json : json.abi;
+  const contractName = json.contractName ?? path.basename(file, ".json");
+  const sourceName = json.sourceName ?? `contracts/${contractName}.sol`;
+
+  const reference = referenceAbi(contractName, sourceName);
+  if (!reference) {
+    console.error(`src/abi/${file}: no artifact or typechain binding for ${contractName}; run \`npx hardhat compile\` in the repo root`);
+    failed = true;
+    continue;
+  }
+
+  const local = byEntry(abi);
+  const expected = byEntry(reference.abi);
+  const problems = [
+    ...[...expected.keys()].filter(key => !local.has(key)).map(key => `missing ${key}`),
+    ...[...local.keys()].filter(key => !expected.has(key)).map(key => `unexpected ${key}`),
+    ...[...local.keys()].filter(key => expected.has(key) && expected.get(key) !== local.get(key)).map(key => `changed ${key}`)
+  ];
+  if (problems.length > 0) {
+    console.error(`src/abi/${file} has drifted from ${reference.from}:\n  ${problems.join("\n  ")}`);
+    failed = true;
+  } else {
+    console.log(`src/abi/${file} matches ${reference.from}`);
+  }
+}
+
+if (failed) {
+  console.error("Copy the current ABI from artifacts/ into src/abi (the deploy script does this) and rebuild.");
+  process.exit(1);
+}
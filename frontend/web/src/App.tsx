@@ -1,11 +1,45 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getBrowserProvider, getContractWithSigner, getNutritionAIWithSigner, getSigner } from "./contract";
+import { useProviderPool } from "./rpc/ProviderPoolContext";
+import type { ChainConfig } from "./chains";
+import { describeError, formatError } from "./errors/contractErrors";
+import type { UniversalAdapter } from "@contracts/contracts/UniversalAdapter";
+import { decodeLegacyCiphertext, encryptGoalValues, encryptNutritionValues, encryptWaterEntry, GOAL_FIELDS, isLegacyCiphertext, NUTRITION_FIELDS, RecordField } from "./fhe/encryption";
+import { signWithEthers } from "./fhe/userDecryption";
+import { DecryptionSessionManager, sessionExpiry } from "./fhe/decryptionSession";
+import { encryptionContract, saveEncrypted } from "./fhe/encryptionTarget";
+import {
+  describeKey,
+  isLegacyMigrationSettled,
+  LEGACY_KEYS,
+  loadAllergyFlags,
+  saveAllergyFlags,
+  settleLegacyMigration,
+  walletKeys
+} from "./storage/keys";
+import { decodeDocument, encodeDocument, QuarantinedEntry } from "./storage/schema";
+import { emptyGoal, goalSchema, HealthGoal, isWaterEntry, legacyGoalSchema, MealType, NutritionRecord, recordListSchema } from "./storage/records";
+import { contractStore, LogIndex, RecordLog } from "./storage/recordLog";
+import { dataStoredLookup, VersionedStore, versionOf, WriteConflictError } from "./storage/versionedStore";
+import { ulid } from "./storage/ulid";
+import { isPending, TransactionManager } from "./transactions/transactionManager";
+import TransactionPanel from "./components/TransactionPanel";
+import RpcStatus from "./components/RpcStatus";
+import ProfileForm from "./components/ProfileForm";
+import HydrationTracker from "./components/HydrationTracker";
+import { ALLERGENS, findAllergens } from "./sdk/allergens";
+import AnalysisView, { DailyIntake } from "./components/AnalysisView";
+import AnalysisParamsAdmin from "./components/AnalysisParamsAdmin";
+import ContractAdmin from "./components/ContractAdmin";
+import { getLatestAnalysis, registerCiphertexts } from "./sdk/nutritionAI";
+import { MealValues, Outbox, OutboxItem } from "./outbox/outbox";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
+import { Link } from 'react-router-dom';
 
 // Randomly selected styles:
 // Colors: Low saturated pastel (cream yellow / mint green / cherry blossom pink)
@@ -19,94 +53,198 @@ import { useAccount, useSignMessage } from 'wagmi';
 // 3. Search & filter function
 // 4. User operation history record
 
-interface NutritionRecord {
-  id: number;
-  date: string;
-  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  calories: string; // FHE encrypted
-  protein: string; // FHE encrypted
-  carbs: string; // FHE encrypted
-  fat: string; // FHE encrypted
-  notes: string;
+type NutritionInput = Omit<NutritionRecord, 'id' | 'inputProof'>;
+type GoalInput = Omit<HealthGoal, 'inputProof'>;
+
+// Data found under the pre-namespacing global keys
+interface LegacyData {
+  records: NutritionRecord[];
+  goals: HealthGoal | null;
 }
 
-interface HealthGoal {
-  targetCalories: string; // FHE encrypted
-  targetProtein: string; // FHE encrypted
-  targetCarbs: string; // FHE encrypted
-  targetFat: string; // FHE encrypted
+const recordLogFor = (owner: string) => new RecordLog<NutritionRecord>(walletKeys(owner).records, recordListSchema);
+
+// Quarantine from several reads of the same key is reported once
+const mergeQuarantine = (current: QuarantinedEntry[], incoming: QuarantinedEntry[]) => {
+  const seen = new Set(current.map(entry => `${entry.key}|${entry.reason}`));
+  return [...current, ...incoming.filter(entry => !seen.has(`${entry.key}|${entry.reason}`))];
+};
+
+// Writes resolve once their transaction is mined, so reads that follow see them. A conflict's
+// writing event is searched for back to the adapter's deployment block when it is configured.
+const versionedStoreFor = (
+  contract: UniversalAdapter,
+  owner: string,
+  chain: ChainConfig,
+  confirm: (tx: ethers.ContractTransactionResponse, key: string) => Promise<unknown>
+) => new VersionedStore(contractStore(contract, confirm), dataStoredLookup(contract, owner, chain.contracts.universalAdapterBlock));
+
+// A write rejected because the stored value moved on; `retry` is offered next to reloading
+interface WriteConflict {
+  error: WriteConflictError;
+  message: string;
+  retryLabel: string;
+  retry: () => void;
 }
 
+const OUTBOX_SYNC_INTERVAL_MS = 30000;
+
 interface UserAction {
   type: 'add' | 'update' | 'decrypt' | 'analyze';
   timestamp: number;
   details: string;
 }
 
-// FHE encryption/decryption functions
-const FHEEncryptNumber = (value: number): string => `FHE-${btoa(value.toString())}`;
-const FHEDecryptNumber = (encryptedData: string): number => encryptedData.startsWith('FHE-') ? parseFloat(atob(encryptedData.substring(4))) : parseFloat(encryptedData);
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
-
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { chain, fhe, getContract, getNutritionAI } = useProviderPool();
   const [loading, setLoading] = useState(true);
   const [records, setRecords] = useState<NutritionRecord[]>([]);
-  const [healthGoal, setHealthGoal] = useState<HealthGoal>({
-    targetCalories: '',
-    targetProtein: '',
-    targetCarbs: '',
-    targetFat: ''
-  });
+  const [healthGoal, setHealthGoal] = useState<HealthGoal>(emptyGoal());
+  const [goalInputs, setGoalInputs] = useState<GoalInput>(emptyGoal());
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [addingRecord, setAddingRecord] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newRecordData, setNewRecordData] = useState<Omit<NutritionRecord, 'id'>>({ 
+  const [newRecordData, setNewRecordData] = useState<NutritionInput>({ 
     date: new Date().toISOString().split('T')[0],
     mealType: 'breakfast',
     calories: '',
     protein: '',
     carbs: '',
     fat: '',
+    water: '',
     notes: ''
   });
   const [selectedRecord, setSelectedRecord] = useState<NutritionRecord | null>(null);
   const [decryptedData, setDecryptedData] = useState<{ [key: string]: number | null }>({});
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState("");
+  const sessionManager = useMemo(() => new DecryptionSessionManager(fhe.relayer), [fhe]);
+  const transactions = useMemo(() => new TransactionManager(getBrowserProvider), []);
+  const outbox = useMemo(() => new Outbox(), []);
+  const [pendingMeals, setPendingMeals] = useState<(OutboxItem & { values: MealValues })[]>([]);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
   const [contractAddress, setContractAddress] = useState("");
   const [chainId, setChainId] = useState(0);
-  const [startTimestamp, setStartTimestamp] = useState(0);
   const [durationDays, setDurationDays] = useState(30);
   const [userActions, setUserActions] = useState<UserAction[]>([]);
   const [activeTab, setActiveTab] = useState('records');
   const [searchTerm, setSearchTerm] = useState('');
   const [filterMealType, setFilterMealType] = useState<string>('all');
+  const [legacyData, setLegacyData] = useState<LegacyData | null>(null);
+  const [logIndex, setLogIndex] = useState<LogIndex>({ days: [] });
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [goalsVersion, setGoalsVersion] = useState(versionOf("0x"));
+  const [conflict, setConflict] = useState<WriteConflict | null>(null);
+  const [quarantine, setQuarantine] = useState<QuarantinedEntry[]>([]);
+  const [showQuarantine, setShowQuarantine] = useState(false);
+  // Set in the profile form and remembered per wallet on this device; only its encrypted copy
+  // leaves the browser
+  const [allergyFlags, setAllergyFlags] = useState(0);
+  const [waterTarget, setWaterTarget] = useState<number | null>(null);
+  const loadGeneration = useRef(0);
 
-  // Initialize signature parameters
+  // Initialize signature parameters. Decryption sessions are scoped to the contract stored values
+  // are encrypted for.
   useEffect(() => {
-    loadData().finally(() => setLoading(false));
     const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
+      setContractAddress(encryptionContract(chain) ?? "");
       if (window.ethereum) {
         const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
         setChainId(parseInt(chainIdHex, 16));
       }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
       setDurationDays(30);
-      setPublicKey(generatePublicKey());
     };
     initSignatureParams();
-  }, []);
+  }, [chain]);
+
+  // Everything shown belongs to the connected wallet and chain, so switching either starts from scratch
+  useEffect(() => {
+    setRecords([]);
+    setNextCursor(null);
+    setHealthGoal(emptyGoal());
+    setGoalInputs(emptyGoal());
+    setDecryptedData({});
+    setSelectedRecord(null);
+    setLegacyData(null);
+    setConflict(null);
+    setQuarantine([]);
+    loadData().finally(() => setLoading(false));
+  }, [address, chain.id]);
+
+  // The water target comes from the wallet's latest analysis
+  useEffect(() => {
+    setWaterTarget(null);
+    if (!address) return;
+    let cancelled = false;
+    getNutritionAI()
+      .then(contract => (contract ? getLatestAnalysis(contract, address) : null))
+      .then(latest => !cancelled && setWaterTarget(latest?.result.waterTarget ?? null))
+      .catch(e => console.warn("Could not load the latest analysis:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chain.id, getNutritionAI]);
+
+  // Finish following writes that were still pending when the page was last closed
+  useEffect(() => {
+    if (!address || !transactions.list().some(tx => isPending(tx) && tx.from === address.toLowerCase())) return;
+    transactions.resume()
+      .then(() => loadData())
+      .catch(e => console.error("Error resuming transactions:", e));
+  }, [address, transactions]);
+
+  useEffect(() => {
+    setAllergyFlags(address ? loadAllergyFlags(address) : 0);
+  }, [address]);
+
+  const changeAllergyFlags = (mask: number) => {
+    setAllergyFlags(mask);
+    if (address) saveAllergyFlags(address, mask);
+  };
+
+  // Flush queued meals when a wallet connects, when the browser comes back online and
+  // periodically while items are waiting out their retry delay
+  useEffect(() => {
+    refreshOutbox();
+    if (!address) return;
+    syncOutbox();
+    const onOnline = () => syncOutbox();
+    window.addEventListener('online', onOnline);
+    const timer = setInterval(() => syncOutbox(), OUTBOX_SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      clearInterval(timer);
+    };
+  }, [address]);
+
+  // Pick up a session signed earlier in this tab
+  useEffect(() => {
+    const session = address && contractAddress && chainId ? sessionManager.current(address, contractAddress, chainId) : null;
+    setSessionExpiresAt(session ? sessionExpiry(session) : null);
+  }, [address, contractAddress, chainId, sessionManager]);
+
+  // Once the wallet has sent a write, the transaction panel reports its progress
+  const trackWrite = (tx: ethers.ContractTransactionResponse, key: string) => {
+    setTransactionStatus({ visible: false, status: "pending", message: "" });
+    return transactions.track(tx, describeKey(key));
+  };
+
+  // Registers stored values with NutritionAIFHE; saveEncrypted only asks for it on chains that need it
+  const registerForDecryption = (label: string) => async (handles: string[], inputProof: string) => {
+    const nutritionAI = await getNutritionAIWithSigner();
+    setTransactionStatus({ visible: false, status: "pending", message: "" });
+    await transactions.track(await registerCiphertexts(nutritionAI, handles, inputProof), label);
+  };
 
   // Load data from contract
   const loadData = async () => {
+    const generation = ++loadGeneration.current;
+    const owner = address;
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
+      const contract = await getContract();
       if (!contract) return;
       
       // Check contract availability
@@ -116,32 +254,36 @@ const App: React.FC = () => {
         setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
       }
       
-      // Load nutrition records
-      const recordsBytes = await contract.getData("nutritionRecords");
-      let recordsList: NutritionRecord[] = [];
-      if (recordsBytes.length > 0) {
-        try {
-          const recordsStr = ethers.toUtf8String(recordsBytes);
-          if (recordsStr.trim() !== '') recordsList = JSON.parse(recordsStr);
-        } catch (e) {}
-      }
-      setRecords(recordsList);
+      if (!owner) return;
+      const keys = walletKeys(owner);
       
-      // Load health goals
-      const goalsBytes = await contract.getData("healthGoals");
-      let goalsData: HealthGoal = {
-        targetCalories: '',
-        targetProtein: '',
-        targetCarbs: '',
-        targetFat: ''
-      };
-      if (goalsBytes.length > 0) {
-        try {
-          const goalsStr = ethers.toUtf8String(goalsBytes);
-          if (goalsStr.trim() !== '') goalsData = JSON.parse(goalsStr);
-        } catch (e) {}
+      // Load the newest page of nutrition records
+      const log = recordLogFor(owner);
+      const index = await log.readIndex(contractStore(contract));
+      const page = await log.loadPage(contractStore(contract), index.data);
+      
+      // Load health goals, remembering which version later edits are based on
+      const goalsBytes = await contract.getData(keys.goals);
+      const goals = await decodeDocument(goalSchema, keys.goals, goalsBytes);
+      
+      // Offer the old shared blob until this wallet imports or dismisses it
+      let legacy: LegacyData | null = null;
+      if (!isLegacyMigrationSettled(owner)) {
+        const legacyRecords = await decodeDocument(recordListSchema, LEGACY_KEYS.records, await contract.getData(LEGACY_KEYS.records));
+        const legacyGoals = await decodeDocument(legacyGoalSchema, LEGACY_KEYS.goals, await contract.getData(LEGACY_KEYS.goals));
+        if (legacyRecords.data.length > 0 || legacyGoals.data) legacy = { records: legacyRecords.data, goals: legacyGoals.data };
       }
-      setHealthGoal(goalsData);
+      
+      // Drop the result if the wallet changed while we were reading
+      if (generation !== loadGeneration.current) return;
+      setLogIndex(index.data);
+      setRecords(page.records);
+      setNextCursor(page.next);
+      setHealthGoal(goals.data);
+      setGoalsVersion(versionOf(goalsBytes));
+      setLegacyData(legacy);
+      // The shared legacy keys are not this wallet's data, so their rejects aren't reported
+      setQuarantine([...index.quarantine, ...page.quarantine, ...goals.quarantine]);
     } catch (e) {
       console.error("Error loading data:", e);
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
@@ -152,98 +294,193 @@ const App: React.FC = () => {
     }
   };
 
-  // Add new nutrition record
-  const addRecord = async () => {
-    if (!isConnected || !address) { 
-      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+  // Load the next (older) page of records
+  const loadMoreRecords = async () => {
+    if (!address || nextCursor === null) return;
+    const generation = loadGeneration.current;
+    setLoadingMore(true);
+    try {
+      const contract = await getContract();
+      if (!contract) return;
+      const page = await recordLogFor(address).loadPage(contractStore(contract), logIndex, nextCursor);
+      if (generation !== loadGeneration.current) return;
+      setRecords(prev => [...prev, ...page.records]);
+      setQuarantine(prev => mergeQuarantine(prev, page.quarantine));
+      setNextCursor(page.next);
+    } catch (e) {
+      console.error("Error loading records:", e);
+      setTransactionStatus({ visible: true, status: "error", message: "Failed to load older records" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return; 
+    } finally {
+      setLoadingMore(false);
     }
-    
+  };
+
+  // Log a meal or water entry. It always goes through the local outbox first, so nothing entered
+  // is lost when there is no wallet or the network drops; the outbox is flushed right after.
+  const logEntry = async (date: string, mealType: MealType, values: MealValues) => {
+    await outbox.enqueue({ date, mealType, ...values }, address ?? null);
+    await refreshOutbox();
+    if (address) syncOutbox(true);
+  };
+
+  const addRecord = async () => {
     setAddingRecord(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Adding nutrition record with ZAMA FHE..." });
-    
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
+      const values: MealValues = isWaterEntry(newRecordData)
+        ? { calories: 0, protein: 0, carbs: 0, fat: 0, water: parseFloat(newRecordData.water || '0'), notes: newRecordData.notes }
+        : {
+            calories: parseFloat(newRecordData.calories || '0'),
+            protein: parseFloat(newRecordData.protein || '0'),
+            carbs: parseFloat(newRecordData.carbs || '0'),
+            fat: parseFloat(newRecordData.fat || '0'),
+            notes: newRecordData.notes
+          };
+      await logEntry(newRecordData.date, newRecordData.mealType, values);
       
-      // Create new record
-      const newRecord: NutritionRecord = {
-        id: records.length + 1,
-        date: newRecordData.date,
-        mealType: newRecordData.mealType,
-        calories: FHEEncryptNumber(parseFloat(newRecordData.calories || '0')),
-        protein: FHEEncryptNumber(parseFloat(newRecordData.protein || '0')),
-        carbs: FHEEncryptNumber(parseFloat(newRecordData.carbs || '0')),
-        fat: FHEEncryptNumber(parseFloat(newRecordData.fat || '0')),
-        notes: newRecordData.notes
-      };
-      
-      // Update records list
-      const updatedRecords = [...records, newRecord];
-      
-      // Save to contract
-      await contract.setData("nutritionRecords", ethers.toUtf8Bytes(JSON.stringify(updatedRecords)));
-      
-      // Update user actions
-      const newAction: UserAction = {
-        type: 'add',
-        timestamp: Math.floor(Date.now() / 1000),
-        details: `Added ${newRecordData.mealType} record`
-      };
-      setUserActions(prev => [newAction, ...prev]);
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Record added with FHE encryption!" });
-      await loadData();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowAddModal(false);
-        setNewRecordData({ 
-          date: new Date().toISOString().split('T')[0],
-          mealType: 'breakfast',
-          calories: '',
-          protein: '',
-          carbs: '',
-          fat: '',
-          notes: ''
-        });
-      }, 2000);
+      setShowAddModal(false);
+      setNewRecordData({ 
+        date: new Date().toISOString().split('T')[0],
+        mealType: 'breakfast',
+        calories: '',
+        protein: '',
+        carbs: '',
+        fat: '',
+        water: '',
+        notes: ''
+      });
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Submission failed: " + (e.message || "Unknown error");
-      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTransactionStatus({ visible: true, status: "error", message: "Could not save the meal locally: " + (e.message || "Unknown error") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
       setAddingRecord(false); 
     }
   };
 
-  // Update health goals
-  const updateHealthGoals = async () => {
+  // Quick-add from the hydration tracker, dated today
+  const addWater = async (ml: number) => {
+    setAddingRecord(true);
+    try {
+      await logEntry(new Date().toISOString().split('T')[0], 'water', { calories: 0, protein: 0, carbs: 0, fat: 0, water: ml, notes: '' });
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Could not save the water entry locally: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setAddingRecord(false);
+    }
+  };
+
+  // Queued meals visible to the current wallet, unsealed for display
+  const refreshOutbox = async () => {
+    try {
+      const items = address
+        ? await outbox.listFor(address)
+        : (await outbox.list()).filter(item => item.owner === null);
+      const meals = await Promise.all(items.map(async item => ({ ...item, values: await outbox.unseal(item) })));
+      setPendingMeals(meals);
+    } catch (e) {
+      console.error("Error reading outbox:", e);
+    }
+  };
+
+  // FHE-encrypts a queued meal for the connected wallet and appends it to the record log.
+  // The outbox id becomes the record id, so a retried append can't store it twice.
+  const sendQueuedMeal = async (item: OutboxItem, values: MealValues) => {
+    if (!item.owner) throw new Error("No wallet to send from");
+    if (!navigator.onLine) throw new Error("Offline");
+    const contract = await getContractWithSigner();
+    if (!contract) throw new Error("Failed to get contract with signer");
+    const owner = item.owner;
+    
+    // Encrypt macros (or water) client-side, then append to the day's chunk instead of
+    // rewriting the whole history
+    await saveEncrypted({
+      chain,
+      userAddress: owner,
+      encrypt: context => item.mealType === 'water'
+        ? encryptWaterEntry(values.water ?? 0, context)
+        : encryptNutritionValues(values, context),
+      register: registerForDecryption(`Register ${item.mealType} record for decryption`),
+      store: encrypted => recordLogFor(owner).append(versionedStoreFor(contract, owner, chain, trackWrite), {
+        id: item.id,
+        date: item.date,
+        mealType: item.mealType,
+        ...encrypted,
+        notes: values.notes
+      })
+    });
+    
+    // Update user actions
+    const newAction: UserAction = {
+      type: 'add',
+      timestamp: Math.floor(Date.now() / 1000),
+      details: `Added ${item.mealType} record`
+    };
+    setUserActions(prev => [newAction, ...prev]);
+  };
+
+  // Sends queued meals in order. `reportErrors` surfaces a failure in the toast; background
+  // runs only record it on the pending item.
+  const syncOutbox = async (reportErrors = false) => {
+    if (!address) return;
+    try {
+      // Failures are stored on the item, so keep the readable explanation rather than the raw error
+      const result = await outbox.flush(address, (item, values) => sendQueuedMeal(item, values).catch(e => {
+        throw new Error(formatError(describeError(e)));
+      }));
+      await refreshOutbox();
+      if (result.sent > 0) await loadData();
+      if (result.failed && reportErrors) {
+        const errorMessage = "Meal stays queued: " + result.failed.lastError;
+        setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      }
+    } catch (e) {
+      console.error("Error syncing outbox:", e);
+    }
+  };
+
+  const syncNow = async () => {
+    if (!address) return;
+    await outbox.resetBackoff(address);
+    await syncOutbox(true);
+  };
+
+  const discardQueuedMeal = async (id: string) => {
+    await outbox.remove(id);
+    await refreshOutbox();
+  };
+
+  // Update health goals. Goals are replaced wholesale, so an edit based on a stale version
+  // asks before overwriting; `expectedVersion` is the version the user agreed to replace.
+  const updateHealthGoals = async (expectedVersion = goalsVersion) => {
     if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return; 
     }
     
-    setTransactionStatus({ visible: true, status: "pending", message: "Updating health goals with ZAMA FHE..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting health goals with ZAMA FHE..." });
     
     try {
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
+      const goalsKey = walletKeys(address).goals;
+      const goalsQuarantine = quarantine.filter(entry => entry.key === goalsKey);
       
-      // Encrypt goals
-      const encryptedGoals: HealthGoal = {
-        targetCalories: FHEEncryptNumber(parseFloat(healthGoal.targetCalories || '0')),
-        targetProtein: FHEEncryptNumber(parseFloat(healthGoal.targetProtein || '0')),
-        targetCarbs: FHEEncryptNumber(parseFloat(healthGoal.targetCarbs || '0')),
-        targetFat: FHEEncryptNumber(parseFloat(healthGoal.targetFat || '0'))
-      };
-      
-      // Save to contract
-      await contract.setData("healthGoals", ethers.toUtf8Bytes(JSON.stringify(encryptedGoals)));
+      // Encrypt goals and save them to the contract
+      await saveEncrypted({
+        chain,
+        userAddress: address,
+        encrypt: context => encryptGoalValues({
+          targetCalories: parseFloat(goalInputs.targetCalories || '0'),
+          targetProtein: parseFloat(goalInputs.targetProtein || '0'),
+          targetCarbs: parseFloat(goalInputs.targetCarbs || '0'),
+          targetFat: parseFloat(goalInputs.targetFat || '0')
+        }, context),
+        register: registerForDecryption("Register health goals for decryption"),
+        store: async encryptedGoals => versionedStoreFor(contract, address, chain, trackWrite).write(goalsKey, await encodeDocument(goalSchema, encryptedGoals, goalsQuarantine), expectedVersion)
+      });
       
       // Update user actions
       const newAction: UserAction = {
@@ -253,45 +490,115 @@ const App: React.FC = () => {
       };
       setUserActions(prev => [newAction, ...prev]);
       
-      setTransactionStatus({ visible: true, status: "success", message: "Health goals updated with FHE!" });
+      setDecryptedData(prev => ({
+        ...prev,
+        'goal-targetCalories': parseFloat(goalInputs.targetCalories || '0'),
+        'goal-targetProtein': parseFloat(goalInputs.targetProtein || '0')
+      }));
       await loadData();
-      
-      setTimeout(() => {
+    } catch (e: any) {
+      if (e instanceof WriteConflictError) {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
+        setConflict({
+          error: e,
+          message: "Your health goals were changed in another tab or device after this page loaded them.",
+          retryLabel: "Overwrite with Mine",
+          retry: () => updateHealthGoals(e.actual.hash)
+        });
+        return;
+      }
+      const errorMessage = "Update failed: " + formatError(describeError(e));
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Copy the shared pre-namespacing data into this wallet's keys
+  const importLegacyData = async () => {
+    if (!isConnected || !address || !legacyData) return;
+    
+    setTransactionStatus({ visible: true, status: "pending", message: "Importing shared records into your wallet storage..." });
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+      const keys = walletKeys(address);
+      const store = versionedStoreFor(contract, address, chain, trackWrite);
+      
+      // Imported records join the archive chunk the record log reads last
+      if (legacyData.records.length > 0) {
+        const archive = await store.read(keys.records);
+        const archived = await decodeDocument(recordListSchema, keys.records, archive.value);
+        const imported = legacyData.records.map(record => ({ ...record, id: ulid() }));
+        await store.write(keys.records, await encodeDocument(recordListSchema, [...archived.data, ...imported], archived.quarantine), archive.version);
+      }
+      if (legacyData.goals && !healthGoal.targetCalories) {
+        const goalsQuarantine = quarantine.filter(entry => entry.key === keys.goals);
+        await store.write(keys.goals, await encodeDocument(goalSchema, legacyData.goals, goalsQuarantine), goalsVersion);
+      }
+      settleLegacyMigration(address, "imported");
+      setLegacyData(null);
+      
+      await loadData();
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Update failed: " + (e.message || "Unknown error");
+      if (e instanceof WriteConflictError) {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+        setConflict({
+          error: e,
+          message: "Your stored data changed in another tab or device during the import. Reload to import on top of the latest version.",
+          retryLabel: "Reload and Retry",
+          retry: () => loadData()
+        });
+        return;
+      }
+      const errorMessage = "Import failed: " + formatError(describeError(e));
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  // Decrypt data with signature
-  const decryptWithSignature = async (encryptedData: string, key: string): Promise<number | null> => {
-    if (!isConnected) { 
+  const dismissLegacyData = () => {
+    if (address) settleLegacyMigration(address, "dismissed");
+    setLegacyData(null);
+  };
+
+  // Decrypt ciphertext handles through the relayer, signing at most once per session
+  const decryptHandles = async (handles: string[]): Promise<Record<string, number> | null> => {
+    if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
     }
     
+    if (handles.length === 0) return {};
+    if (!contractAddress) {
+      setTransactionStatus({ visible: true, status: "error", message: `No storage contract is deployed on ${chain.name}` });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
+    }
+    
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      const session = await sessionManager.open(
+        address,
+        { contractAddress, chainId, durationDays },
+        async typedData => signWithEthers(await getSigner())(typedData)
+      );
+      setSessionExpiresAt(sessionExpiry(session));
+      const values = await sessionManager.decryptBatch(handles, session);
       
       // Update user actions
       const newAction: UserAction = {
         type: 'decrypt',
         timestamp: Math.floor(Date.now() / 1000),
-        details: "Decrypted nutrition data"
+        details: `Decrypted ${Object.keys(values).length} nutrition values`
       };
       setUserActions(prev => [newAction, ...prev]);
       
-      return FHEDecryptNumber(encryptedData);
-    } catch (e) { 
+      return values;
+    } catch (e: any) { 
+      const errorMessage = "Decryption failed: " + formatError(describeError(e));
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
     } finally { 
       setIsDecrypting(false); 
@@ -299,21 +606,38 @@ const App: React.FC = () => {
   };
 
   // Handle decrypt button click
-  const handleDecrypt = async (record: NutritionRecord) => {
-    const decryptedCalories = await decryptWithSignature(record.calories, `calories-${record.id}`);
-    const decryptedProtein = await decryptWithSignature(record.protein, `protein-${record.id}`);
-    const decryptedCarbs = await decryptWithSignature(record.carbs, `carbs-${record.id}`);
-    const decryptedFat = await decryptWithSignature(record.fat, `fat-${record.id}`);
+  // Legacy values decode locally; all remaining handles go out in a single batch
+  const revealRecords = async (targets: NutritionRecord[], includeGoals = false) => {
+    const goalFields = includeGoals ? GOAL_FIELDS.filter(field => healthGoal[field]) : [];
+    const handles = [
+      ...targets.flatMap(record => [...NUTRITION_FIELDS.map(field => record[field]), ...(record.water ? [record.water] : [])]),
+      ...goalFields.map(field => healthGoal[field])
+    ].filter(value => !isLegacyCiphertext(value));
+    const values = await decryptHandles(handles);
+    if (!values) return;
     
-    if (decryptedCalories !== null && decryptedProtein !== null && decryptedCarbs !== null && decryptedFat !== null) {
-      setDecryptedData(prev => ({
-        ...prev,
-        [`calories-${record.id}`]: decryptedCalories,
-        [`protein-${record.id}`]: decryptedProtein,
-        [`carbs-${record.id}`]: decryptedCarbs,
-        [`fat-${record.id}`]: decryptedFat
-      }));
-    }
+    const decrypted: { [key: string]: number | null } = {};
+    targets.forEach(record => {
+      NUTRITION_FIELDS.forEach(field => {
+        decrypted[`${field}-${record.id}`] = values[record[field]] ?? decodeLegacyCiphertext(record[field]);
+      });
+      if (record.water) decrypted[`water-${record.id}`] = values[record.water] ?? decodeLegacyCiphertext(record.water);
+    });
+    goalFields.forEach(field => {
+      decrypted[`goal-${field}`] = values[healthGoal[field]] ?? decodeLegacyCiphertext(healthGoal[field]);
+    });
+    setDecryptedData(prev => ({ ...prev, ...decrypted }));
+  };
+
+  const handleDecrypt = (record: NutritionRecord) => revealRecords([record]);
+
+  const handleDecryptAll = () => revealRecords(records, true);
+
+  // Forget the session keypair and hide everything it revealed
+  const revokeSession = () => {
+    if (address) sessionManager.revoke(address, contractAddress, chainId);
+    setSessionExpiresAt(null);
+    setDecryptedData({});
   };
 
   // Analyze nutrition data
@@ -354,6 +678,10 @@ const App: React.FC = () => {
     return matchesSearch && matchesMealType;
   });
 
+  // Plaintext of a field once decrypted this session (or readable legacy data), else 0
+  const revealedValue = (record: NutritionRecord, field: RecordField): number =>
+    decryptedData[`${field}-${record.id}`] ?? decodeLegacyCiphertext(record[field] ?? '') ?? 0;
+
   // Calculate nutrition statistics
   const calculateStats = () => {
     let totalCalories = 0;
@@ -362,12 +690,10 @@ const App: React.FC = () => {
     let totalFat = 0;
     
     records.forEach(record => {
-      try {
-        totalCalories += FHEDecryptNumber(record.calories);
-        totalProtein += FHEDecryptNumber(record.protein);
-        totalCarbs += FHEDecryptNumber(record.carbs);
-        totalFat += FHEDecryptNumber(record.fat);
-      } catch (e) {}
+      totalCalories += revealedValue(record, 'calories');
+      totalProtein += revealedValue(record, 'protein');
+      totalCarbs += revealedValue(record, 'carbs');
+      totalFat += revealedValue(record, 'fat');
     });
     
     return {
@@ -382,11 +708,44 @@ const App: React.FC = () => {
     };
   };
 
+  // Revealed intake per day, compared against past analyses
+  const intakeByDate = () => {
+    const days: Record<string, DailyIntake> = {};
+    records.forEach(record => {
+      const day = days[record.date] ?? (days[record.date] = { calories: 0, protein: 0, carbs: 0, fat: 0, water: 0 });
+      day.calories += revealedValue(record, 'calories');
+      day.protein += revealedValue(record, 'protein');
+      day.carbs += revealedValue(record, 'carbs');
+      day.fat += revealedValue(record, 'fat');
+      day.water += revealedValue(record, 'water');
+    });
+    return days;
+  };
+
+  // Water logged today: revealed entries plus those still queued. `hidden` counts stored
+  // entries whose amount stays encrypted until they are decrypted.
+  const todayWater = () => {
+    const today = new Date().toISOString().split('T')[0];
+    const stored = records.filter(record => record.date === today && isWaterEntry(record));
+    const hidden = stored.filter(record => decryptedData[`water-${record.id}`] == null && decodeLegacyCiphertext(record.water ?? '') === null).length;
+    const queued = pendingMeals.filter(meal => meal.date === today && isWaterEntry(meal)).reduce((total, meal) => total + (meal.values.water ?? 0), 0);
+    return { ml: stored.reduce((total, record) => total + revealedValue(record, 'water'), 0) + queued, hidden };
+  };
+
+  // Today's revealed intake with the tracker's water, the daily summary the profile form submits
+  const todayIntake = (): DailyIntake | undefined => {
+    const intake = intakeByDate()[new Date().toISOString().split('T')[0]];
+    const water = todayWater().ml;
+    if (!intake && water === 0) return undefined;
+    return { ...(intake ?? { calories: 0, protein: 0, carbs: 0, fat: 0 }), water };
+  };
+
   // Render nutrition chart
   const renderNutritionChart = () => {
     const stats = calculateStats();
-    const targetCalories = FHEDecryptNumber(healthGoal.targetCalories || FHEEncryptNumber(0));
-    const targetProtein = FHEDecryptNumber(healthGoal.targetProtein || FHEEncryptNumber(0));
+    const targetCalories = decryptedData['goal-targetCalories'] ?? decodeLegacyCiphertext(healthGoal.targetCalories) ?? 0;
+    const targetProtein = decryptedData['goal-targetProtein'] ?? decodeLegacyCiphertext(healthGoal.targetProtein) ?? 0;
+    const water = todayWater();
     
     return (
       <div className="nutrition-chart">
@@ -418,6 +777,20 @@ const App: React.FC = () => {
             {targetProtein > 0 ? `${((stats.totalProtein / targetProtein) * 100).toFixed(1)}%` : 'N/A'}
           </div>
         </div>
+        <div className="chart-row">
+          <div className="chart-label">Water today</div>
+          <div className="chart-bar">
+            <div 
+              className="bar-fill water" 
+              style={{ width: `${Math.min(100, (water.ml / (waterTarget || 1)) * 100)}%` }}
+            >
+              <span className="bar-value">{water.ml.toFixed(0)}ml/{waterTarget || '?'}ml</span>
+            </div>
+          </div>
+          <div className="chart-percentage">
+            {waterTarget ? `${((water.ml / waterTarget) * 100).toFixed(1)}%` : 'N/A'}
+          </div>
+        </div>
       </div>
     );
   };
@@ -509,6 +882,7 @@ const App: React.FC = () => {
           >
             <div className="add-icon"></div>Add Record
           </button>
+          <Link to="/provider" className="refresh-btn">Provider Console</Link>
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
           </div>
@@ -555,6 +929,17 @@ const App: React.FC = () => {
                 </div>
                 {renderNutritionChart()}
               </div>
+              
+              <div className="panel-card glass">
+                <h2>Hydration</h2>
+                <HydrationTracker
+                  todayMl={todayWater().ml}
+                  hiddenEntries={todayWater().hidden}
+                  targetMl={waterTarget}
+                  adding={addingRecord}
+                  onAdd={addWater}
+                />
+              </div>
             </div>
           </div>
           
@@ -572,12 +957,24 @@ const App: React.FC = () => {
               >
                 Health Goals
               </button>
+              <button 
+                className={`tab ${activeTab === 'analysis' ? 'active' : ''}`}
+                onClick={() => setActiveTab('analysis')}
+              >
+                Analysis
+              </button>
               <button 
                 className={`tab ${activeTab === 'actions' ? 'active' : ''}`}
                 onClick={() => setActiveTab('actions')}
               >
                 My Actions
               </button>
+              <button 
+                className={`tab ${activeTab === 'admin' ? 'active' : ''}`}
+                onClick={() => setActiveTab('admin')}
+              >
+                Admin
+              </button>
             </div>
             
             <div className="tab-content">
@@ -602,8 +999,16 @@ const App: React.FC = () => {
                           <option value="lunch">Lunch</option>
                           <option value="dinner">Dinner</option>
                           <option value="snack">Snack</option>
+                          <option value="water">Water</option>
                         </select>
                       </div>
+                      <button 
+                        onClick={handleDecryptAll} 
+                        className="refresh-btn" 
+                        disabled={isDecrypting || records.length === 0}
+                      >
+                        {isDecrypting ? "Decrypting..." : "Decrypt All"}
+                      </button>
                       <button 
                         onClick={loadData} 
                         className="refresh-btn" 
@@ -614,11 +1019,82 @@ const App: React.FC = () => {
                     </div>
                   </div>
                   
+                  {sessionExpiresAt && (
+                    <div className="session-status glass">
+                      <span>🔓 Decryption session active until {new Date(sessionExpiresAt * 1000).toLocaleString()}</span>
+                      <button onClick={revokeSession} className="refresh-btn">Revoke Session</button>
+                    </div>
+                  )}
+                  
+                  {legacyData && (
+                    <div className="legacy-banner glass">
+                      <span>
+                        Found {legacyData.records.length} record(s){legacyData.goals ? " and health goals" : ""} in the shared storage used before per-wallet data. Import them into your wallet?
+                      </span>
+                      <div className="legacy-actions">
+                        <button onClick={importLegacyData} className="refresh-btn">Import</button>
+                        <button onClick={dismissLegacyData} className="refresh-btn">Dismiss</button>
+                      </div>
+                    </div>
+                  )}
+                  
+                  {quarantine.length > 0 && (
+                    <div className="quarantine-panel glass">
+                      <div className="quarantine-summary">
+                        <span>⚠ {quarantine.length} stored entr{quarantine.length === 1 ? "y" : "ies"} could not be read and were set aside. They are kept on chain untouched.</span>
+                        <button onClick={() => setShowQuarantine(!showQuarantine)} className="refresh-btn">
+                          {showQuarantine ? "Hide" : "Show"} Details
+                        </button>
+                      </div>
+                      {showQuarantine && (
+                        <ul className="quarantine-list">
+                          {quarantine.map((entry, index) => (
+                            <li key={index}>
+                              <div className="quarantine-reason">{entry.reason}</div>
+                              <div className="quarantine-key">{entry.key}</div>
+                              <code>{JSON.stringify(entry.raw)?.substring(0, 160) ?? "undefined"}</code>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                  
+                  {pendingMeals.length > 0 && (
+                    <div className="session-status glass">
+                      <span>
+                        ⏳ {pendingMeals.length} meal(s) waiting to sync{address ? "" : ". Connect a wallet to store them on chain"}
+                      </span>
+                      {address && <button onClick={syncNow} className="refresh-btn">Sync Now</button>}
+                    </div>
+                  )}
+                  
                   <div className="records-list">
-                    {filteredRecords.length === 0 ? (
+                    {pendingMeals.map(meal => (
+                      <div className="record-item pending glass" key={meal.id}>
+                        <div className="record-header">
+                          <div className="record-date">{meal.date}</div>
+                          <div className={`record-meal-type ${meal.mealType}`}>
+                            {meal.mealType.charAt(0).toUpperCase() + meal.mealType.slice(1)}
+                          </div>
+                        </div>
+                        <div className="record-notes">{meal.values.notes || "No notes"}</div>
+                        <AllergenWarning notes={meal.values.notes} allergyFlags={allergyFlags} />
+                        <div className="pending-sync">
+                          <span className="pending-badge">Pending sync</span>
+                          {meal.lastError 
+                            ? <span className="pending-error">Attempt {meal.attempts} failed: {meal.lastError}</span>
+                            : <span>{isWaterEntry(meal) ? `${meal.values.water ?? 0} ml` : `${meal.values.calories} kcal`}, stored encrypted on this device</span>}
+                        </div>
+                        <div className="record-actions">
+                          <button className="decrypt-btn" onClick={() => discardQueuedMeal(meal.id)}>Discard</button>
+                        </div>
+                      </div>
+                    ))}
+                    {filteredRecords.length === 0 && pendingMeals.length === 0 ? (
                       <div className="no-records">
                         <div className="no-records-icon"></div>
-                        <p>No nutrition records found</p>
+                        <p>{address ? "No nutrition records found" : "Connect your wallet to load your records"}</p>
                         <button 
                           className="create-btn" 
                           onClick={() => setShowAddModal(true)}
@@ -639,6 +1115,7 @@ const App: React.FC = () => {
                           </div>
                         </div>
                         <div className="record-notes">{record.notes || "No notes"}</div>
+                        <AllergenWarning notes={record.notes} allergyFlags={allergyFlags} />
                         <div className="record-encrypted">
                           <span>Encrypted Data:</span> 
                           {record.calories.substring(0, 10)}...
@@ -658,6 +1135,18 @@ const App: React.FC = () => {
                       </div>
                     ))}
                   </div>
+                  
+                  {nextCursor !== null && (
+                    <div className="load-more">
+                      <button 
+                        onClick={loadMoreRecords} 
+                        className="refresh-btn" 
+                        disabled={loadingMore}
+                      >
+                        {loadingMore ? "Loading..." : "Load Older Records"}
+                      </button>
+                    </div>
+                  )}
                 </div>
               )}
               
@@ -669,8 +1158,8 @@ const App: React.FC = () => {
                       <label>Target Calories (kcal)</label>
                       <input 
                         type="text" 
-                        value={healthGoal.targetCalories}
-                        onChange={(e) => setHealthGoal({...healthGoal, targetCalories: e.target.value})}
+                        value={goalInputs.targetCalories}
+                        onChange={(e) => setGoalInputs({...goalInputs, targetCalories: e.target.value})}
                         placeholder="Enter target calories..."
                       />
                     </div>
@@ -678,8 +1167,8 @@ const App: React.FC = () => {
                       <label>Target Protein (g)</label>
                       <input 
                         type="text" 
-                        value={healthGoal.targetProtein}
-                        onChange={(e) => setHealthGoal({...healthGoal, targetProtein: e.target.value})}
+                        value={goalInputs.targetProtein}
+                        onChange={(e) => setGoalInputs({...goalInputs, targetProtein: e.target.value})}
                         placeholder="Enter target protein..."
                       />
                     </div>
@@ -687,8 +1176,8 @@ const App: React.FC = () => {
                       <label>Target Carbs (g)</label>
                       <input 
                         type="text" 
-                        value={healthGoal.targetCarbs}
-                        onChange={(e) => setHealthGoal({...healthGoal, targetCarbs: e.target.value})}
+                        value={goalInputs.targetCarbs}
+                        onChange={(e) => setGoalInputs({...goalInputs, targetCarbs: e.target.value})}
                         placeholder="Enter target carbs..."
                       />
                     </div>
@@ -696,14 +1185,14 @@ const App: React.FC = () => {
                       <label>Target Fat (g)</label>
                       <input 
                         type="text" 
-                        value={healthGoal.targetFat}
-                        onChange={(e) => setHealthGoal({...healthGoal, targetFat: e.target.value})}
+                        value={goalInputs.targetFat}
+                        onChange={(e) => setGoalInputs({...goalInputs, targetFat: e.target.value})}
                         placeholder="Enter target fat..."
                       />
                     </div>
                     <div className="form-actions">
                       <button 
-                        onClick={updateHealthGoals}
+                        onClick={() => updateHealthGoals()}
                         className="update-btn"
                       >
                         Update Goals
@@ -716,6 +1205,19 @@ const App: React.FC = () => {
                       </button>
                     </div>
                   </div>
+                  <ProfileForm
+                    account={address}
+                    todayIntake={todayIntake()}
+                    allergyFlags={allergyFlags}
+                    onAllergyFlagsChange={changeAllergyFlags}
+                  />
+                </div>
+              )}
+              
+              {activeTab === 'analysis' && (
+                <div className="analysis-section">
+                  <h2>Analysis History</h2>
+                  <AnalysisView account={address} intakeByDate={intakeByDate()} />
                 </div>
               )}
               
@@ -725,6 +1227,14 @@ const App: React.FC = () => {
                   {renderUserActions()}
                 </div>
               )}
+              
+              {activeTab === 'admin' && (
+                <div className="admin-section">
+                  <h2>Contract Administration</h2>
+                  <ContractAdmin account={address} transactions={transactions} />
+                  <AnalysisParamsAdmin account={address} transactions={transactions} />
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -737,21 +1247,30 @@ const App: React.FC = () => {
           adding={addingRecord} 
           recordData={newRecordData} 
           setRecordData={setNewRecordData}
+          allergyFlags={allergyFlags}
         />
       )}
       
       {selectedRecord && (
         <RecordDetailModal 
           record={selectedRecord} 
-          onClose={() => { 
-            setSelectedRecord(null); 
-            setDecryptedData({});
-          }} 
+          onClose={() => setSelectedRecord(null)} 
           decryptedData={decryptedData}
           isDecrypting={isDecrypting}
         />
       )}
       
+      {conflict && (
+        <WriteConflictModal 
+          conflict={conflict} 
+          onRetry={() => { setConflict(null); conflict.retry(); }} 
+          onReload={() => { setConflict(null); loadData(); }} 
+          onClose={() => setConflict(null)}
+        />
+      )}
+      
+      <TransactionPanel manager={transactions} account={address} />
+      
       {transactionStatus.visible && (
         <div className="transaction-modal glass">
           <div className="transaction-content">
@@ -787,6 +1306,7 @@ const App: React.FC = () => {
           <div className="fhe-badge">
             <span>Powered by Zama FHE</span>
           </div>
+          <RpcStatus />
           <div className="copyright">© {new Date().getFullYear()} 隱養師. All rights reserved.</div>
           <div className="disclaimer">
             This system uses fully homomorphic encryption to protect your health data. 
@@ -798,15 +1318,32 @@ const App: React.FC = () => {
   );
 };
 
+// Flagged allergens a meal's notes mention; nothing when there are none
+const AllergenWarning: React.FC<{ notes: string; allergyFlags: number }> = ({ notes, allergyFlags }) => {
+  const matches = findAllergens(notes, allergyFlags);
+  if (matches.length === 0) return null;
+  return (
+    <div className="allergen-warning">
+      <strong>Allergen warning</strong>
+      {matches.map(match => (
+        <p key={match.allergen}>
+          {ALLERGENS[match.allergen].label}: mentions {match.keywords.join(', ')}
+        </p>
+      ))}
+    </div>
+  );
+};
+
 interface ModalAddRecordProps {
   onSubmit: () => void; 
   onClose: () => void; 
   adding: boolean;
   recordData: any;
   setRecordData: (data: any) => void;
+  allergyFlags: number;
 }
 
-const ModalAddRecord: React.FC<ModalAddRecordProps> = ({ onSubmit, onClose, adding, recordData, setRecordData }) => {
+const ModalAddRecord: React.FC<ModalAddRecordProps> = ({ onSubmit, onClose, adding, recordData, setRecordData, allergyFlags }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setRecordData({ ...recordData, [name]: value });
@@ -850,54 +1387,70 @@ const ModalAddRecord: React.FC<ModalAddRecordProps> = ({ onSubmit, onClose, addi
               <option value="lunch">Lunch</option>
               <option value="dinner">Dinner</option>
               <option value="snack">Snack</option>
+              <option value="water">Water</option>
             </select>
           </div>
           
-          <div className="form-row">
-            <div className="form-group">
-              <label>Calories (kcal)</label>
-              <input 
-                type="number" 
-                name="calories" 
-                value={recordData.calories} 
-                onChange={handleChange} 
-                placeholder="Enter calories..."
-              />
-            </div>
+          {recordData.mealType === 'water' ? (
             <div className="form-group">
-              <label>Protein (g)</label>
+              <label>Water (ml)</label>
               <input 
                 type="number" 
-                name="protein" 
-                value={recordData.protein} 
+                name="water" 
+                value={recordData.water} 
                 onChange={handleChange} 
-                placeholder="Enter protein..."
+                placeholder="Enter water..."
               />
             </div>
-          </div>
+          ) : (
+            <>
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Calories (kcal)</label>
+                  <input 
+                    type="number" 
+                    name="calories" 
+                    value={recordData.calories} 
+                    onChange={handleChange} 
+                    placeholder="Enter calories..."
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Protein (g)</label>
+                  <input 
+                    type="number" 
+                    name="protein" 
+                    value={recordData.protein} 
+                    onChange={handleChange} 
+                    placeholder="Enter protein..."
+                  />
+                </div>
+              </div>
           
-          <div className="form-row">
-            <div className="form-group">
-              <label>Carbs (g)</label>
-              <input 
-                type="number" 
-                name="carbs" 
-                value={recordData.carbs} 
-                onChange={handleChange} 
-                placeholder="Enter carbs..."
-              />
-            </div>
-            <div className="form-group">
-              <label>Fat (g)</label>
-              <input 
-                type="number" 
-                name="fat" 
-                value={recordData.fat} 
-                onChange={handleChange} 
-                placeholder="Enter fat..."
-              />
-            </div>
-          </div>
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Carbs (g)</label>
+                  <input 
+                    type="number" 
+                    name="carbs" 
+                    value={recordData.carbs} 
+                    onChange={handleChange} 
+                    placeholder="Enter carbs..."
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Fat (g)</label>
+                  <input 
+                    type="number" 
+                    name="fat" 
+                    value={recordData.fat} 
+                    onChange={handleChange} 
+                    placeholder="Enter fat..."
+                  />
+                </div>
+              </div>
+            </>
+          )}
           
           <div className="form-group">
             <label>Notes</label>
@@ -909,6 +1462,8 @@ const ModalAddRecord: React.FC<ModalAddRecordProps> = ({ onSubmit, onClose, addi
               rows={3}
             />
           </div>
+
+          <AllergenWarning notes={recordData.notes} allergyFlags={allergyFlags} />
         </div>
         
         <div className="modal-footer">
@@ -971,7 +1526,7 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
               <div className="nutrition-item">
                 <span>Calories:</span>
                 <div className="nutrition-value">
-                  {decryptedData[`calories-${record.id}`] !== null ? (
+                  {decryptedData[`calories-${record.id}`] != null ? (
                     <strong>{decryptedData[`calories-${record.id}`]?.toFixed(0)} kcal</strong>
                   ) : (
                     <span className="encrypted">Encrypted</span>
@@ -981,7 +1536,7 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
               <div className="nutrition-item">
                 <span>Protein:</span>
                 <div className="nutrition-value">
-                  {decryptedData[`protein-${record.id}`] !== null ? (
+                  {decryptedData[`protein-${record.id}`] != null ? (
                     <strong>{decryptedData[`protein-${record.id}`]?.toFixed(0)}g</strong>
                   ) : (
                     <span className="encrypted">Encrypted</span>
@@ -991,7 +1546,7 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
               <div className="nutrition-item">
                 <span>Carbs:</span>
                 <div className="nutrition-value">
-                  {decryptedData[`carbs-${record.id}`] !== null ? (
+                  {decryptedData[`carbs-${record.id}`] != null ? (
                     <strong>{decryptedData[`carbs-${record.id}`]?.toFixed(0)}g</strong>
                   ) : (
                     <span className="encrypted">Encrypted</span>
@@ -1001,13 +1556,25 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
               <div className="nutrition-item">
                 <span>Fat:</span>
                 <div className="nutrition-value">
-                  {decryptedData[`fat-${record.id}`] !== null ? (
+                  {decryptedData[`fat-${record.id}`] != null ? (
                     <strong>{decryptedData[`fat-${record.id}`]?.toFixed(0)}g</strong>
                   ) : (
                     <span className="encrypted">Encrypted</span>
                   )}
                 </div>
               </div>
+              {record.water && (
+                <div className="nutrition-item">
+                  <span>Water:</span>
+                  <div className="nutrition-value">
+                    {decryptedData[`water-${record.id}`] != null ? (
+                      <strong>{decryptedData[`water-${record.id}`]?.toFixed(0)} ml</strong>
+                    ) : (
+                      <span className="encrypted">Encrypted</span>
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
           
@@ -1030,6 +1597,12 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
                 <span>Fat:</span>
                 <code>{record.fat.substring(0, 20)}...</code>
               </div>
+              {record.water && (
+                <div className="data-item">
+                  <span>Water:</span>
+                  <code>{record.water.substring(0, 20)}...</code>
+                </div>
+              )}
             </div>
             <div className="fhe-tag">
               <div className="fhe-icon"></div>
@@ -1046,4 +1619,40 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
+
+interface WriteConflictModalProps {
+  conflict: WriteConflict;
+  onRetry: () => void;
+  onReload: () => void;
+  onClose: () => void;
+}
+
+const WriteConflictModal: React.FC<WriteConflictModalProps> = ({ conflict, onRetry, onReload, onClose }) => {
+  const { actual } = conflict.error;
+  return (
+    <div className="modal-overlay">
+      <div className="conflict-modal glass">
+        <div className="modal-header">
+          <h2>Data Changed Elsewhere</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <p>{conflict.message}</p>
+          <div className="conflict-version">
+            {actual.blockNumber !== null 
+              ? <span>Latest write: block {actual.blockNumber} (<code>{actual.txHash?.substring(0, 10)}...</code>)</span>
+              : <span>Latest version: <code>{actual.hash.substring(0, 10)}...</code> (the write that stored it wasn't found in the blocks searched, so its block and transaction are unknown)</span>}
+          </div>
+        </div>
+        
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn">Cancel</button>
+          <button onClick={onReload} className="cancel-btn">Reload Latest</button>
+          <button onClick={onRetry} className="submit-btn">{conflict.retryLabel}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+// chains.ts
+// Networks the app can run on. Built-in entries only carry keyless public RPCs; endpoints with
+// API keys, contract addresses and extra chains come from the build environment:
+//
+//   VITE_DEFAULT_CHAIN_ID           chain used before a wallet is connected
+//   VITE_<KEY>_RPC_URLS             comma-separated RPCs tried in order, e.g. VITE_SEPOLIA_RPC_URLS
+//   VITE_<KEY>_UNIVERSAL_ADAPTER    UniversalAdapter address, overriding config.json
+//   VITE_<KEY>_UNIVERSAL_ADAPTER_BLOCK  block UniversalAdapter was deployed in, where its writes start
+//   VITE_<KEY>_NUTRITION_AI         NutritionAIFHE address, overriding config.json
+//   VITE_<KEY>_NUTRITION_AI_BLOCK   block NutritionAIFHE was deployed in, where its event history starts
+//   VITE_CUSTOM_CHAINS              JSON array of additional ChainConfig entries
+//
+// config.json holds the addresses (and the blocks they were deployed in) written by the deploy
+// script, keyed by chain id.
+import configJson from "./config.json";
+
+export interface ChainContracts {
+  universalAdapter?: string;
+  universalAdapterBlock?: number;
+  nutritionAI?: string;
+  nutritionAIBlock?: number;
+}
+
+export interface ChainConfig {
+  id: number;
+  key: string; // upper-case name used for environment variables
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  blockExplorerUrl?: string;
+  contracts: ChainContracts;
+  testnet: boolean;
+  // "relayer" uses Zama's relayer and KMS; "mock" keeps FHE values in the browser for local nodes
+  fhe: "relayer" | "mock";
+}
+
+interface DeploymentConfig {
+  defaultChainId?: number;
+  deployments?: Record<string, ChainContracts & { deployer?: string }>;
+}
+
+const deploymentConfig = configJson as DeploymentConfig;
+const env: Record<string, string | undefined> = import.meta.env;
+
+const BUILT_IN_CHAINS: ChainConfig[] = [
+  {
+    id: 11155111,
+    key: "SEPOLIA",
+    name: "Sepolia",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
+    rpcUrls: [
+      "https://ethereum-sepolia-rpc.publicnode.com",
+      "https://rpc.sepolia.org",
+      "https://eth-sepolia.public.blastapi.io"
+    ],
+    blockExplorerUrl: "https://sepolia.etherscan.io",
+    contracts: {},
+    testnet: true,
+    fhe: "relayer"
+  },
+  {
+    id: 31337,
+    key: "HARDHAT",
+    name: "Hardhat",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: ["http://127.0.0.1:8545"],
+    contracts: {},
+    testnet: true,
+    fhe: "mock"
+  }
+];
+
+const splitUrls = (value: string | undefined) =>
+  value?.split(",").map(url => url.trim()).filter(Boolean) ?? [];
+
+function parseCustomChains(value: string | undefined): ChainConfig[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) throw new Error("expected an array");
+    return parsed.map((chain: Partial<ChainConfig>) => {
+      if (!Number.isInteger(chain.id) || !chain.name || !chain.rpcUrls?.length) {
+        throw new Error(`chain ${JSON.stringify(chain)} needs id, name and rpcUrls`);
+      }
+      return {
+        key: `CHAIN_${chain.id}`,
+        nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+        contracts: {},
+        testnet: true,
+        fhe: "relayer",
+        ...chain
+      } as ChainConfig;
+    });
+  } catch (e: any) {
+    console.error("Ignoring invalid VITE_CUSTOM_CHAINS:", e.message);
+    return [];
+  }
+}
+
+const blockNumber = (value: string | undefined) => (value && Number.isSafeInteger(Number(value)) ? Number(value) : undefined);
+
+// Environment and deployment settings layered over a chain's defaults
+function resolveChain(chain: ChainConfig): ChainConfig {
+  const rpcUrls = splitUrls(env[`VITE_${chain.key}_RPC_URLS`]);
+  const deployed = deploymentConfig.deployments?.[String(chain.id)];
+  return {
+    ...chain,
+    rpcUrls: rpcUrls.length > 0 ? rpcUrls : chain.rpcUrls,
+    contracts: {
+      ...chain.contracts,
+      ...(deployed?.universalAdapter && { universalAdapter: deployed.universalAdapter }),
+      ...(deployed?.universalAdapterBlock !== undefined && { universalAdapterBlock: deployed.universalAdapterBlock }),
+      ...(deployed?.nutritionAI && { nutritionAI: deployed.nutritionAI }),
+      ...(deployed?.nutritionAIBlock !== undefined && { nutritionAIBlock: deployed.nutritionAIBlock }),
+      // A deployment block from config.json belongs to the config.json address, not an override
+      ...(env[`VITE_${chain.key}_UNIVERSAL_ADAPTER`] && {
+        universalAdapter: env[`VITE_${chain.key}_UNIVERSAL_ADAPTER`],
+        universalAdapterBlock: blockNumber(env[`VITE_${chain.key}_UNIVERSAL_ADAPTER_BLOCK`])
+      }),
+      ...(env[`VITE_${chain.key}_NUTRITION_AI`] && {
+        nutritionAI: env[`VITE_${chain.key}_NUTRITION_AI`],
+        nutritionAIBlock: blockNumber(env[`VITE_${chain.key}_NUTRITION_AI_BLOCK`])
+      })
+    }
+  };
+}
+
+export const CHAINS: ChainConfig[] = [...BUILT_IN_CHAINS, ...parseCustomChains(env.VITE_CUSTOM_CHAINS)]
+  .filter((chain, index, all) => all.findIndex(other => other.id === chain.id) === index)
+  .map(resolveChain);
+
+export const findChain = (chainId: number) => CHAINS.find(chain => chain.id === chainId);
+
+export function defaultChain(): ChainConfig {
+  const preferred = Number(env.VITE_DEFAULT_CHAIN_ID ?? deploymentConfig.defaultChainId);
+  return findChain(preferred) ?? CHAINS[0];
+}
+
+export const toHexChainId = (chainId: number) => `0x${chainId.toString(16)}`;
+
+export const explorerTxUrl = (chainId: number, hash: string) => {
+  const explorer = findChain(chainId)?.blockExplorerUrl;
+  return explorer ? `${explorer}/tx/${hash}` : null;
+};
+
+// EIP-1193 error code for a chain the wallet doesn't know yet
+const UNRECOGNIZED_CHAIN = 4902;
+
+// Asks the wallet to switch, adding the chain first when it doesn't know it
+export async function switchWalletChain(provider: { request(args: { method: string; params?: any[] }): Promise<any> }, chain: ChainConfig) {
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId: toHexChainId(chain.id) }] });
+  } catch (switchError: any) {
+    if (switchError.code !== UNRECOGNIZED_CHAIN) throw switchError;
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId: toHexChainId(chain.id),
+        chainName: chain.name,
+        nativeCurrency: chain.nativeCurrency,
+        rpcUrls: chain.rpcUrls,
+        ...(chain.blockExplorerUrl && { blockExplorerUrls: [chain.blockExplorerUrl] })
+      }]
+    });
+  }
+}
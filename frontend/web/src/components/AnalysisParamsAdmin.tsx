@@ -0,0 +1,146 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useProviderPool } from '../rpc/ProviderPoolContext';
+import { getNutritionAIWithSigner } from '../contract';
+import { describeError, formatError } from '../errors/contractErrors';
+import { formatDuration } from '../errors/messages';
+import { ANALYSIS_PARAM_FIELDS, AnalysisParams, diffAnalysisParams, validateAnalysisParams } from '../sdk/analysisModel';
+import { sendOwnerAction } from '../sdk/contractAdmin';
+import { readAnalysisParams } from '../sdk/nutritionAI';
+import { TransactionManager } from '../transactions/transactionManager';
+
+interface AnalysisParamsAdminProps {
+  account?: string;
+  transactions: TransactionManager;
+}
+
+type ParamInputs = Record<keyof AnalysisParams, string>;
+
+const PARAM_LABELS: Record<keyof AnalysisParams, string> = {
+  bmr: 'Fallback metabolic rate (kcal)',
+  activityFactor: 'Calories per activity level',
+  loseWeightAdjustment: 'Lose weight adjustment (kcal)',
+  gainMuscleAdjustment: 'Gain muscle adjustment (kcal)',
+  proteinPercent: 'Protein share without weight (%)',
+  proteinPerKg: 'Protein per kg (tenths of a gram)',
+  fatPercent: 'Fat share (%)',
+  waterTargetMl: 'Water target (ml)'
+};
+
+function toInputs(params: AnalysisParams): ParamInputs {
+  const inputs = {} as ParamInputs;
+  ANALYSIS_PARAM_FIELDS.forEach(field => {
+    inputs[field] = String(params[field]);
+  });
+  return inputs;
+}
+
+// Blank fields become NaN, which validation reports
+function fromInputs(inputs: ParamInputs): AnalysisParams {
+  const params = {} as AnalysisParams;
+  ANALYSIS_PARAM_FIELDS.forEach(field => {
+    params[field] = inputs[field].trim() ? Number(inputs[field]) : NaN;
+  });
+  return params;
+}
+
+// Owner screen for the nutrition model's parameters: shows the deployed values, what an edit
+// would change, and sends setAnalysisParams once the edit passes the contract's checks (scheduling it
+// first while the timelock is on)
+export default function AnalysisParamsAdmin({ account, transactions }: AnalysisParamsAdminProps) {
+  const { chain, getNutritionAI } = useProviderPool();
+  const [current, setCurrent] = useState<AnalysisParams | null>(null);
+  const [inputs, setInputs] = useState<ParamInputs | null>(null);
+  const [owner, setOwner] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setStatus(null);
+    try {
+      const contract = await getNutritionAI();
+      if (!contract) {
+        setStatus(`NutritionAIFHE is not deployed on ${chain.name}`);
+        return;
+      }
+      const [params, contractOwner] = await Promise.all([readAnalysisParams(contract), contract.owner()]);
+      setCurrent(params);
+      setInputs(toInputs(params));
+      setOwner(contractOwner);
+    } catch (e) {
+      setStatus("Loading parameters failed: " + formatError(describeError(e)));
+    }
+  }, [chain.name, getNutritionAI]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (!current || !inputs) return <div className="no-data">{status ?? "Loading analysis parameters..."}</div>;
+
+  const next = fromInputs(inputs);
+  const problems = validateAnalysisParams(next);
+  const changes = problems.length === 0 ? diffAnalysisParams(current, next) : [];
+  const isOwner = !!account && !!owner && account.toLowerCase() === owner.toLowerCase();
+
+  const save = async () => {
+    setSaving(true);
+    setStatus(null);
+    try {
+      const contract = await getNutritionAIWithSigner();
+      const { scheduled, tx } = await sendOwnerAction(contract, "setAnalysisParams", [next]);
+      await transactions.track(tx, scheduled ? "Schedule: Update analysis parameters" : "Update analysis parameters");
+      await load();
+      setStatus(scheduled
+        ? `Update scheduled. Save the same values again in ${formatDuration(Number(await contract.timelockDelay()))} to apply them.`
+        : "Analysis parameters updated. Analyses requested from now on use them.");
+    } catch (e) {
+      setStatus("Update failed: " + formatError(describeError(e)));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="params-admin glass">
+      <h3>Analysis Parameters</h3>
+      {!isOwner && <p className="preview-note">Only the contract owner ({owner}) can change these.</p>}
+      <div className="params-grid">
+        {ANALYSIS_PARAM_FIELDS.map(field => (
+          <div className="form-group" key={field}>
+            <label>{PARAM_LABELS[field]}</label>
+            <input
+              type="text"
+              value={inputs[field]}
+              disabled={!isOwner || saving}
+              onChange={(e) => setInputs({ ...inputs, [field]: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+      {problems.length > 0 && (
+        <ul className="params-problems">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+      {changes.length > 0 && (
+        <div className="params-diff">
+          {changes.map(change => (
+            <div className="params-change" key={change.field}>
+              <span>{PARAM_LABELS[change.field]}</span>
+              <span>{change.from} → {change.to}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {status && <p className="preview-note">{status}</p>}
+      <div className="form-actions">
+        <button className="cancel-btn" onClick={() => setInputs(toInputs(current))} disabled={saving}>
+          Reset
+        </button>
+        <button className="update-btn" onClick={save} disabled={!isOwner || saving || changes.length === 0}>
+          {saving ? "Updating..." : "Apply Changes"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Bar, Line } from 'react-chartjs-2';
+import { BarElement, CategoryScale, Chart as ChartJS, Legend, LinearScale, LineElement, PointElement, Tooltip } from 'chart.js';
+import { useProviderPool } from '../rpc/ProviderPoolContext';
+import { getAllAnalyses, StoredAnalysis } from '../sdk/nutritionAI';
+import { describeError, formatError } from '../errors/contractErrors';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, BarElement, Tooltip, Legend);
+
+// Revealed intake logged for one day
+export interface DailyIntake {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  water: number; // ml
+}
+
+interface AnalysisViewProps {
+  account?: string;
+  // Keyed by YYYY-MM-DD, like the records' date field
+  intakeByDate: Record<string, DailyIntake>;
+}
+
+const dayOf = (analysis: StoredAnalysis) => new Date(analysis.completedAt * 1000).toISOString().split('T')[0];
+
+// The provider's stored analyses, their targets over batches and the intake logged on the day each completed
+export default function AnalysisView({ account, intakeByDate }: AnalysisViewProps) {
+  const { chain, getNutritionAI } = useProviderPool();
+  const [analyses, setAnalyses] = useState<StoredAnalysis[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!account) return;
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const contract = await getNutritionAI();
+        const loaded = contract ? await getAllAnalyses(contract, account) : [];
+        if (!cancelled) setAnalyses(loaded);
+      } catch (e) {
+        if (!cancelled) setError("Loading analyses failed: " + formatError(describeError(e)));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [account, chain.id, getNutritionAI]);
+
+  if (!account) return <div className="no-data">Connect your wallet to load your analyses</div>;
+  if (loading) return <div className="no-data">Loading analyses...</div>;
+  if (error) return <div className="no-data">{error}</div>;
+  if (analyses.length === 0) return <div className="no-data">No analyses yet. Submit data to a batch and request an analysis.</div>;
+
+  const labels = analyses.map(analysis => `#${analysis.batchId} (${dayOf(analysis)})`);
+  const intake = analyses.map(analysis => intakeByDate[dayOf(analysis)]);
+
+  const calorieData = {
+    labels,
+    datasets: [
+      { label: 'Calorie target', data: analyses.map(a => a.result.calorieTarget), borderColor: '#FF9F68', backgroundColor: '#FF9F68' },
+      { label: 'Calories logged', data: intake.map(day => day?.calories ?? null), borderColor: '#5AB9A8', backgroundColor: '#5AB9A8' }
+    ]
+  };
+  const macroData = {
+    labels,
+    datasets: [
+      { label: 'Protein target (g)', data: analyses.map(a => a.result.proteinTarget), backgroundColor: '#FFD6A5' },
+      { label: 'Protein logged (g)', data: intake.map(day => day?.protein ?? null), backgroundColor: '#F4A261' },
+      { label: 'Carbs target (g)', data: analyses.map(a => a.result.carbTarget), backgroundColor: '#A0E4CB' },
+      { label: 'Carbs logged (g)', data: intake.map(day => day?.carbs ?? null), backgroundColor: '#59C1A0' },
+      { label: 'Fat target (g)', data: analyses.map(a => a.result.fatTarget), backgroundColor: '#CDB4DB' },
+      { label: 'Fat logged (g)', data: intake.map(day => day?.fat ?? null), backgroundColor: '#9D79BC' }
+    ]
+  };
+
+  return (
+    <div className="analysis-view">
+      <div className="analysis-chart glass">
+        <h3>Calories</h3>
+        <Line data={calorieData} options={{ responsive: true, spanGaps: true }} />
+      </div>
+      <div className="analysis-chart glass">
+        <h3>Macronutrients</h3>
+        <Bar data={macroData} options={{ responsive: true }} />
+      </div>
+      <div className="analysis-table glass">
+        <div className="analysis-row header">
+          <div className="analysis-cell">Batch</div>
+          <div className="analysis-cell">Completed</div>
+          <div className="analysis-cell">Calories</div>
+          <div className="analysis-cell">Protein / Carbs / Fat</div>
+          <div className="analysis-cell">Water</div>
+          <div className="analysis-cell">Score</div>
+        </div>
+        {[...analyses].reverse().map((analysis, index) => {
+          const { result } = analysis;
+          const logged = intake[analyses.length - 1 - index];
+          return (
+            <div className="analysis-row" key={analysis.batchId.toString()}>
+              <div className="analysis-cell">#{analysis.batchId.toString()}</div>
+              <div className="analysis-cell">{new Date(analysis.completedAt * 1000).toLocaleString()}</div>
+              <div className="analysis-cell">
+                {result.calorieTarget} kcal{logged ? ` (logged ${logged.calories.toFixed(0)})` : ''}
+              </div>
+              <div className="analysis-cell">{result.proteinTarget}g / {result.carbTarget}g / {result.fatTarget}g</div>
+              <div className="analysis-cell">
+                {result.waterTarget} ml{logged ? ` (logged ${logged.water.toFixed(0)})` : ''}
+              </div>
+              <div className="analysis-cell">{result.score}/100</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
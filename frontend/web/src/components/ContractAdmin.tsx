@@ -0,0 +1,379 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import type { NutritionAIFHE } from '@contracts/contracts/Nutrition_AI_FHE.sol/NutritionAIFHE';
+import { useProviderPool } from '../rpc/ProviderPoolContext';
+import { getNutritionAIWithSigner } from '../contract';
+import { describeError, formatError, simulateAndSend } from '../errors/contractErrors';
+import { formatDuration } from '../errors/messages';
+import {
+  AdminEvent,
+  getAdminAuditTrail,
+  getProviders,
+  getScheduledActions,
+  ScheduledAction,
+  sendOwnerAction,
+  TimelockedFunction,
+  validateAdminAddress,
+  validateCooldown,
+  validateTimelockDelay
+} from '../sdk/contractAdmin';
+import { TransactionManager } from '../transactions/transactionManager';
+
+interface ContractAdminProps {
+  account?: string;
+  transactions: TransactionManager;
+}
+
+interface AdminState {
+  owner: string;
+  pendingOwner: string | null;
+  paused: boolean;
+  cooldownSeconds: number;
+  timelockDelay: number;
+  providers: string[];
+  scheduled: ScheduledAction[];
+  events: AdminEvent[];
+  now: number; // latest block timestamp, what the timelock is measured against
+  fromBlock: number; // where the provider list, scheduled changes and audit trail were read from
+}
+
+// How far back the event history is read when the chain config has no deployment block
+const HISTORY_LOOKBACK_BLOCKS = 50000;
+
+// A change waiting to be confirmed; timelocked ones may only get scheduled when sent
+interface PendingAction {
+  description: string;
+  timelocked: boolean;
+  send: (contract: NutritionAIFHE) => Promise<{ scheduled: boolean; tx: ethers.ContractTransactionResponse }>;
+}
+
+// Struct arguments (setAnalysisParams) come back as arrays of their fields
+const describeArg = (arg: unknown): string => (Array.isArray(arg) ? `(${arg.map(describeArg).join(', ')})` : String(arg));
+
+const describeCall = (action: ScheduledAction) => `${action.name}(${action.args.map(describeArg).join(', ')})`;
+
+function describeEvent(event: AdminEvent): string {
+  switch (event.kind) {
+    case "ownershipProposed":
+      return `${event.owner} proposed ${event.pendingOwner} as the new owner`;
+    case "ownershipProposalCancelled":
+      return `Ownership proposal to ${event.pendingOwner} cancelled`;
+    case "ownership":
+      return `Ownership transferred from ${event.oldOwner} to ${event.newOwner}`;
+    case "pause":
+      return event.paused ? "Contract paused" : "Contract unpaused";
+    case "cooldown":
+      return `Cooldown changed from ${event.oldCooldown}s to ${event.newCooldown}s`;
+    case "timelock":
+      return `Timelock delay changed from ${event.oldDelay}s to ${event.newDelay}s`;
+  }
+}
+
+// Owner screen for the provider list, pause switch, cooldown, timelock and ownership handoff, with
+// the audit trail of those settings. Every change is confirmed before it is sent; while a timelock
+// delay is set, provider, cooldown, delay and ownership changes (and the analysis parameters) are
+// scheduled first and executed from the scheduled list once the delay has passed.
+export default function ContractAdmin({ account, transactions }: ContractAdminProps) {
+  const { chain, getNutritionAI } = useProviderPool();
+  const [state, setState] = useState<AdminState | null>(null);
+  const [newProvider, setNewProvider] = useState('');
+  const [cooldownInput, setCooldownInput] = useState('');
+  const [delayInput, setDelayInput] = useState('');
+  const [newOwner, setNewOwner] = useState('');
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const contract = await getNutritionAI();
+      if (!contract) {
+        setStatus(`NutritionAIFHE is not deployed on ${chain.name}`);
+        return;
+      }
+      const block = await contract.runner!.provider!.getBlock('latest');
+      if (!block) throw new Error("The RPC returned no latest block");
+      // Without a known deployment block, only the recent history is read
+      const fromBlock = chain.contracts.nutritionAIBlock ?? Math.max(0, block.number - HISTORY_LOOKBACK_BLOCKS);
+      const [owner, pendingOwner, paused, cooldownSeconds, timelockDelay, providers, scheduled, events] = await Promise.all([
+        contract.owner(),
+        contract.pendingOwner(),
+        contract.paused(),
+        contract.cooldownSeconds(),
+        contract.timelockDelay(),
+        getProviders(contract, fromBlock, block.number),
+        getScheduledActions(contract, fromBlock, block.number),
+        getAdminAuditTrail(contract, fromBlock, block.number)
+      ]);
+      setState({
+        owner,
+        pendingOwner: pendingOwner === ethers.ZeroAddress ? null : pendingOwner,
+        paused,
+        cooldownSeconds: Number(cooldownSeconds),
+        timelockDelay: Number(timelockDelay),
+        providers,
+        scheduled,
+        events,
+        now: block.timestamp,
+        fromBlock
+      });
+      setCooldownInput(String(cooldownSeconds));
+      setDelayInput(String(timelockDelay));
+    } catch (e) {
+      setStatus("Loading the contract settings failed: " + formatError(describeError(e)));
+    }
+  }, [chain.contracts.nutritionAIBlock, chain.name, getNutritionAI]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (!state) return <div className="no-data">{status ?? "Loading contract settings..."}</div>;
+
+  const isOwner = !!account && account.toLowerCase() === state.owner.toLowerCase();
+  const providerProblems = newProvider ? validateAdminAddress(newProvider) : [];
+  const cooldownProblems = validateCooldown(cooldownInput);
+  const delayProblems = validateTimelockDelay(delayInput);
+  const ownerProblems = newOwner ? validateAdminAddress(newOwner) : [];
+  const isPendingOwner = !!account && !!state.pendingOwner && account.toLowerCase() === state.pendingOwner.toLowerCase();
+  const locked = !isOwner || sending || !!pending;
+
+  const confirm = async () => {
+    if (!pending) return;
+    setSending(true);
+    setStatus(null);
+    try {
+      const contract = await getNutritionAIWithSigner();
+      const { scheduled, tx } = await pending.send(contract);
+      await transactions.track(tx, scheduled ? `Schedule: ${pending.description}` : pending.description);
+      setStatus(scheduled
+        ? `${pending.description}: scheduled. Execute it from Scheduled Changes in ${formatDuration(state.timelockDelay)}.`
+        : `${pending.description}: done.`);
+      setNewProvider('');
+      setNewOwner('');
+      await load();
+    } catch (e) {
+      setStatus(`${pending.description} failed: ${formatError(describeError(e))}`);
+    } finally {
+      setPending(null);
+      setSending(false);
+    }
+  };
+
+  const ownerAction = (description: string, name: TimelockedFunction, args: unknown[]) =>
+    setPending({ description, timelocked: true, send: contract => sendOwnerAction(contract, name, args) });
+
+  const directAction = (description: string, send: (contract: NutritionAIFHE) => Promise<ethers.ContractTransactionResponse>) =>
+    setPending({ description, timelocked: false, send: async contract => ({ scheduled: false, tx: await send(contract) }) });
+
+  const addProvider = () => {
+    const provider = ethers.getAddress(newProvider.trim());
+    ownerAction(`Add provider ${provider}`, "addProvider", [provider]);
+  };
+
+  const removeProvider = (provider: string) => ownerAction(`Remove provider ${provider}`, "removeProvider", [provider]);
+
+  // Pausing is the emergency switch, so it never waits for the timelock
+  const togglePause = () => {
+    const paused = !state.paused;
+    directAction(paused ? "Pause the contract" : "Unpause the contract", contract => simulateAndSend(contract.setPaused, paused));
+  };
+
+  const setCooldown = () => {
+    const seconds = BigInt(cooldownInput.trim());
+    ownerAction(`Set the cooldown to ${seconds}s`, "setCooldownSeconds", [seconds]);
+  };
+
+  const setTimelockDelay = () => {
+    const seconds = BigInt(delayInput.trim());
+    ownerAction(`Set the timelock delay to ${seconds}s`, "setTimelockDelay", [seconds]);
+  };
+
+  const proposeOwnership = () => {
+    const owner = ethers.getAddress(newOwner.trim());
+    ownerAction(`Propose ${owner} as the new owner`, "proposeOwnership", [owner]);
+  };
+
+  const cancelProposal = () =>
+    directAction(`Cancel the ownership proposal to ${state.pendingOwner}`, contract => simulateAndSend(contract.cancelOwnershipProposal));
+
+  const acceptOwnership = () => directAction("Accept ownership", contract => simulateAndSend(contract.acceptOwnership));
+
+  const executeAction = (action: ScheduledAction) =>
+    directAction(`Execute ${describeCall(action)}`, contract => simulateAndSend(contract.getFunction(action.name), ...action.args));
+
+  const cancelAction = (action: ScheduledAction) =>
+    directAction(`Cancel the scheduled ${describeCall(action)}`, contract => simulateAndSend(contract.cancelAction, action.actionId));
+
+  return (
+    <div className="contract-admin glass">
+      <h3>Providers, Pause, Cooldown and Ownership</h3>
+      {chain.contracts.nutritionAIBlock === undefined && (
+        <p className="preview-note">
+          No deployment block is configured for {chain.name}, so providers and changes are only read from block {state.fromBlock}.
+          Set nutritionAIBlock in config.json or VITE_{chain.key}_NUTRITION_AI_BLOCK to read the full history.
+        </p>
+      )}
+      {!isOwner && <p className="preview-note">Only the contract owner ({state.owner}) can change these.</p>}
+
+      <div className="admin-block">
+        <h4>Providers</h4>
+        {state.providers.length === 0 ? <div className="no-data">No registered providers</div> : (
+          <div className="admin-list">
+            {state.providers.map(provider => (
+              <div className="admin-list-item" key={provider}>
+                <span>{provider}{provider.toLowerCase() === state.owner.toLowerCase() && " (owner)"}</span>
+                <button className="cancel-btn" onClick={() => removeProvider(provider)} disabled={locked}>Remove</button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="form-row">
+          <div className="form-group">
+            <label>New provider</label>
+            <input type="text" placeholder="0x..." value={newProvider} disabled={locked} onChange={(e) => setNewProvider(e.target.value)} />
+          </div>
+        </div>
+        {providerProblems.length > 0 && <ul className="params-problems">{providerProblems.map(problem => <li key={problem}>{problem}</li>)}</ul>}
+        <div className="form-actions">
+          <button className="update-btn" onClick={addProvider} disabled={locked || !newProvider || providerProblems.length > 0}>Add Provider</button>
+        </div>
+      </div>
+
+      <div className="admin-block">
+        <h4>Pause</h4>
+        <p className="preview-note">
+          {state.paused ? "The contract is paused: batches, submissions and analysis requests are rejected." : "The contract is running."}
+        </p>
+        <div className="form-actions">
+          <button className={state.paused ? "update-btn" : "cancel-btn"} onClick={togglePause} disabled={locked}>
+            {state.paused ? "Unpause" : "Pause"}
+          </button>
+        </div>
+      </div>
+
+      <div className="admin-block">
+        <h4>Cooldown</h4>
+        <div className="form-row">
+          <div className="form-group">
+            <label>Seconds between a provider's submissions (and analysis requests)</label>
+            <input type="text" value={cooldownInput} disabled={locked} onChange={(e) => setCooldownInput(e.target.value)} />
+          </div>
+        </div>
+        {cooldownProblems.length > 0 && <ul className="params-problems">{cooldownProblems.map(problem => <li key={problem}>{problem}</li>)}</ul>}
+        <div className="form-actions">
+          <button
+            className="update-btn"
+            onClick={setCooldown}
+            disabled={locked || cooldownProblems.length > 0 || Number(cooldownInput) === state.cooldownSeconds}
+          >
+            Set Cooldown
+          </button>
+        </div>
+      </div>
+
+      <div className="admin-block">
+        <h4>Timelock</h4>
+        <p className="preview-note">
+          {state.timelockDelay > 0
+            ? `Provider, cooldown, delay, ownership and analysis parameter changes are scheduled first and can be executed ${formatDuration(state.timelockDelay)} later. Changing the delay drops whatever is still scheduled.`
+            : "The timelock is off: changes take effect as soon as they are confirmed."}
+        </p>
+        <div className="form-row">
+          <div className="form-group">
+            <label>Delay in seconds (0 turns the timelock off)</label>
+            <input type="text" value={delayInput} disabled={locked} onChange={(e) => setDelayInput(e.target.value)} />
+          </div>
+        </div>
+        {delayProblems.length > 0 && <ul className="params-problems">{delayProblems.map(problem => <li key={problem}>{problem}</li>)}</ul>}
+        <div className="form-actions">
+          <button
+            className="update-btn"
+            onClick={setTimelockDelay}
+            disabled={locked || delayProblems.length > 0 || Number(delayInput) === state.timelockDelay}
+          >
+            Set Delay
+          </button>
+        </div>
+      </div>
+
+      <div className="admin-block">
+        <h4>Ownership</h4>
+        <p className="preview-note">
+          Ownership moves in two steps: the owner proposes an address, and that address accepts from its own wallet.
+        </p>
+        {state.pendingOwner && (
+          <div className="admin-list-item">
+            <span>Proposed owner: {state.pendingOwner}</span>
+            {isPendingOwner ? (
+              <button className="update-btn" onClick={acceptOwnership} disabled={sending || !!pending}>Accept Ownership</button>
+            ) : (
+              <button className="cancel-btn" onClick={cancelProposal} disabled={locked}>Cancel Proposal</button>
+            )}
+          </div>
+        )}
+        <div className="form-row">
+          <div className="form-group">
+            <label>New owner</label>
+            <input type="text" placeholder="0x..." value={newOwner} disabled={locked} onChange={(e) => setNewOwner(e.target.value)} />
+          </div>
+        </div>
+        {ownerProblems.length > 0 && <ul className="params-problems">{ownerProblems.map(problem => <li key={problem}>{problem}</li>)}</ul>}
+        <div className="form-actions">
+          <button className="cancel-btn" onClick={proposeOwnership} disabled={locked || !newOwner || ownerProblems.length > 0}>
+            Propose Owner
+          </button>
+        </div>
+      </div>
+
+      {(state.scheduled.length > 0 || state.timelockDelay > 0) && (
+        <div className="admin-block">
+          <h4>Scheduled Changes</h4>
+          {state.scheduled.length === 0 ? <div className="no-data">Nothing scheduled</div> : (
+            <div className="admin-list">
+              {state.scheduled.map(action => (
+                <div className="admin-list-item" key={action.actionId}>
+                  <span>
+                    {describeCall(action)}: {action.readyAt <= state.now ? "ready" : `ready in ${formatDuration(action.readyAt - state.now)}`}
+                  </span>
+                  <div className="form-actions">
+                    <button className="cancel-btn" onClick={() => cancelAction(action)} disabled={locked}>Cancel</button>
+                    <button className="update-btn" onClick={() => executeAction(action)} disabled={locked || action.readyAt > state.now}>Execute</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {pending && (
+        <div className="admin-confirm">
+          <span>
+            {pending.description}?
+            {pending.timelocked && state.timelockDelay > 0 && " Unless it is already scheduled, this schedules it behind the timelock."}
+          </span>
+          <div className="form-actions">
+            <button className="cancel-btn" onClick={() => setPending(null)} disabled={sending}>Cancel</button>
+            <button className="update-btn" onClick={confirm} disabled={sending}>{sending ? "Sending..." : "Confirm"}</button>
+          </div>
+        </div>
+      )}
+      {status && <p className="preview-note">{status}</p>}
+
+      <div className="admin-block">
+        <h4>Audit Trail</h4>
+        {state.events.length === 0 ? <div className="no-data">No ownership, pause, cooldown or timelock changes yet</div> : (
+          <div className="analysis-table">
+            {[...state.events].reverse().map(event => (
+              <div className="analysis-row" key={`${event.txHash}-${event.logIndex}`}>
+                <div className="analysis-cell">block {event.blockNumber}</div>
+                <div className="analysis-cell">{describeEvent(event)}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
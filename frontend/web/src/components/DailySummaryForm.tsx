@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { getNutritionAIClient, getSigner } from '../contract';
+import { useProviderPool } from '../rpc/ProviderPoolContext';
+import { explainError, formatError } from '../errors/contractErrors';
+import { decodeLegacyCiphertext, isLegacyCiphertext, NUTRITION_FIELDS, RecordField } from '../fhe/encryption';
+import { signWithEthers } from '../fhe/userDecryption';
+import { DecryptionSessionManager } from '../fhe/decryptionSession';
+import { walletKeys } from '../storage/keys';
+import { NutritionRecord, recordListSchema } from '../storage/records';
+import { contractStore, RecordLog } from '../storage/recordLog';
+import { averageDay, DayTotals, totalsByDay } from '../sdk/dailySummary';
+import { HEALTH_GOALS } from '../sdk/analysisModel';
+import { NutritionAIClient } from '../sdk/nutritionAI';
+
+interface DailySummaryFormProps {
+  account: string;
+  batchOpen: boolean;
+  onSubmitted: () => void;
+}
+
+const SESSION_DAYS = 1;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86400_000).toISOString().split('T')[0];
+
+// Decrypts the wallet's records over a date range and submits their average day, encrypted
+// again for NutritionAIFHE, to the open batch
+export default function DailySummaryForm({ account, batchOpen, onSubmitted }: DailySummaryFormProps) {
+  const { chain, fhe, getContract, getNutritionAI } = useProviderPool();
+  const [from, setFrom] = useState(daysAgo(6));
+  const [to, setTo] = useState(daysAgo(0));
+  const [activityLevel, setActivityLevel] = useState(3);
+  const [healthGoal, setHealthGoal] = useState<number>(HEALTH_GOALS.maintain);
+  const [days, setDays] = useState<DayTotals[] | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const summary = days ? averageDay(days) : null;
+
+  // Reads only the day chunks inside the range (and the archive), then decrypts all their handles in one session
+  const load = async () => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const [contract, nutritionAI] = await Promise.all([getContract(), getNutritionAI()]);
+      if (!contract) throw new Error(`UniversalAdapter is not deployed on ${chain.name}`);
+      if (!nutritionAI) throw new Error(`NutritionAIFHE is not deployed on ${chain.name}`);
+      const store = contractStore(contract);
+      const log = new RecordLog<NutritionRecord>(walletKeys(account).records, recordListSchema);
+      const index = await log.readIndex(store);
+      const { records } = await log.loadRange(store, index.data, from, to);
+
+      const fieldsOf = (record: NutritionRecord): RecordField[] => (record.water ? [...NUTRITION_FIELDS, 'water'] : [...NUTRITION_FIELDS]);
+      const handles = records.flatMap(record => fieldsOf(record).map(field => record[field]!)).filter(value => !isLegacyCiphertext(value));
+      let values: Record<string, number> = {};
+      if (handles.length > 0) {
+        // Records are encrypted for NutritionAIFHE; the adapter only stores their handles
+        const sessions = new DecryptionSessionManager(fhe.relayer);
+        const session = await sessions.open(
+          account,
+          { contractAddress: await nutritionAI.getAddress(), chainId: chain.id, durationDays: SESSION_DAYS },
+          async typedData => signWithEthers(await getSigner())(typedData)
+        );
+        values = await sessions.decryptBatch(handles, session);
+      }
+      const valueOf = (handle: string | undefined) => (handle ? values[handle] ?? decodeLegacyCiphertext(handle) ?? 0 : 0);
+      setDays(totalsByDay(records.map(record => ({
+        date: record.date,
+        calories: valueOf(record.calories),
+        protein: valueOf(record.protein),
+        carbs: valueOf(record.carbs),
+        fat: valueOf(record.fat),
+        water: valueOf(record.water)
+      })), from, to));
+    } catch (e) {
+      setStatus("Loading records failed: " + formatError(await explainError(e)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = async () => {
+    if (!summary) return;
+    setBusy(true);
+    setStatus(null);
+    let client: NutritionAIClient | null = null;
+    try {
+      client = await getNutritionAIClient();
+      const { batchId } = await client.submitUserData({
+        ...summary,
+        activityLevel,
+        healthGoal,
+        allergyFlags: 0,
+        weightKg: 0,
+        heightCm: 0,
+        ageYears: 0,
+        sex: 0
+      });
+      setStatus(`Average of ${days!.length} day(s) submitted to batch #${batchId}.`);
+      onSubmitted();
+    } catch (e) {
+      const cooldown = client ? () => client!.cooldownRemaining("submission") : undefined;
+      setStatus(formatError(await explainError(e, { cooldown })));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="daily-summary glass">
+      <h3>Submit Daily Summary</h3>
+      <p className="preview-note">
+        Your records in the range are decrypted in this browser and their average day is encrypted again for the analysis contract.
+        Body metrics and allergies are left out; submit them from the profile form.
+      </p>
+      <div className="form-row">
+        <div className="form-group">
+          <label>From</label>
+          <input type="date" value={from} max={to} onChange={(e) => { setFrom(e.target.value); setDays(null); }} />
+        </div>
+        <div className="form-group">
+          <label>To</label>
+          <input type="date" value={to} min={from} onChange={(e) => { setTo(e.target.value); setDays(null); }} />
+        </div>
+        <div className="form-group">
+          <label>Activity Level (1-5)</label>
+          <select value={activityLevel} onChange={(e) => setActivityLevel(Number(e.target.value))}>
+            {[1, 2, 3, 4, 5].map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label>Goal</label>
+          <select value={healthGoal} onChange={(e) => setHealthGoal(Number(e.target.value))}>
+            <option value={HEALTH_GOALS.loseWeight}>Lose weight</option>
+            <option value={HEALTH_GOALS.gainMuscle}>Gain muscle</option>
+            <option value={HEALTH_GOALS.maintain}>Maintain</option>
+          </select>
+        </div>
+      </div>
+      {days && (
+        days.length === 0 ? <div className="no-data">No records between {from} and {to}</div> : (
+          <div className="analysis-table">
+            <div className="analysis-row header">
+              <div className="analysis-cell">Day</div>
+              <div className="analysis-cell">Calories</div>
+              <div className="analysis-cell">Protein / Carbs / Fat</div>
+              <div className="analysis-cell">Water</div>
+            </div>
+            {days.map(day => (
+              <div className="analysis-row" key={day.date}>
+                <div className="analysis-cell">{day.date}</div>
+                <div className="analysis-cell">{day.calories.toFixed(0)} kcal</div>
+                <div className="analysis-cell">{day.protein.toFixed(0)}g / {day.carbs.toFixed(0)}g / {day.fat.toFixed(0)}g</div>
+                <div className="analysis-cell">{day.water.toFixed(0)} ml</div>
+              </div>
+            ))}
+            {summary && (
+              <div className="analysis-row summary">
+                <div className="analysis-cell">Average day</div>
+                <div className="analysis-cell">{summary.dailyCalories} kcal</div>
+                <div className="analysis-cell">{summary.proteinGrams}g / {summary.carbGrams}g / {summary.fatGrams}g</div>
+                <div className="analysis-cell">{summary.waterIntakeMl} ml</div>
+              </div>
+            )}
+          </div>
+        )
+      )}
+      {status && <p className="preview-note">{status}</p>}
+      <div className="form-actions">
+        <button className="cancel-btn" onClick={load} disabled={busy || from > to}>
+          {busy && !days ? "Decrypting..." : "Load Records"}
+        </button>
+        <button className="update-btn" onClick={submit} disabled={busy || !summary || !batchOpen}>
+          {batchOpen ? "Encrypt & Submit" : "Open a batch to submit"}
+        </button>
+      </div>
+    </div>
+  );
+}
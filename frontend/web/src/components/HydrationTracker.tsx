@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+
+interface HydrationTrackerProps {
+  todayMl: number; // revealed and queued water logged today
+  hiddenEntries: number; // today's stored entries not decrypted yet, so missing from todayMl
+  targetMl: number | null; // from the latest analysis
+  adding: boolean;
+  onAdd: (ml: number) => void;
+}
+
+const QUICK_ADD_ML = [250, 500, 750];
+
+// Today's water against the analysis target, with one-tap logging of common amounts
+export default function HydrationTracker({ todayMl, hiddenEntries, targetMl, adding, onAdd }: HydrationTrackerProps) {
+  const [custom, setCustom] = useState('');
+  const customMl = Number(custom);
+  const customValid = Number.isInteger(customMl) && customMl > 0;
+  const percent = targetMl ? Math.min(100, (todayMl / targetMl) * 100) : 0;
+
+  const addCustom = () => {
+    onAdd(customMl);
+    setCustom('');
+  };
+
+  return (
+    <div className="hydration-tracker">
+      <div className="hydration-total">
+        <strong>{todayMl.toFixed(0)} ml</strong>
+        <span>{targetMl ? ` of ${targetMl} ml today` : ' today'}</span>
+      </div>
+      <div className="chart-bar">
+        <div className="bar-fill water" style={{ width: `${percent}%` }} />
+      </div>
+      {!targetMl && <p className="preview-note">Request an analysis to get your daily water target.</p>}
+      {hiddenEntries > 0 && <p className="preview-note">{hiddenEntries} encrypted entr{hiddenEntries === 1 ? "y" : "ies"} from today not included. Decrypt to count them.</p>}
+      <div className="hydration-actions">
+        {QUICK_ADD_ML.map(ml => (
+          <button key={ml} className="refresh-btn" onClick={() => onAdd(ml)} disabled={adding}>
+            +{ml} ml
+          </button>
+        ))}
+        <input
+          type="text"
+          value={custom}
+          onChange={(e) => setCustom(e.target.value)}
+          placeholder="ml"
+        />
+        <button className="refresh-btn" onClick={addCustom} disabled={adding || !customValid}>
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
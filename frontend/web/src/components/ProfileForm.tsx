@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { UINT32_MAX } from '../fhe/backend';
+import { getNutritionAIClient } from '../contract';
+import { explainError, formatError } from '../errors/contractErrors';
+import { AnalysisInput, AnalysisParams, computeAnalysis, DEFAULT_ANALYSIS_PARAMS, HEALTH_GOALS, SEX } from '../sdk/analysisModel';
+import { AnalysisResult, NutritionAIClient, readAnalysisParams } from '../sdk/nutritionAI';
+import { ALLERGEN_IDS, ALLERGENS, AllergenId, decodeAllergens, encodeAllergens } from '../sdk/allergens';
+import { useProviderPool } from '../rpc/ProviderPoolContext';
+import type { DailyIntake } from './AnalysisView';
+
+interface ProfileFormProps {
+  account?: string;
+  // Intake revealed for today; its calories are used until the user types their own figure
+  todayIntake?: DailyIntake;
+  allergyFlags: number;
+  onAllergyFlagsChange: (mask: number) => void;
+}
+
+const ACTIVITY_LEVELS = [
+  { value: 1, label: '1 - Sedentary' },
+  { value: 2, label: '2 - Light' },
+  { value: 3, label: '3 - Moderate' },
+  { value: 4, label: '4 - Active' },
+  { value: 5, label: '5 - Very active' }
+];
+
+const GOALS = [
+  { value: HEALTH_GOALS.loseWeight, label: 'Lose weight' },
+  { value: HEALTH_GOALS.gainMuscle, label: 'Gain muscle' },
+  { value: HEALTH_GOALS.maintain, label: 'Maintain' }
+];
+
+const SEXES = [
+  { value: SEX.unspecified, label: 'Prefer not to say' },
+  { value: SEX.male, label: 'Male' },
+  { value: SEX.female, label: 'Female' }
+];
+
+// Blank means "not provided" and is sent as 0; anything else must fit a euint32
+function parseMetric(value: string): number | null {
+  if (!value.trim()) return 0;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 && parsed <= UINT32_MAX ? parsed : null;
+}
+
+// Body metrics, allergies, activity and goal with an instant local estimate of the analysis. Submitting
+// encrypts them with today's intake into the open batch; the analysis itself is requested separately
+export default function ProfileForm({ account, todayIntake, allergyFlags, onAllergyFlagsChange }: ProfileFormProps) {
+  const [weightKg, setWeightKg] = useState('');
+  const [heightCm, setHeightCm] = useState('');
+  const [ageYears, setAgeYears] = useState('');
+  const [sex, setSex] = useState<number>(SEX.unspecified);
+  const [activityLevel, setActivityLevel] = useState(3);
+  const [healthGoal, setHealthGoal] = useState<number>(HEALTH_GOALS.maintain);
+  const [calories, setCalories] = useState<string | null>(null);
+  const { getNutritionAI } = useProviderPool();
+  const [params, setParams] = useState<AnalysisParams>(DEFAULT_ANALYSIS_PARAMS);
+  const [submittedBatch, setSubmittedBatch] = useState<bigint | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // The owner can retune the model, so preview with the deployed parameters when they can be read
+  useEffect(() => {
+    let cancelled = false;
+    getNutritionAI()
+      .then(contract => (contract ? readAnalysisParams(contract) : DEFAULT_ANALYSIS_PARAMS))
+      .then(loaded => !cancelled && setParams(loaded))
+      .catch(e => console.warn("Using default analysis parameters:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [getNutritionAI]);
+
+  const dailyCalories = calories ?? (todayIntake ? String(Math.round(todayIntake.calories)) : '');
+  const input = useMemo((): AnalysisInput | null => {
+    const values = [dailyCalories, weightKg, heightCm, ageYears].map(parseMetric);
+    if (values.some(value => value === null)) return null;
+    const [eaten, weight, height, age] = values as number[];
+    return { dailyCalories: eaten, activityLevel, healthGoal, weightKg: weight, heightCm: height, ageYears: age, sex };
+  }, [dailyCalories, weightKg, heightCm, ageYears, sex, activityLevel, healthGoal]);
+  const result = useMemo(() => (input ? computeAnalysis(input, params) : null), [input, params]);
+
+  const run = async (action: (client: NutritionAIClient) => Promise<void>, kind: "submission" | "decryption") => {
+    setBusy(true);
+    setStatus(null);
+    let client: NutritionAIClient | null = null;
+    try {
+      client = await getNutritionAIClient();
+      await action(client);
+    } catch (e) {
+      const cooldown = client ? () => client!.cooldownRemaining(kind) : undefined;
+      setStatus(formatError(await explainError(e, { cooldown })));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = () => run(async client => {
+    if (!input) return;
+    if (!(await client.contract.batchOpen())) await client.openBatch();
+    const { batchId } = await client.submitUserData({
+      ...input,
+      proteinGrams: Math.round(todayIntake?.protein ?? 0),
+      carbGrams: Math.round(todayIntake?.carbs ?? 0),
+      fatGrams: Math.round(todayIntake?.fat ?? 0),
+      waterIntakeMl: Math.round(todayIntake?.water ?? 0),
+      allergyFlags
+    });
+    setSubmittedBatch(batchId);
+    setAnalysis(null);
+    setStatus(`Profile encrypted and submitted to batch #${batchId}.`);
+  }, "submission");
+
+  const requestAnalysis = () => run(async client => {
+    if (submittedBatch === null) return;
+    setStatus("Waiting for the decryption oracle...");
+    const completed = await client.analyse(submittedBatch);
+    setAnalysis(completed.result);
+    setStatus(`Analysis of batch #${submittedBatch} completed.`);
+  }, "decryption");
+
+  const shown = analysis ?? result;
+  const flagged = new Set(decodeAllergens(allergyFlags));
+  const toggleAllergen = (id: AllergenId) => {
+    if (flagged.has(id)) flagged.delete(id);
+    else flagged.add(id);
+    onAllergyFlagsChange(encodeAllergens(flagged));
+  };
+
+  return (
+    <div className="profile-form glass">
+      <h3>Profile &amp; Analysis</h3>
+      <p className="preview-note">
+        Weight, height, age, sex and allergies are encrypted before they leave your browser and personalize your metabolic rate and protein target.
+        Leave weight or height blank to use the standard estimate.
+      </p>
+      <div className="form-row">
+        <div className="form-group">
+          <label>Weight (kg)</label>
+          <input type="text" value={weightKg} onChange={(e) => setWeightKg(e.target.value)} placeholder="e.g. 70" />
+        </div>
+        <div className="form-group">
+          <label>Height (cm)</label>
+          <input type="text" value={heightCm} onChange={(e) => setHeightCm(e.target.value)} placeholder="e.g. 175" />
+        </div>
+        <div className="form-group">
+          <label>Age (years)</label>
+          <input type="text" value={ageYears} onChange={(e) => setAgeYears(e.target.value)} placeholder="e.g. 35" />
+        </div>
+        <div className="form-group">
+          <label>Sex</label>
+          <select value={sex} onChange={(e) => setSex(Number(e.target.value))}>
+            {SEXES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="form-row">
+        <div className="form-group">
+          <label>Activity Level</label>
+          <select value={activityLevel} onChange={(e) => setActivityLevel(Number(e.target.value))}>
+            {ACTIVITY_LEVELS.map(level => <option key={level.value} value={level.value}>{level.label}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label>Goal</label>
+          <select value={healthGoal} onChange={(e) => setHealthGoal(Number(e.target.value))}>
+            {GOALS.map(goal => <option key={goal.value} value={goal.value}>{goal.label}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label>Calories Eaten (kcal)</label>
+          <input
+            type="text"
+            value={dailyCalories}
+            onChange={(e) => setCalories(e.target.value)}
+            placeholder="Enter today's calories..."
+          />
+        </div>
+      </div>
+      <div className="form-group">
+        <label>Allergies</label>
+        <div className="allergen-options">
+          {ALLERGEN_IDS.map(id => (
+            <label className="allergen-option" key={id}>
+              <input type="checkbox" checked={flagged.has(id)} onChange={() => toggleAllergen(id)} />
+              {ALLERGENS[id].label}
+            </label>
+          ))}
+        </div>
+      </div>
+      {shown ? (
+        <>
+          <p className="preview-note">
+            {analysis ? "Decrypted result of your on-chain analysis." : "Estimated locally with the same formula the contract runs on your encrypted data. No gas is spent."}
+          </p>
+          <div className="preview-results">
+            <div className="preview-item"><span>Calories</span><strong>{shown.calorieTarget} kcal</strong></div>
+            <div className="preview-item"><span>Protein</span><strong>{shown.proteinTarget} g</strong></div>
+            <div className="preview-item"><span>Carbs</span><strong>{shown.carbTarget} g</strong></div>
+            <div className="preview-item"><span>Fat</span><strong>{shown.fatTarget} g</strong></div>
+            <div className="preview-item"><span>Water</span><strong>{shown.waterTarget} ml</strong></div>
+            <div className="preview-item"><span>Score</span><strong>{shown.score}/100</strong></div>
+          </div>
+        </>
+      ) : (
+        <p className="preview-note">Calories, weight, height and age must be whole numbers.</p>
+      )}
+      {status && <p className="preview-note">{status}</p>}
+      <div className="form-actions">
+        <button className="update-btn" onClick={submit} disabled={!account || !input || busy}>
+          {busy ? "Working..." : "Submit Profile"}
+        </button>
+        <button className="update-btn" onClick={requestAnalysis} disabled={!account || submittedBatch === null || busy}>
+          Request Analysis
+        </button>
+      </div>
+    </div>
+  );
+}
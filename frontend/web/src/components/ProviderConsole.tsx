@@ -0,0 +1,212 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { Link } from 'react-router-dom';
+import { useAccount } from 'wagmi';
+import { getNutritionAIClient } from '../contract';
+import { useProviderPool } from '../rpc/ProviderPoolContext';
+import { describeError, explainError, formatError } from '../errors/contractErrors';
+import { NutritionAIClient, ProviderRequestTracker, TrackedRequest } from '../sdk/nutritionAI';
+import DailySummaryForm from './DailySummaryForm';
+
+interface BatchStatus {
+  currentBatchId: bigint;
+  batchOpen: boolean;
+  paused: boolean;
+  isProvider: boolean;
+}
+
+const POLL_INTERVAL_MS = 5000;
+// How far back requests are read when the chain config has no deployment block
+const REQUEST_LOOKBACK_BLOCKS = 50000;
+
+// Provider route: live batch state, open/close controls, daily summary submission and the
+// provider's analysis requests with their oracle callbacks
+export default function ProviderConsole() {
+  const { address } = useAccount();
+  const { chain, getNutritionAI } = useProviderPool();
+  // Requests found so far, extended with the new blocks on each poll
+  const tracker = useRef<ProviderRequestTracker | null>(null);
+  const refreshing = useRef<Promise<void> | null>(null);
+  // Bumped when the wallet or chain changes, so reads started before that are dropped
+  const generation = useRef(0);
+  const [requestsFrom, setRequestsFrom] = useState<number | null>(null);
+  const [status, setStatus] = useState<BatchStatus | null>(null);
+  const [requests, setRequests] = useState<TrackedRequest[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    const started = generation.current;
+    try {
+      const contract = await getNutritionAI();
+      if (!contract) {
+        setLoadError(`NutritionAIFHE is not deployed on ${chain.name}`);
+        return;
+      }
+      const [currentBatchId, batchOpen, paused, isProvider] = await Promise.all([
+        contract.currentBatchId(),
+        contract.batchOpen(),
+        contract.paused(),
+        address ? contract.isProvider(address) : Promise.resolve(false)
+      ]);
+      setStatus({ currentBatchId, batchOpen, paused, isProvider });
+      if (address) {
+        const latest = await contract.runner!.provider!.getBlockNumber();
+        if (generation.current !== started) return;
+        if (!tracker.current) {
+          // Without a known deployment block, only the recent requests are read
+          const fromBlock = chain.contracts.nutritionAIBlock ?? Math.max(0, latest - REQUEST_LOOKBACK_BLOCKS);
+          tracker.current = new ProviderRequestTracker(contract, address, fromBlock);
+          setRequestsFrom(fromBlock);
+        }
+        const found = await tracker.current.refresh(latest);
+        if (generation.current === started) setRequests(found);
+      }
+      setLoadError(null);
+    } catch (e) {
+      setLoadError("Reading the contract failed: " + formatError(describeError(e)));
+    }
+  }, [address, chain.contracts.nutritionAIBlock, chain.name, getNutritionAI]);
+
+  // A poll that comes due while the previous one is still reading joins it instead
+  const refresh = useCallback(() => {
+    if (!refreshing.current) {
+      const running = load().finally(() => {
+        if (refreshing.current === running) refreshing.current = null;
+      });
+      refreshing.current = running;
+    }
+    return refreshing.current;
+  }, [load]);
+
+  useEffect(() => {
+    setStatus(null);
+    setRequests([]);
+    setRequestsFrom(null);
+    generation.current++;
+    tracker.current = null;
+    refreshing.current = null;
+    refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const run = async (label: string, action: (client: NutritionAIClient) => Promise<string>, kind?: "decryption") => {
+    setBusy(true);
+    setMessage(null);
+    let client: NutritionAIClient | null = null;
+    try {
+      client = await getNutritionAIClient();
+      setMessage(await action(client));
+      await refresh();
+    } catch (e) {
+      const cooldown = client && kind ? () => client!.cooldownRemaining(kind) : undefined;
+      setMessage(`${label} failed: ${formatError(await explainError(e, { cooldown }))}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openBatch = () => run("Opening the batch", async client => `Batch #${await client.openBatch()} opened.`);
+  const closeBatch = () => run("Closing the batch", async client => `Batch #${await client.closeBatch()} closed.`);
+  const requestAnalysis = () => run("Requesting the analysis", async client => {
+    const request = await client.requestAnalysis(status!.currentBatchId);
+    return `Analysis of batch #${request.batchId} requested (request ${request.requestId}).`;
+  }, "decryption");
+
+  const canAct = !!status && !!address && status.isProvider && !status.paused && !busy;
+
+  return (
+    <div className="app-container">
+      <header className="app-header">
+        <div className="logo">
+          <h1>隱養師<span>Provider Console</span></h1>
+        </div>
+        <div className="header-actions">
+          <Link to="/" className="refresh-btn">Back to Dashboard</Link>
+          <div className="wallet-connect-wrapper">
+            <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
+          </div>
+        </div>
+      </header>
+
+      <div className="main-content-container provider-console">
+        {loadError && <div className="no-data">{loadError}</div>}
+        {status && (
+          <div className="panel-card glass">
+            <h2>Batch</h2>
+            <div className="stats-grid">
+              <div className="stat-item">
+                <div className="stat-value">#{status.currentBatchId.toString()}</div>
+                <div className="stat-label">Current Batch</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{status.batchOpen ? "Open" : "Closed"}</div>
+                <div className="stat-label">Batch State</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{status.paused ? "Paused" : "Running"}</div>
+                <div className="stat-label">Contract</div>
+              </div>
+            </div>
+            {!address && <p className="preview-note">Connect a provider wallet to manage batches.</p>}
+            {address && !status.isProvider && <p className="preview-note">{address} is not a registered provider.</p>}
+            {message && <p className="preview-note">{message}</p>}
+            <div className="form-actions">
+              <button className="update-btn" onClick={openBatch} disabled={!canAct || status.batchOpen}>Open Batch</button>
+              <button className="cancel-btn" onClick={closeBatch} disabled={!canAct || !status.batchOpen}>Close Batch</button>
+              <button className="update-btn" onClick={requestAnalysis} disabled={!canAct}>
+                Request Analysis of #{status.currentBatchId.toString()}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {status && address && status.isProvider && (
+          <DailySummaryForm account={address} batchOpen={status.batchOpen && !status.paused} onSubmitted={refresh} />
+        )}
+
+        {address && (
+          <div className="panel-card glass">
+            <h2>Analysis Requests</h2>
+            {chain.contracts.nutritionAIBlock === undefined && requestsFrom !== null && (
+              <p className="preview-note">
+                No deployment block is configured for {chain.name}, so requests are only read from block {requestsFrom}.
+                Set nutritionAIBlock in config.json or VITE_{chain.key}_NUTRITION_AI_BLOCK to read the full history.
+              </p>
+            )}
+            {requests.length === 0 ? (
+              <div className="no-data">
+                {requestsFrom === null ? "Loading analysis requests..." : `No analysis requests since block ${requestsFrom}`}
+              </div>
+            ) : (
+              <div className="analysis-table">
+                <div className="analysis-row header">
+                  <div className="analysis-cell">Request</div>
+                  <div className="analysis-cell">Batch</div>
+                  <div className="analysis-cell">Requested</div>
+                  <div className="analysis-cell">Status</div>
+                  <div className="analysis-cell">Calories / Score</div>
+                </div>
+                {[...requests].reverse().map(request => (
+                  <div className="analysis-row" key={request.requestId.toString()}>
+                    <div className="analysis-cell">{request.requestId.toString()}</div>
+                    <div className="analysis-cell">#{request.batchId.toString()}</div>
+                    <div className="analysis-cell">block {request.blockNumber}</div>
+                    <div className="analysis-cell">
+                      {request.completion ? `Completed in block ${request.completion.blockNumber}` : "Waiting for the oracle"}
+                    </div>
+                    <div className="analysis-cell">
+                      {request.completion ? `${request.completion.result.calorieTarget} kcal / ${request.completion.result.score}` : "-"}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { useEndpointStats, useProviderPool } from '../rpc/ProviderPoolContext';
+import { circuitState, CircuitState, EndpointStats } from '../rpc/providerPool';
+
+const CIRCUIT_LABELS: Record<CircuitState, string> = {
+  closed: 'Up',
+  open: 'Paused after errors',
+  'half-open': 'Retrying'
+};
+
+// Endpoints are shown by host only; their paths may carry API keys
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+const describeLatency = (endpoint: EndpointStats) =>
+  endpoint.latencyMs === null ? 'no calls yet' : `${Math.round(endpoint.latencyMs)} ms`;
+
+// Footer line with the health of the current chain's RPC endpoints; expands into one row per
+// endpoint and lets the user put endpoints paused after errors back into rotation
+export default function RpcStatus() {
+  const { chain, pool } = useProviderPool();
+  const endpoints = useEndpointStats();
+  const [expanded, setExpanded] = useState(false);
+  const now = Date.now();
+  const states = endpoints.map(endpoint => circuitState(endpoint, now));
+  const up = states.filter(state => state !== 'open').length;
+
+  return (
+    <div className="rpc-status">
+      <button className="rpc-status-summary" onClick={() => setExpanded(!expanded)}>
+        {chain.name} RPC: {up}/{endpoints.length} endpoints available
+      </button>
+      {expanded && (
+        <ul className="rpc-status-list">
+          {endpoints.map((endpoint, index) => (
+            <li key={endpoint.url} className={`rpc-endpoint ${states[index]}`}>
+              <strong>{hostOf(endpoint.url)}</strong>
+              <span>{CIRCUIT_LABELS[states[index]]}</span>
+              <span>{describeLatency(endpoint)}, {Math.round(endpoint.errorRate * 100)}% errors</span>
+              {endpoint.lastError && (
+                <span className="rpc-endpoint-error">{endpoint.lastError.replace(endpoint.url, hostOf(endpoint.url))}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {expanded && up < endpoints.length && (
+        <button className="refresh-btn" onClick={() => pool.resetCircuits()}>Retry All Endpoints</button>
+      )}
+    </div>
+  );
+}
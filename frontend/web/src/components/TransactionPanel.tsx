@@ -0,0 +1,78 @@
+import React, { useSyncExternalStore } from 'react';
+import { isPending, TrackedTransaction, TransactionManager, TransactionStatus } from '../transactions/transactionManager';
+import { explorerTxUrl } from '../chains';
+
+interface TransactionPanelProps {
+  manager: TransactionManager;
+  account?: string;
+}
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  submitted: 'Submitted',
+  mined: 'Mined',
+  confirmed: 'Confirmed',
+  replaced: 'Replaced',
+  failed: 'Failed'
+};
+
+const describe = (tx: TrackedTransaction) => {
+  switch (tx.status) {
+    case 'submitted':
+      return 'Waiting to be mined...';
+    case 'mined':
+      return `In block ${tx.blockNumber}, waiting for confirmations (${tx.confirmations})`;
+    case 'confirmed':
+      return `Confirmed in block ${tx.blockNumber}`;
+    case 'replaced':
+      return tx.replaceReason === 'repriced'
+        ? 'Sped up in the wallet'
+        : `${tx.replaceReason === 'cancelled' ? 'Cancelled' : 'Replaced'} in the wallet`;
+    case 'failed':
+      return tx.error || 'Failed';
+  }
+};
+
+export default function TransactionPanel({ manager, account }: TransactionPanelProps) {
+  const all = useSyncExternalStore(
+    listener => manager.subscribe(listener),
+    () => manager.list()
+  );
+  const transactions = account ? all.filter(tx => tx.from === account.toLowerCase()) : [];
+  if (transactions.length === 0) return null;
+
+  const pending = transactions.filter(isPending).length;
+
+  return (
+    <div className="transaction-panel glass">
+      <div className="transaction-panel-header">
+        <h3>Transactions {pending > 0 && <span className="pending-count">{pending} pending</span>}</h3>
+        {pending < transactions.length && (
+          <button onClick={() => manager.clearFinished()} className="refresh-btn">Clear Finished</button>
+        )}
+      </div>
+      <ul className="transaction-list">
+        {transactions.map(tx => {
+          const hash = tx.replacedBy ?? tx.hash;
+          const explorerUrl = explorerTxUrl(tx.chainId, hash);
+          return (
+            <li key={tx.hash} className={`transaction-item ${tx.status}`}>
+              <div className="transaction-item-header">
+                <strong>{tx.label}</strong>
+                <span className={`transaction-status ${tx.status}`}>
+                  {isPending(tx) && <span className="fhe-spinner small"></span>}
+                  {STATUS_LABELS[tx.status]}
+                </span>
+              </div>
+              <div className="transaction-item-detail">
+                <span>{describe(tx)}</span>
+                {explorerUrl
+                  ? <a href={explorerUrl} target="_blank" rel="noreferrer">{hash.substring(0, 10)}...</a>
+                  : <code>{hash.substring(0, 10)}...</code>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
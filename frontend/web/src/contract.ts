@@ -1,65 +1,77 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import type { UniversalAdapter } from "@contracts/contracts/UniversalAdapter";
+import type { NutritionAIFHE } from "@contracts/contracts/Nutrition_AI_FHE.sol/NutritionAIFHE";
+import { UniversalAdapter__factory } from "@contracts/factories/contracts/UniversalAdapter__factory";
+import { NutritionAIFHE__factory } from "@contracts/factories/contracts/Nutrition_AI_FHE.sol/NutritionAIFHE__factory";
+import { fheForChain } from "./fhe/chainFhe";
+import { NutritionAIClient } from "./sdk/nutritionAI";
+import { ChainConfig, defaultChain, findChain } from "./chains";
+import { getProviderPool } from "./rpc/providerPool";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
-
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
-
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+// The wallet's chain when the registry knows it, otherwise the default chain
+export async function getActiveChain(): Promise<ChainConfig> {
+  const ethereum = (window as any).ethereum;
+  if (ethereum) {
     try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
+      const chain = findChain(parseInt(await ethereum.request({ method: "eth_chainId" }), 16));
+      if (chain) return chain;
     } catch (error) {
     }
   }
-  
-  throw new Error("All RPC providers failed");
-};
+  return defaultChain();
+}
+
+const readContracts = new Map<number, Promise<UniversalAdapter | null>>();
+const nutritionAIContracts = new Map<number, Promise<NutritionAIFHE | null>>();
+
+// The shared read-only contract for a chain. It runs on the chain's provider pool, so calls fail
+// over between RPC endpoints; the deployment is only checked the first time.
+export async function getContractReadOnly(chain?: ChainConfig): Promise<UniversalAdapter | null> {
+  const target = chain ?? await getActiveChain();
+  return cachedReadOnly(readContracts, target, () =>
+    connectReadOnly(target, "UniversalAdapter", target.contracts.universalAdapter, UniversalAdapter__factory.connect)
+  );
+}
+
+// Read-only NutritionAIFHE on the chain's provider pool, for stored analyses and other getters
+export async function getNutritionAIReadOnly(chain?: ChainConfig): Promise<NutritionAIFHE | null> {
+  const target = chain ?? await getActiveChain();
+  return cachedReadOnly(nutritionAIContracts, target, () =>
+    connectReadOnly(target, "NutritionAIFHE", target.contracts.nutritionAI, NutritionAIFHE__factory.connect)
+  );
+}
+
+function cachedReadOnly<T>(cache: Map<number, Promise<T | null>>, chain: ChainConfig, connect: () => Promise<T | null>) {
+  let contract = cache.get(chain.id);
+  if (!contract) {
+    contract = connect();
+    cache.set(chain.id, contract);
+    // A failed check is retried on the next call instead of being cached
+    contract.then(result => result ?? cache.delete(chain.id));
+  }
+  return contract;
+}
 
-export async function getContractReadOnly() {
+async function connectReadOnly<T>(
+  chain: ChainConfig,
+  name: string,
+  address: string | undefined,
+  connect: (address: string, runner: ethers.ContractRunner) => T
+): Promise<T | null> {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    if (!address) {
+      console.warn(`No ${name} deployment configured for ${chain.name}`);
+      return null;
+    }
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const provider = getProviderPool(chain);
+    const code = await provider.getCode(address);
     if (code === "0x") {
       return null;
     }
     
-    return contract;
+    return connect(address, provider);
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
     return null;
@@ -67,20 +79,51 @@ export async function getContractReadOnly() {
 }
 
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const provider = await getBrowserProvider();
+    const chainId = Number((await provider.getNetwork()).chainId);
+    const address = findChain(chainId)?.contracts.universalAdapter;
+    if (!address) {
+      throw new Error(`No UniversalAdapter deployment configured for chain ${chainId}`);
+    }
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    return UniversalAdapter__factory.connect(address, signer);
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
   }
 }
 
+// NutritionAIFHE on the wallet's chain, signing with the connected wallet
+export async function getNutritionAIWithSigner() {
+  const provider = await getBrowserProvider();
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const address = findChain(chainId)?.contracts.nutritionAI;
+  if (!address) {
+    throw new Error(`No NutritionAIFHE deployment configured for chain ${chainId}`);
+  }
+  return NutritionAIFHE__factory.connect(address, await provider.getSigner());
+}
+
+// Batch workflow client for the wallet's chain, signing with the connected wallet
+export async function getNutritionAIClient() {
+  const contract = await getNutritionAIWithSigner();
+  const chainId = Number((await contract.runner!.provider!.getNetwork()).chainId);
+  return new NutritionAIClient(contract, fheForChain(findChain(chainId)!).backend);
+}
+
+export async function getBrowserProvider() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  return new ethers.BrowserProvider((window as any).ethereum);
+}
+
+export async function getSigner() {
+  const provider = await getBrowserProvider();
+  return provider.getSigner();
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
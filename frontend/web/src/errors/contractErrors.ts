@@ -0,0 +1,113 @@
+// contractErrors.ts
+// Turns wallet and contract failures into messages a user can act on. Revert data is parsed
+// against the NutritionAIFHE custom errors; writes are simulated first so a revert shows up
+// before the user signs and pays for gas.
+import { ethers } from "ethers";
+import { CONTRACT_ERROR_NAMES, ContractErrorName, ErrorCode, formatDuration, Locale, message, resolveLocale } from "./messages";
+
+export const contractErrorInterface = new ethers.Interface(CONTRACT_ERROR_NAMES.map(name => `error ${name}()`));
+
+export interface ExplainedError {
+  code: ErrorCode;
+  title: string;
+  remediation: string;
+}
+
+export interface ErrorContext {
+  // Seconds left on the caller's cooldown, read when the error is CooldownActive
+  cooldown?: () => Promise<number | null>;
+  locale?: Locale;
+}
+
+// Reads the getters NutritionAIFHE exposes for its cooldowns
+export interface CooldownReader {
+  runner: ethers.ContractRunner | null;
+  cooldownSeconds(): Promise<bigint>;
+  lastSubmissionTime(user: string): Promise<bigint>;
+  lastDecryptionRequestTime(user: string): Promise<bigint>;
+}
+
+const isContractError = (name: string): name is ContractErrorName =>
+  (CONTRACT_ERROR_NAMES as readonly string[]).includes(name);
+
+// Revert data sits at different depths depending on the provider and wallet that reported it
+function findRevertData(error: any, depth = 0): string | null {
+  if (!error || typeof error !== "object" || depth > 4) return null;
+  if (typeof error.data === "string" && ethers.isHexString(error.data) && error.data.length >= 10) return error.data;
+  for (const nested of [error.data, error.error, error.info?.error, error.cause]) {
+    const data = findRevertData(nested, depth + 1);
+    if (data) return data;
+  }
+  return null;
+}
+
+// The NutritionAIFHE custom error behind a failure, if any
+export function decodeContractError(error: unknown, iface: ethers.Interface = contractErrorInterface): ContractErrorName | null {
+  const revertName = (error as any)?.revert?.name;
+  if (typeof revertName === "string" && isContractError(revertName)) return revertName;
+  const data = findRevertData(error);
+  if (!data) return null;
+  try {
+    const parsed = iface.parseError(data);
+    return parsed && isContractError(parsed.name) ? parsed.name : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+function classify(error: any): { code: ErrorCode; reason?: string } {
+  const name = decodeContractError(error);
+  if (name) return { code: name };
+  if (ethers.isError(error, "ACTION_REJECTED") || error?.code === 4001 || /user (rejected|denied)/i.test(error?.message ?? "")) {
+    return { code: "UserRejected" };
+  }
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS")) return { code: "InsufficientFunds" };
+  if (ethers.isError(error, "CALL_EXCEPTION")) return { code: "Reverted", reason: error.reason ?? undefined };
+  return { code: "Unknown", reason: error?.shortMessage || error?.message };
+}
+
+export function describeError(error: unknown, locale: Locale = resolveLocale()): ExplainedError {
+  const { code, reason } = classify(error);
+  return { code, ...message(code, { reason }, locale) };
+}
+
+// Like describeError, but fills in the time left when the error is CooldownActive
+export async function explainError(error: unknown, { cooldown, locale = resolveLocale() }: ErrorContext = {}): Promise<ExplainedError> {
+  const described = describeError(error, locale);
+  if (described.code !== "CooldownActive" || !cooldown) return described;
+  try {
+    const remaining = await cooldown();
+    if (remaining === null) return described;
+    return { code: described.code, ...message("CooldownActive", { remaining: formatDuration(remaining, locale) }, locale) };
+  } catch (e) {
+    return described;
+  }
+}
+
+export const formatError = ({ title, remediation }: ExplainedError) => `${title} ${remediation}`;
+
+// Seconds until `user` may submit (or request a decryption) again, measured against the latest
+// block rather than the local clock
+export async function cooldownRemaining(contract: CooldownReader, user: string, kind: "submission" | "decryption" = "submission"): Promise<number | null> {
+  const provider = contract.runner?.provider;
+  if (!provider) return null;
+  const [last, cooldown, block] = await Promise.all([
+    kind === "submission" ? contract.lastSubmissionTime(user) : contract.lastDecryptionRequestTime(user),
+    contract.cooldownSeconds(),
+    provider.getBlock("latest")
+  ]);
+  if (!block) return null;
+  return Math.max(0, Number(last + cooldown) - block.timestamp);
+}
+
+interface SimulatedMethod<A extends unknown[], R> {
+  (...args: A): Promise<R>;
+  staticCall(...args: A): Promise<unknown>;
+}
+
+// Runs the call with eth_call first, so a revert surfaces (and can be explained) before the
+// wallet asks the user to sign
+export async function simulateAndSend<A extends unknown[], R>(method: SimulatedMethod<A, R>, ...args: A): Promise<R> {
+  await method.staticCall(...args);
+  return method(...args);
+}
@@ -0,0 +1,204 @@
+// messages.ts
+// User-facing text for contract and wallet errors, per locale. Each entry says what went wrong
+// and what the user can do about it.
+
+export const CONTRACT_ERROR_NAMES = [
+  "NotOwner",
+  "NotProvider",
+  "Paused",
+  "CooldownActive",
+  "InvalidBatch",
+  "ReplayAttempt",
+  "StateMismatch",
+  "InvalidProof",
+  "AlreadyProcessed",
+  "InvalidParameter",
+  "NotPendingOwner",
+  "ActionNotScheduled",
+  "TimelockNotReady"
+] as const;
+
+export type ContractErrorName = typeof CONTRACT_ERROR_NAMES[number];
+export type ErrorCode = ContractErrorName | "UserRejected" | "InsufficientFunds" | "Reverted" | "Unknown";
+
+export type Locale = "en" | "zh";
+
+export interface MessageParams {
+  remaining?: string; // formatted time left on a cooldown
+  reason?: string; // raw reason for errors without a dedicated message
+}
+
+interface Message {
+  title: string;
+  remediation: (params: MessageParams) => string;
+}
+
+const MESSAGES: Record<Locale, Record<ErrorCode, Message>> = {
+  en: {
+    NotOwner: {
+      title: "Only the contract owner can do this.",
+      remediation: () => "Switch to the owner's wallet and try again."
+    },
+    NotProvider: {
+      title: "This wallet is not a registered data provider.",
+      remediation: () => "Ask the contract owner to add your address as a provider."
+    },
+    Paused: {
+      title: "The contract is paused.",
+      remediation: () => "Try again once the owner resumes it."
+    },
+    CooldownActive: {
+      title: "You are sending requests too quickly.",
+      remediation: ({ remaining }) => (remaining ? `Try again in ${remaining}.` : "Wait for the cooldown to pass and try again.")
+    },
+    InvalidBatch: {
+      title: "No open batch accepts this request.",
+      remediation: () => "Wait for a provider to open a batch, or check that data was submitted to it."
+    },
+    ReplayAttempt: {
+      title: "This analysis result was already delivered.",
+      remediation: () => "Nothing to do; the earlier result stands."
+    },
+    StateMismatch: {
+      title: "The data changed after the analysis was requested.",
+      remediation: () => "Request a new analysis."
+    },
+    InvalidProof: {
+      title: "The decryption proof was rejected.",
+      remediation: () => "Request the analysis again. If it keeps failing, the relayer may be misconfigured."
+    },
+    AlreadyProcessed: {
+      title: "This batch has already been analysed.",
+      remediation: () => "Open a new batch to submit fresh data."
+    },
+    InvalidParameter: {
+      title: "A value is outside the allowed range.",
+      remediation: () => "Check the inputs and try again."
+    },
+    NotPendingOwner: {
+      title: "This wallet has no ownership proposal to act on.",
+      remediation: () => "Only the proposed owner can accept, and only a pending proposal can be cancelled."
+    },
+    ActionNotScheduled: {
+      title: "This change is timelocked and hasn't been scheduled.",
+      remediation: () => "Schedule it first, then send it again once the delay has passed."
+    },
+    TimelockNotReady: {
+      title: "The timelock on this change hasn't expired yet.",
+      remediation: () => "Wait until the scheduled time and send it again."
+    },
+    UserRejected: {
+      title: "The request was rejected in your wallet.",
+      remediation: () => "Approve it in the wallet to continue."
+    },
+    InsufficientFunds: {
+      title: "Not enough funds to pay for gas.",
+      remediation: () => "Top up this wallet on the current network and try again."
+    },
+    Reverted: {
+      title: "The contract rejected the transaction.",
+      remediation: ({ reason }) => (reason ? `Reason: ${reason}` : "Nothing was sent; check the inputs and try again.")
+    },
+    Unknown: {
+      title: "Something went wrong.",
+      remediation: ({ reason }) => reason || "Please try again."
+    }
+  },
+  zh: {
+    NotOwner: {
+      title: "只有合约所有者可以执行此操作。",
+      remediation: () => "请切换到所有者钱包后重试。"
+    },
+    NotProvider: {
+      title: "此钱包不是已注册的数据提供者。",
+      remediation: () => "请联系合约所有者将您的地址添加为提供者。"
+    },
+    Paused: {
+      title: "合约已暂停。",
+      remediation: () => "请在所有者恢复合约后重试。"
+    },
+    CooldownActive: {
+      title: "请求过于频繁。",
+      remediation: ({ remaining }) => (remaining ? `请在 ${remaining} 后重试。` : "请等待冷却时间结束后重试。")
+    },
+    InvalidBatch: {
+      title: "当前没有可接收此请求的开放批次。",
+      remediation: () => "请等待提供者开启批次，或确认数据已提交到该批次。"
+    },
+    ReplayAttempt: {
+      title: "此分析结果已经提交过。",
+      remediation: () => "无需操作，之前的结果仍然有效。"
+    },
+    StateMismatch: {
+      title: "请求分析后数据已发生变化。",
+      remediation: () => "请重新请求分析。"
+    },
+    InvalidProof: {
+      title: "解密证明被拒绝。",
+      remediation: () => "请重新请求分析。如果持续失败，中继服务可能配置有误。"
+    },
+    AlreadyProcessed: {
+      title: "此批次已完成分析。",
+      remediation: () => "请开启新批次以提交新数据。"
+    },
+    InvalidParameter: {
+      title: "输入值超出允许范围。",
+      remediation: () => "请检查输入后重试。"
+    },
+    NotPendingOwner: {
+      title: "此钱包没有可处理的所有权转移提议。",
+      remediation: () => "只有被提议的新所有者可以接受，且只能取消尚未完成的提议。"
+    },
+    ActionNotScheduled: {
+      title: "此操作受时间锁保护，尚未排期。",
+      remediation: () => "请先排期，待延迟结束后再次发送。"
+    },
+    TimelockNotReady: {
+      title: "此操作的时间锁尚未到期。",
+      remediation: () => "请等到排定时间后再次发送。"
+    },
+    UserRejected: {
+      title: "请求已在钱包中被拒绝。",
+      remediation: () => "请在钱包中确认以继续。"
+    },
+    InsufficientFunds: {
+      title: "余额不足以支付 Gas 费用。",
+      remediation: () => "请为此钱包在当前网络充值后重试。"
+    },
+    Reverted: {
+      title: "合约拒绝了此交易。",
+      remediation: ({ reason }) => (reason ? `原因：${reason}` : "交易未发送，请检查输入后重试。")
+    },
+    Unknown: {
+      title: "出现错误。",
+      remediation: ({ reason }) => reason || "请重试。"
+    }
+  }
+};
+
+// Storage modules that simulate writes also run under node, where there is no navigator
+const browserLanguage = () => (globalThis as { navigator?: { language?: string } }).navigator?.language ?? "en";
+
+export function resolveLocale(language = browserLanguage()): Locale {
+  return language.toLowerCase().startsWith("zh") ? "zh" : "en";
+}
+
+export function message(code: ErrorCode, params: MessageParams = {}, locale = resolveLocale()) {
+  const entry = MESSAGES[locale][code];
+  return { title: entry.title, remediation: entry.remediation(params) };
+}
+
+// "45 seconds", "2 minutes 10 seconds", "1 hour 5 minutes" in the given locale
+export function formatDuration(totalSeconds: number, locale = resolveLocale()): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const parts: [number, "hour" | "minute" | "second"][] = [
+    [Math.floor(seconds / 3600), "hour"],
+    [Math.floor((seconds % 3600) / 60), "minute"],
+    [seconds % 60, "second"]
+  ];
+  const shown = parts.filter(([amount]) => amount > 0).slice(0, 2);
+  if (shown.length === 0) shown.push([0, "second"]);
+  return shown
+    .map(([amount, unit]) => new Intl.NumberFormat(locale, { style: "unit", unit, unitDisplay: "long" }).format(amount))
+    .join(" ");
+}
@@ -0,0 +1,22 @@
+// backend.ts
+// Pluggable FHE backend: the relayer SDK in the browser, a deterministic mock in tests.
+
+export interface EncryptedInputs {
+  handles: string[]; // 0x-prefixed bytes32 handles, in the order the values were added
+  inputProof: string; // 0x-prefixed proof covering every handle of the batch
+}
+
+export interface FheBackend {
+  readonly name: string;
+  encryptUint32(contractAddress: string, userAddress: string, values: number[]): Promise<EncryptedInputs>;
+}
+
+export const UINT32_MAX = 0xffffffff;
+
+// Contract fields are euint32, so inputs are rounded and range checked before encryption
+export function toUint32(value: number): number {
+  if (!Number.isFinite(value)) throw new RangeError(`Cannot encrypt non-numeric value: ${value}`);
+  const rounded = Math.round(value);
+  if (rounded < 0 || rounded > UINT32_MAX) throw new RangeError(`Value out of uint32 range: ${value}`);
+  return rounded;
+}
@@ -0,0 +1,39 @@
+// chainFhe.ts
+// The FHE backend and decryption relayer that go with a chain: Zama's relayer and KMS where
+// chain.fhe is "relayer", an in-browser stand-in for local nodes, which have neither.
+import type { ChainConfig } from "../chains";
+import type { FheBackend } from "./backend";
+import { setFheBackend } from "./encryption";
+import { createLocalDecryptionRelayer, createMockBackend } from "./mockBackend";
+import { createRelayerBackend, createRelayerDecryption } from "./relayerBackend";
+import { DecryptionRelayer, setDecryptionRelayer } from "./userDecryption";
+
+export interface ChainFhe {
+  backend: FheBackend;
+  relayer: DecryptionRelayer;
+}
+
+// One pair per chain, so the mock's plaintexts survive switching away and back
+const byChain = new Map<number, ChainFhe>();
+
+export function fheForChain(chain: ChainConfig): ChainFhe {
+  let fhe = byChain.get(chain.id);
+  if (!fhe) {
+    if (chain.fhe === "mock") {
+      const backend = createMockBackend(chain.id);
+      fhe = { backend, relayer: createLocalDecryptionRelayer(backend) };
+    } else {
+      fhe = { backend: createRelayerBackend(chain), relayer: createRelayerDecryption(chain) };
+    }
+    byChain.set(chain.id, fhe);
+  }
+  return fhe;
+}
+
+// Makes the chain's pair the one encryptFields and getDecryptionRelayer use
+export function activateChainFhe(chain: ChainConfig): ChainFhe {
+  const fhe = fheForChain(chain);
+  setFheBackend(fhe.backend);
+  setDecryptionRelayer(fhe.relayer);
+  return fhe;
+}
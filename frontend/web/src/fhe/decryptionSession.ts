@@ -0,0 +1,84 @@
+// decryptionSession.ts
+// One EIP-712 signature per wallet, contract and chain, reused for its whole validity window.
+import {
+  DecryptionRelayer,
+  isScopeActive,
+  SignedUserDecryption,
+  signUserDecryption,
+  TypedDataSigner,
+  userDecryptUint32
+} from "./userDecryption";
+
+const STORAGE_PREFIX = "nutrition-ai:decryption-session";
+
+// Keeps each relayer request within the KMS limit of 2048 bits (64 euint32 values)
+const MAX_HANDLES_PER_REQUEST = 64;
+
+export interface SessionTarget {
+  contractAddress: string;
+  chainId: number;
+  durationDays: number;
+}
+
+type SessionStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export class DecryptionSessionManager {
+  constructor(
+    private readonly relayer: DecryptionRelayer,
+    private readonly storage: SessionStorage = window.sessionStorage
+  ) {}
+
+  private storageKey(userAddress: string, contractAddress: string, chainId: number) {
+    return `${STORAGE_PREFIX}:${chainId}:${contractAddress.toLowerCase()}:${userAddress.toLowerCase()}`;
+  }
+
+  // The stored session for this wallet, or null when missing, malformed or expired
+  current(userAddress: string, contractAddress: string, chainId: number): SignedUserDecryption | null {
+    const key = this.storageKey(userAddress, contractAddress, chainId);
+    const raw = this.storage.getItem(key);
+    if (!raw) return null;
+    try {
+      const session: SignedUserDecryption = JSON.parse(raw);
+      if (isScopeActive(session.scope)) return session;
+    } catch (e) {}
+    this.storage.removeItem(key);
+    return null;
+  }
+
+  // Returns the active session, prompting for a signature only when there is none
+  async open(userAddress: string, target: SessionTarget, sign: TypedDataSigner): Promise<SignedUserDecryption> {
+    const existing = this.current(userAddress, target.contractAddress, target.chainId);
+    if (existing) return existing;
+
+    const session = await signUserDecryption(this.relayer, sign, userAddress, {
+      contractAddress: target.contractAddress,
+      chainId: target.chainId,
+      startTimestamp: Math.floor(Date.now() / 1000),
+      durationDays: target.durationDays
+    });
+    this.storage.setItem(
+      this.storageKey(userAddress, target.contractAddress, target.chainId),
+      JSON.stringify(session)
+    );
+    return session;
+  }
+
+  // Decrypts any number of handles under one session; duplicates are requested once
+  async decryptBatch(handles: string[], session: SignedUserDecryption): Promise<Record<string, number>> {
+    const unique = Array.from(new Set(handles));
+    const values: Record<string, number> = {};
+    for (let i = 0; i < unique.length; i += MAX_HANDLES_PER_REQUEST) {
+      Object.assign(values, await userDecryptUint32(this.relayer, unique.slice(i, i + MAX_HANDLES_PER_REQUEST), session));
+    }
+    return values;
+  }
+
+  // Drops the keypair and signature. The signature itself stays valid until it expires, but
+  // without the private key the relayer's responses can no longer be read.
+  revoke(userAddress: string, contractAddress: string, chainId: number) {
+    this.storage.removeItem(this.storageKey(userAddress, contractAddress, chainId));
+  }
+}
+
+export const sessionExpiry = (session: SignedUserDecryption) =>
+  session.scope.startTimestamp + session.scope.durationDays * 86400;
@@ -0,0 +1,66 @@
+// encryption.ts
+import { FheBackend } from "./backend";
+
+export const NUTRITION_FIELDS = ["calories", "protein", "carbs", "fat"] as const;
+export const GOAL_FIELDS = ["targetCalories", "targetProtein", "targetCarbs", "targetFat"] as const;
+// Water entries encrypt zero macros alongside the water, so every record has the same four handles
+export const WATER_ENTRY_FIELDS = [...NUTRITION_FIELDS, "water"] as const;
+
+export type NutritionField = typeof NUTRITION_FIELDS[number];
+export type GoalField = typeof GOAL_FIELDS[number];
+export type RecordField = typeof WATER_ENTRY_FIELDS[number];
+
+export interface EncryptionContext {
+  contractAddress: string;
+  userAddress: string;
+}
+
+// Each field becomes a handle; a single proof covers all fields encrypted together
+export type EncryptedFields<K extends string> = { [field in K]: string } & { inputProof: string };
+
+let activeBackend: FheBackend | null = null;
+
+export function setFheBackend(backend: FheBackend | null) {
+  activeBackend = backend;
+}
+
+// Set for the connected chain by activateChainFhe
+export function getFheBackend(): FheBackend {
+  if (!activeBackend) throw new Error("No FHE backend is active for the current chain");
+  return activeBackend;
+}
+
+export async function encryptFields<K extends string>(
+  fields: readonly K[],
+  values: Record<K, number>,
+  context: EncryptionContext
+): Promise<EncryptedFields<K>> {
+  const { handles, inputProof } = await getFheBackend().encryptUint32(
+    context.contractAddress,
+    context.userAddress,
+    fields.map(field => values[field])
+  );
+  const encrypted = { inputProof } as EncryptedFields<K>;
+  fields.forEach((field, index) => {
+    (encrypted as Record<K, string>)[field] = handles[index];
+  });
+  return encrypted;
+}
+
+export const encryptNutritionValues = (values: Record<NutritionField, number>, context: EncryptionContext) =>
+  encryptFields(NUTRITION_FIELDS, values, context);
+
+export const encryptWaterEntry = (waterMl: number, context: EncryptionContext) =>
+  encryptFields(WATER_ENTRY_FIELDS, { calories: 0, protein: 0, carbs: 0, fat: 0, water: waterMl }, context);
+
+export const encryptGoalValues = (values: Record<GoalField, number>, context: EncryptionContext) =>
+  encryptFields(GOAL_FIELDS, values, context);
+
+// Records written before real encryption hold base64 plaintext behind an "FHE-" prefix
+export const isLegacyCiphertext = (value: string) => value.startsWith("FHE-");
+
+export function decodeLegacyCiphertext(value: string): number | null {
+  if (!isLegacyCiphertext(value)) return null;
+  const parsed = parseFloat(atob(value.substring(4)));
+  return Number.isNaN(parsed) ? null : parsed;
+}
@@ -0,0 +1,44 @@
+// encryptionTarget.ts
+// The contract stored values are encrypted for. UniversalAdapter only keeps the handles, so on
+// relayer chains NutritionAIFHE has to ingest them before the relayer will decrypt them for the
+// wallet. The mock backend keeps its plaintexts in the browser (its proofs wouldn't verify on
+// chain anyway), and a chain without a NutritionAIFHE deployment has nothing to register with, so
+// there values stay bound to the UniversalAdapter that stores them.
+import { EncryptedFields, EncryptionContext } from "./encryption";
+
+// The parts of a ChainConfig the choice depends on
+export interface TargetChain {
+  name: string;
+  fhe: "relayer" | "mock";
+  contracts: { universalAdapter?: string; nutritionAI?: string };
+}
+
+export const registersCiphertexts = (chain: TargetChain) => chain.fhe === "relayer" && !!chain.contracts.nutritionAI;
+
+// Handles are bound to this address and decryption sessions are scoped to it; null when the chain
+// has no storage deployment
+export function encryptionContract(chain: TargetChain): string | null {
+  return (registersCiphertexts(chain) ? chain.contracts.nutritionAI : chain.contracts.universalAdapter) ?? null;
+}
+
+export interface SaveEncryptedOptions<K extends string> {
+  chain: TargetChain;
+  userAddress: string;
+  encrypt: (context: EncryptionContext) => Promise<EncryptedFields<K>>;
+  // Only called where the chain registers ciphertexts, before anything is stored
+  register: (handles: string[], inputProof: string) => Promise<unknown>;
+  store: (encrypted: EncryptedFields<K>) => Promise<unknown>;
+}
+
+// Encrypts for the chain's target, registers the handles where that is needed and stores them
+export async function saveEncrypted<K extends string>(options: SaveEncryptedOptions<K>): Promise<EncryptedFields<K>> {
+  const contractAddress = encryptionContract(options.chain);
+  if (!contractAddress) throw new Error(`No UniversalAdapter deployment configured for ${options.chain.name}`);
+  const encrypted = await options.encrypt({ contractAddress, userAddress: options.userAddress });
+  if (registersCiphertexts(options.chain)) {
+    const { inputProof, ...handles } = encrypted;
+    await options.register(Object.values<string>(handles), inputProof);
+  }
+  await options.store(encrypted);
+  return encrypted;
+}
@@ -0,0 +1,86 @@
+// mockBackend.ts
+import { ethers } from "ethers";
+import { FheBackend, toUint32 } from "./backend";
+import { buildUserDecryptTypedData, DecryptionRelayer, isScopeActive } from "./userDecryption";
+
+const EUINT32_TYPE = 4;
+const HANDLE_VERSION = 0;
+
+export interface MockFheBackend extends FheBackend {
+  // Plaintext behind a handle produced by this backend for the given contract, used by the
+  // local decryption stand-in
+  reveal(handle: string, contractAddress: string): number | undefined;
+}
+
+// Deterministic stand-in for the relayer: the same sequence of calls always yields the same
+// handles and proofs, and handles keep the FHEVM layout (index, chain id, type, version).
+export function createMockBackend(chainId = 31337, seed = "nutrition-ai-mock"): MockFheBackend {
+  const plaintexts = new Map<string, { value: number; contractAddress: string }>();
+  let nonce = 0;
+
+  const buildHandle = (digest: string, index: number) => {
+    const bytes = ethers.getBytes(digest);
+    bytes[21] = index;
+    const chain = ethers.getBytes(ethers.toBeHex(chainId, 8));
+    bytes.set(chain, 22);
+    bytes[30] = EUINT32_TYPE;
+    bytes[31] = HANDLE_VERSION;
+    return ethers.hexlify(bytes);
+  };
+
+  return {
+    name: "mock",
+    async encryptUint32(contractAddress, userAddress, values) {
+      const batch = nonce++;
+      const handles = values.map((value, index) => {
+        const plain = toUint32(value);
+        const digest = ethers.solidityPackedKeccak256(
+          ["string", "address", "address", "uint256", "uint8", "uint32"],
+          [seed, contractAddress, userAddress, batch, index, plain]
+        );
+        const handle = buildHandle(digest, index);
+        plaintexts.set(handle, { value: plain, contractAddress: ethers.getAddress(contractAddress) });
+        return handle;
+      });
+      const inputProof = ethers.solidityPackedKeccak256(["string", "bytes32[]"], [seed, handles]);
+      return { handles, inputProof };
+    },
+    reveal(handle, contractAddress) {
+      const entry = plaintexts.get(ethers.hexlify(handle));
+      return entry && entry.contractAddress === ethers.getAddress(contractAddress) ? entry.value : undefined;
+    }
+  };
+}
+
+// Local stand-in for the relayer's user decryption. It enforces what the KMS would: a valid
+// signature from the requesting user, an active validity window and a matching contract scope.
+export function createLocalDecryptionRelayer(
+  backend: MockFheBackend,
+  verifyingContract = "0x0000000000000000000000000000000000000d3c"
+): DecryptionRelayer {
+  return {
+    name: "local",
+    async generateKeypair() {
+      const wallet = ethers.Wallet.createRandom();
+      return { publicKey: wallet.signingKey.publicKey, privateKey: wallet.privateKey };
+    },
+    async createTypedData(publicKey, scope) {
+      return buildUserDecryptTypedData(verifyingContract, publicKey, scope);
+    },
+    async userDecrypt(handles, { keypair, scope, userAddress, signature }) {
+      const typedData = buildUserDecryptTypedData(verifyingContract, keypair.publicKey, scope);
+      const { EIP712Domain, ...types } = typedData.types;
+      const signer = ethers.verifyTypedData(typedData.domain, types, typedData.message, signature);
+      if (ethers.getAddress(signer) !== ethers.getAddress(userAddress)) throw new Error("Signature does not match user");
+      if (!isScopeActive(scope)) throw new Error("Decryption request is outside its validity window");
+
+      const values: Record<string, bigint> = {};
+      for (const handle of handles) {
+        const plain = backend.reveal(handle, scope.contractAddress);
+        if (plain === undefined) throw new Error(`Unknown ciphertext handle ${handle}`);
+        values[handle] = BigInt(plain);
+      }
+      return values;
+    }
+  };
+}
@@ -0,0 +1,80 @@
+// relayerBackend.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import type { ChainConfig } from "../chains";
+import { FheBackend, toUint32 } from "./backend";
+import type { DecryptionRelayer } from "./userDecryption";
+
+const instances = new Map<number, Promise<FhevmInstance>>();
+
+// The wasm modules and public key are large, so each chain's instance is created once and shared.
+// The SDK itself comes from the UMD script in index.html, hence the lazy import. It reads the
+// chain through the chain's own RPC rather than the wallet, which may be on another chain.
+export function getFhevmInstance(chain: ChainConfig): Promise<FhevmInstance> {
+  let instance = instances.get(chain.id);
+  if (!instance) {
+    instance = (async () => {
+      const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/bundle");
+      // Zama only runs the relayer and KMS for Sepolia
+      if (SepoliaConfig.chainId !== chain.id) throw new Error(`Zama's relayer does not serve ${chain.name}`);
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, network: chain.rpcUrls[0] ?? SepoliaConfig.network });
+    })();
+    instances.set(chain.id, instance);
+    instance.catch(() => instances.delete(chain.id));
+  }
+  return instance;
+}
+
+export function createRelayerBackend(chain: ChainConfig): FheBackend {
+  return {
+    name: "relayer",
+    async encryptUint32(contractAddress, userAddress, values) {
+      const instance = await getFhevmInstance(chain);
+      const input = instance.createEncryptedInput(contractAddress, userAddress);
+      values.forEach(value => input.add32(toUint32(value)));
+      const { handles, inputProof } = await input.encrypt();
+      return {
+        handles: handles.map(handle => ethers.hexlify(handle)),
+        inputProof: ethers.hexlify(inputProof)
+      };
+    }
+  };
+}
+
+export function createRelayerDecryption(chain: ChainConfig): DecryptionRelayer {
+  return {
+    name: "relayer",
+    async generateKeypair() {
+      return (await getFhevmInstance(chain)).generateKeypair();
+    },
+    async createTypedData(publicKey, scope) {
+      const typedData = (await getFhevmInstance(chain)).createEIP712(
+        publicKey,
+        [scope.contractAddress],
+        scope.startTimestamp,
+        scope.durationDays
+      );
+      if (Number(typedData.domain.chainId) !== scope.chainId) {
+        throw new Error(`Relayer is configured for chain ${typedData.domain.chainId}, not ${scope.chainId}`);
+      }
+      return typedData;
+    },
+    async userDecrypt(handles, { keypair, scope, userAddress, signature }) {
+      const instance = await getFhevmInstance(chain);
+      const results = await instance.userDecrypt(
+        handles.map(handle => ({ handle, contractAddress: scope.contractAddress })),
+        keypair.privateKey,
+        keypair.publicKey,
+        signature.replace(/^0x/, ""),
+        [scope.contractAddress],
+        userAddress,
+        scope.startTimestamp,
+        scope.durationDays
+      );
+      const values: Record<string, bigint> = {};
+      for (const [handle, value] of Object.entries(results)) values[handle] = BigInt(value);
+      return values;
+    }
+  };
+}
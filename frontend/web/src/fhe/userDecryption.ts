@@ -0,0 +1,121 @@
+// userDecryption.ts
+// EIP-712 user decryption: a throwaway keypair, a signed request scoped to one contract,
+// chain and validity window, and the ciphertext handles sent through a relayer.
+import { ethers } from "ethers";
+
+export interface DecryptionKeypair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface DecryptionScope {
+  contractAddress: string;
+  chainId: number;
+  startTimestamp: number; // unix seconds
+  durationDays: number;
+}
+
+export interface UserDecryptTypedData {
+  domain: { name: string; version: string; chainId: number; verifyingContract: string };
+  types: { [name: string]: { name: string; type: string }[] };
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+export interface SignedUserDecryption {
+  keypair: DecryptionKeypair;
+  scope: DecryptionScope;
+  userAddress: string;
+  signature: string;
+}
+
+export interface DecryptionRelayer {
+  readonly name: string;
+  generateKeypair(): Promise<DecryptionKeypair>;
+  createTypedData(publicKey: string, scope: DecryptionScope): Promise<UserDecryptTypedData>;
+  userDecrypt(handles: string[], request: SignedUserDecryption): Promise<Record<string, bigint>>;
+}
+
+export type TypedDataSigner = (typedData: UserDecryptTypedData) => Promise<string>;
+
+let activeRelayer: DecryptionRelayer | null = null;
+
+export function setDecryptionRelayer(relayer: DecryptionRelayer | null) {
+  activeRelayer = relayer;
+}
+
+// Set for the connected chain by activateChainFhe
+export function getDecryptionRelayer(): DecryptionRelayer {
+  if (!activeRelayer) throw new Error("No decryption relayer is active for the current chain");
+  return activeRelayer;
+}
+
+const USER_DECRYPT_FIELDS = [
+  { name: "publicKey", type: "bytes" },
+  { name: "contractAddresses", type: "address[]" },
+  { name: "contractsChainId", type: "uint256" },
+  { name: "startTimestamp", type: "uint256" },
+  { name: "durationDays", type: "uint256" },
+  { name: "extraData", type: "bytes" }
+];
+
+// Same layout as the relayer SDK's createEIP712, so local and relayer requests sign identically
+export function buildUserDecryptTypedData(verifyingContract: string, publicKey: string, scope: DecryptionScope): UserDecryptTypedData {
+  return {
+    domain: { name: "Decryption", version: "1", chainId: scope.chainId, verifyingContract },
+    types: { UserDecryptRequestVerification: USER_DECRYPT_FIELDS },
+    primaryType: "UserDecryptRequestVerification",
+    message: {
+      publicKey: publicKey.startsWith("0x") ? publicKey : `0x${publicKey}`,
+      contractAddresses: [scope.contractAddress],
+      contractsChainId: scope.chainId,
+      startTimestamp: scope.startTimestamp.toString(),
+      durationDays: scope.durationDays.toString(),
+      extraData: "0x00"
+    }
+  };
+}
+
+// ethers wants the domain type left out of `types`
+export function signWithEthers(signer: ethers.Signer): TypedDataSigner {
+  return typedData => {
+    const { EIP712Domain, ...types } = typedData.types;
+    return signer.signTypedData(typedData.domain, types, typedData.message);
+  };
+}
+
+export const isScopeActive = (scope: DecryptionScope, now = Math.floor(Date.now() / 1000)) =>
+  now >= scope.startTimestamp && now < scope.startTimestamp + scope.durationDays * 86400;
+
+export function createDecryptionScope(contractAddress: string, chainId: number, durationDays = 1): DecryptionScope {
+  return { contractAddress, chainId, startTimestamp: Math.floor(Date.now() / 1000), durationDays };
+}
+
+export async function signUserDecryption(
+  relayer: DecryptionRelayer,
+  sign: TypedDataSigner,
+  userAddress: string,
+  scope: DecryptionScope
+): Promise<SignedUserDecryption> {
+  const keypair = await relayer.generateKeypair();
+  const typedData = await relayer.createTypedData(keypair.publicKey, scope);
+  const signature = await sign(typedData);
+  return { keypair, scope, userAddress, signature };
+}
+
+export async function userDecryptUint32(
+  relayer: DecryptionRelayer,
+  handles: string[],
+  request: SignedUserDecryption
+): Promise<Record<string, number>> {
+  if (handles.length === 0) return {};
+  if (!isScopeActive(request.scope)) throw new Error("Decryption signature has expired");
+  const results = await relayer.userDecrypt(handles, request);
+  const values: Record<string, number> = {};
+  for (const handle of handles) {
+    const value = results[handle] ?? results[handle.toLowerCase()];
+    if (value === undefined) throw new Error(`Relayer returned no value for handle ${handle}`);
+    values[handle] = Number(value);
+  }
+  return values;
+}
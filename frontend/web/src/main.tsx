@@ -1,19 +1,34 @@
 import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import ProviderConsole from './components/ProviderConsole';
 import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
-import { BrowserRouter } from 'react-router-dom';
+import { BrowserRouter, Route, Routes } from 'react-router-dom';
+import { defineChain } from 'viem';
+import { CHAINS, defaultChain } from './chains';
+import { ProviderPoolProvider } from './rpc/ProviderPoolContext';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+// wagmi gets every registry chain, with the default one first
+const wagmiChains = [defaultChain(), ...CHAINS.filter(chain => chain.id !== defaultChain().id)].map(chain =>
+  defineChain({
+    id: chain.id,
+    name: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: { default: { http: chain.rpcUrls } },
+    ...(chain.blockExplorerUrl && { blockExplorers: { default: { name: chain.name, url: chain.blockExplorerUrl } } }),
+    testnet: chain.testnet
+  })
+);
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: [wagmiChains[0], ...wagmiChains.slice(1)],
 });
 
 const queryClient = new QueryClient();
@@ -122,7 +137,12 @@ createRoot(document.getElementById('root')!).render(
       <WagmiConfig config={config}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
-            <App />
+            <ProviderPoolProvider>
+              <Routes>
+                <Route path="/provider" element={<ProviderConsole />} />
+                <Route path="*" element={<App />} />
+              </Routes>
+            </ProviderPoolProvider>
           </AdaptiveThemeProvider>
         </BrowserRouter>
       </WagmiConfig>
@@ -0,0 +1,178 @@
+// outbox.ts
+// Local queue of meals that are not on chain yet. FHE inputs are bound to a contract and wallet
+// and need the relayer, so queued meals are sealed with a local AES-GCM key instead and only
+// FHE-encrypted when they are flushed. Items flush oldest first; one that fails blocks the
+// ones behind it so the log keeps the order they were entered in.
+import { ulid } from "../storage/ulid";
+import { MealType } from "../storage/records";
+
+const DB_NAME = "nutrition-ai-outbox";
+const DB_VERSION = 1;
+const ITEMS = "items";
+const KEYS = "keys";
+const SEAL_KEY_ID = "seal";
+
+// Retry delays grow from 5s to 5min
+const BASE_RETRY_MS = 5000;
+const MAX_RETRY_MS = 300000;
+
+export interface MealValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  water?: number; // ml, only on water entries
+  notes: string;
+}
+
+export interface OutboxItem {
+  id: string; // ULID, reused as the record id once stored
+  owner: string | null; // null when logged without a wallet; claimed by the next wallet to flush
+  date: string;
+  mealType: MealType;
+  createdAt: number;
+  iv: Uint8Array<ArrayBuffer>;
+  sealed: ArrayBuffer; // AES-GCM encrypted MealValues
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface FlushResult {
+  sent: number;
+  failed: OutboxItem | null; // the item that failed in this run
+  waiting: OutboxItem | null; // the item still backing off from an earlier failure
+}
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(ITEMS, { keyPath: "id" });
+    request.result.createObjectStore(KEYS);
+  };
+  return promisify(request);
+}
+
+export class Outbox {
+  private db: Promise<IDBDatabase> | null = null;
+  private flushing: { owner: string; run: Promise<FlushResult> } | null = null;
+
+  constructor(private readonly dbName = DB_NAME) {}
+
+  private database() {
+    if (!this.db) {
+      this.db = openDatabase(this.dbName);
+      this.db.catch(() => (this.db = null));
+    }
+    return this.db;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode) {
+    return (await this.database()).transaction(name, mode).objectStore(name);
+  }
+
+  // The sealing key never leaves IndexedDB: it is generated non-extractable
+  private async sealKey(): Promise<CryptoKey> {
+    const existing = await promisify<CryptoKey | undefined>((await this.store(KEYS, "readonly")).get(SEAL_KEY_ID));
+    if (existing) return existing;
+    const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+    await promisify((await this.store(KEYS, "readwrite")).put(key, SEAL_KEY_ID));
+    return key;
+  }
+
+  async enqueue(meal: { date: string; mealType: MealType } & MealValues, owner: string | null): Promise<OutboxItem> {
+    const { date, mealType, ...values } = meal;
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const sealed = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      await this.sealKey(),
+      new TextEncoder().encode(JSON.stringify(values))
+    );
+    const item: OutboxItem = {
+      id: ulid(),
+      owner: owner?.toLowerCase() ?? null,
+      date,
+      mealType,
+      createdAt: Math.floor(Date.now() / 1000),
+      iv,
+      sealed,
+      attempts: 0,
+      nextAttemptAt: 0
+    };
+    await promisify((await this.store(ITEMS, "readwrite")).put(item));
+    return item;
+  }
+
+  // Oldest first
+  async list(): Promise<OutboxItem[]> {
+    return promisify<OutboxItem[]>((await this.store(ITEMS, "readonly")).getAll());
+  }
+
+  // Items the wallet may flush: its own and those logged without a wallet
+  async listFor(owner: string): Promise<OutboxItem[]> {
+    const normalized = owner.toLowerCase();
+    return (await this.list()).filter(item => item.owner === null || item.owner === normalized);
+  }
+
+  async unseal(item: OutboxItem): Promise<MealValues> {
+    const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: item.iv }, await this.sealKey(), item.sealed);
+    return JSON.parse(new TextDecoder().decode(plain));
+  }
+
+  async remove(id: string) {
+    await promisify((await this.store(ITEMS, "readwrite")).delete(id));
+  }
+
+  // Makes failed items eligible for the next flush right away
+  async resetBackoff(owner: string) {
+    const items = await this.listFor(owner);
+    const store = await this.store(ITEMS, "readwrite");
+    await Promise.all(items.map(item => promisify(store.put({ ...item, nextAttemptAt: 0 }))));
+  }
+
+  // Sends queued items in order through `send`, stopping at the first failure or at an item
+  // still backing off. Concurrent calls for the same owner share one run; a call for another
+  // owner (the wallet switched) stops the current run after its item in flight and starts after it.
+  flush(owner: string, send: (item: OutboxItem, values: MealValues) => Promise<void>): Promise<FlushResult> {
+    const normalized = owner.toLowerCase();
+    if (this.flushing?.owner === normalized) return this.flushing.run;
+    const previous = this.flushing?.run.catch(() => undefined);
+    const run: Promise<FlushResult> = (previous ?? Promise.resolve())
+      .then(() => this.runFlush(normalized, send))
+      .finally(() => {
+        if (this.flushing?.run === run) this.flushing = null;
+      });
+    this.flushing = { owner: normalized, run };
+    return run;
+  }
+
+  private async runFlush(owner: string, send: (item: OutboxItem, values: MealValues) => Promise<void>): Promise<FlushResult> {
+    let sent = 0;
+    for (const item of await this.listFor(owner)) {
+      if (this.flushing?.owner !== owner) break;
+      if (item.nextAttemptAt > Date.now()) return { sent, failed: null, waiting: item };
+      try {
+        await send({ ...item, owner }, await this.unseal(item));
+        await this.remove(item.id);
+        sent++;
+      } catch (e: any) {
+        const attempts = item.attempts + 1;
+        const failed: OutboxItem = {
+          ...item,
+          attempts,
+          nextAttemptAt: Date.now() + Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS),
+          lastError: e.shortMessage || e.message || "Unknown error"
+        };
+        await promisify((await this.store(ITEMS, "readwrite")).put(failed));
+        return { sent, failed, waiting: null };
+      }
+    }
+    return { sent, failed: null, waiting: null };
+  }
+}
@@ -0,0 +1,54 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useSyncExternalStore } from 'react';
+import type { UniversalAdapter } from '@contracts/contracts/UniversalAdapter';
+import type { NutritionAIFHE } from '@contracts/contracts/Nutrition_AI_FHE.sol/NutritionAIFHE';
+import { useChainId } from 'wagmi';
+import { ChainConfig, defaultChain, findChain } from '../chains';
+import { getContractReadOnly, getNutritionAIReadOnly } from '../contract';
+import { activateChainFhe, ChainFhe, fheForChain } from '../fhe/chainFhe';
+import { EndpointStats, getProviderPool, ProviderPool } from './providerPool';
+
+interface ProviderPoolContextValue {
+  chain: ChainConfig;
+  pool: ProviderPool;
+  // FHE backend and decryption relayer for the chain, made the active ones once rendered
+  fhe: ChainFhe;
+  // Shared read-only UniversalAdapter on the pool, null when it isn't deployed on the chain
+  getContract: () => Promise<UniversalAdapter | null>;
+  // Same for NutritionAIFHE
+  getNutritionAI: () => Promise<NutritionAIFHE | null>;
+}
+
+const ProviderPoolContext = createContext<ProviderPoolContextValue | null>(null);
+
+// Follows the wallet's chain (or the default one) and hands out that chain's shared pool and FHE
+export function ProviderPoolProvider({ children }: { children: React.ReactNode }) {
+  const chainId = useChainId();
+  const chain = findChain(chainId) ?? defaultChain();
+  const fhe = useMemo(() => fheForChain(chain), [chain]);
+  // Activating sets module globals, so it happens once the render is committed
+  useEffect(() => {
+    activateChainFhe(chain);
+  }, [chain]);
+  const getContract = useCallback(() => getContractReadOnly(chain), [chain]);
+  const getNutritionAI = useCallback(() => getNutritionAIReadOnly(chain), [chain]);
+  const value = useMemo(
+    () => ({ chain, pool: getProviderPool(chain), fhe, getContract, getNutritionAI }),
+    [chain, fhe, getContract, getNutritionAI]
+  );
+  return <ProviderPoolContext.Provider value={value}>{children}</ProviderPoolContext.Provider>;
+}
+
+export function useProviderPool(): ProviderPoolContextValue {
+  const value = useContext(ProviderPoolContext);
+  if (!value) throw new Error('useProviderPool must be used inside a ProviderPoolProvider');
+  return value;
+}
+
+// Live endpoint stats of the current pool
+export function useEndpointStats(): EndpointStats[] {
+  const { pool } = useProviderPool();
+  return useSyncExternalStore(
+    listener => pool.subscribe(listener),
+    () => pool.stats()
+  );
+}
@@ -0,0 +1,201 @@
+// providerPool.ts
+// One long-lived provider per chain that spreads JSON-RPC calls over the chain's endpoints.
+// Each endpoint keeps latency and error stats; calls go to the best scoring one and fail over
+// to the next when it errors. An endpoint that keeps failing is taken out of rotation for a
+// while (circuit breaker) and gets a single trial request once that time is up.
+import { ethers } from "ethers";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface EndpointStats {
+  url: string;
+  latencyMs: number | null; // moving average of successful calls, null until the first one
+  errorRate: number; // moving average of failures, 0..1
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  openUntil: number; // ms timestamp the circuit stays open until
+  lastError?: string;
+  lastUsedAt?: number;
+}
+
+type StatsListener = (stats: EndpointStats[]) => void;
+
+// The parts of a ChainConfig the pool works from
+export interface PoolChain {
+  id: number;
+  name: string;
+  rpcUrls: string[];
+}
+
+const REQUEST_TIMEOUT_MS = 8000;
+// Weight of the newest sample in the moving averages
+const SMOOTHING = 0.3;
+// An error rate of 1 scores like this much extra latency
+const ERROR_PENALTY_MS = 3000;
+// Consecutive failures that open the circuit; it stays open from 15s up to 5min
+const FAILURE_THRESHOLD = 3;
+const BASE_OPEN_MS = 15000;
+const MAX_OPEN_MS = 300000;
+// JSON-RPC errors that mean the endpoint is throttling us rather than that the call failed
+const THROTTLE_CODES = new Set([-32005, 429]);
+
+export class EndpointUnavailableError extends Error {
+  constructor(public readonly url: string, cause: string) {
+    super(`${url}: ${cause}`);
+    this.name = "EndpointUnavailableError";
+  }
+}
+
+const average = (previous: number | null, sample: number) =>
+  previous === null ? sample : previous + SMOOTHING * (sample - previous);
+
+export function circuitState(endpoint: EndpointStats, now = Date.now()): CircuitState {
+  if (endpoint.consecutiveFailures < FAILURE_THRESHOLD) return "closed";
+  return now < endpoint.openUntil ? "open" : "half-open";
+}
+
+export class ProviderPool extends ethers.JsonRpcApiProvider {
+  private endpoints: EndpointStats[];
+  private readonly probing = new Set<string>();
+  private readonly statsListeners = new Set<StatsListener>();
+
+  constructor(readonly chain: PoolChain) {
+    const network = new ethers.Network(chain.name.toLowerCase(), chain.id);
+    super(network, { staticNetwork: network });
+    this.endpoints = chain.rpcUrls.map(url => ({
+      url,
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      openUntil: 0
+    }));
+  }
+
+  // Snapshot of every endpoint; the array is replaced on every change
+  stats(): EndpointStats[] {
+    return this.endpoints;
+  }
+
+  subscribe(listener: StatsListener): () => void {
+    this.statsListeners.add(listener);
+    return () => {
+      this.statsListeners.delete(listener);
+    };
+  }
+
+  // Closes every circuit so the next calls try all endpoints again
+  resetCircuits() {
+    this.endpoints = this.endpoints.map(endpoint => ({ ...endpoint, consecutiveFailures: 0, openUntil: 0 }));
+    this.notify();
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<(ethers.JsonRpcResult | ethers.JsonRpcError)[]> {
+    const errors: string[] = [];
+    for (const url of this.candidates()) {
+      try {
+        return await this.sendTo(url, payload);
+      } catch (e: any) {
+        errors.push(e.message);
+      }
+    }
+    throw new Error(`All ${this.chain.name} RPC endpoints failed: ${errors.join("; ") || "no endpoints configured"}`);
+  }
+
+  // Usable endpoints best first, then open ones soonest to recover so a call still has a chance
+  // when every circuit is open
+  private candidates(): string[] {
+    const now = Date.now();
+    const score = (endpoint: EndpointStats) => (endpoint.latencyMs ?? 0) + endpoint.errorRate * ERROR_PENALTY_MS;
+    const usable = this.endpoints.filter(endpoint => {
+      const state = circuitState(endpoint, now);
+      return state === "closed" || (state === "half-open" && !this.probing.has(endpoint.url));
+    });
+    const open = this.endpoints
+      .filter(endpoint => !usable.includes(endpoint))
+      .sort((a, b) => a.openUntil - b.openUntil);
+    // Array.prototype.sort is stable, so equal scores keep the configured order
+    return [...usable.sort((a, b) => score(a) - score(b)), ...open].map(endpoint => endpoint.url);
+  }
+
+  private async sendTo(url: string, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]) {
+    const trial = circuitState(this.endpoint(url)) !== "closed";
+    if (trial) this.probing.add(url);
+    const started = performance.now();
+    try {
+      const request = new ethers.FetchRequest(url);
+      request.timeout = REQUEST_TIMEOUT_MS;
+      request.setHeader("content-type", "application/json");
+      request.body = JSON.stringify(payload);
+      const response = await request.send();
+      response.assertOk();
+      const body = response.bodyJson;
+      const results: (ethers.JsonRpcResult | ethers.JsonRpcError)[] = Array.isArray(body) ? body : [body];
+      const throttled = results.find(result => "error" in result && THROTTLE_CODES.has(Number(result.error.code)));
+      if (throttled && "error" in throttled) throw new EndpointUnavailableError(url, throttled.error.message || "rate limited");
+      this.recordSuccess(url, performance.now() - started);
+      return results;
+    } catch (e: any) {
+      const error = e instanceof EndpointUnavailableError ? e : new EndpointUnavailableError(url, e.shortMessage || e.message || "request failed");
+      this.recordFailure(url, error.message);
+      throw error;
+    } finally {
+      if (trial) this.probing.delete(url);
+    }
+  }
+
+  private endpoint(url: string): EndpointStats {
+    return this.endpoints.find(endpoint => endpoint.url === url)!;
+  }
+
+  private recordSuccess(url: string, latencyMs: number) {
+    this.updateEndpoint(url, endpoint => ({
+      latencyMs: average(endpoint.latencyMs, latencyMs),
+      errorRate: average(endpoint.errorRate, 0),
+      requests: endpoint.requests + 1,
+      consecutiveFailures: 0,
+      openUntil: 0,
+      lastUsedAt: Date.now()
+    }));
+  }
+
+  private recordFailure(url: string, error: string) {
+    this.updateEndpoint(url, endpoint => {
+      const consecutiveFailures = endpoint.consecutiveFailures + 1;
+      const trips = consecutiveFailures - FAILURE_THRESHOLD;
+      const openUntil = trips >= 0 ? Date.now() + Math.min(BASE_OPEN_MS * 2 ** trips, MAX_OPEN_MS) : 0;
+      return {
+        errorRate: average(endpoint.errorRate, 1),
+        requests: endpoint.requests + 1,
+        failures: endpoint.failures + 1,
+        consecutiveFailures,
+        openUntil,
+        lastError: error,
+        lastUsedAt: Date.now()
+      };
+    });
+  }
+
+  private updateEndpoint(url: string, change: (endpoint: EndpointStats) => Partial<EndpointStats>) {
+    this.endpoints = this.endpoints.map(endpoint => (endpoint.url === url ? { ...endpoint, ...change(endpoint) } : endpoint));
+    this.notify();
+  }
+
+  private notify() {
+    this.statsListeners.forEach(listener => listener(this.endpoints));
+  }
+}
+
+const pools = new Map<number, ProviderPool>();
+
+// The shared pool for a chain, created on first use
+export function getProviderPool(chain: PoolChain): ProviderPool {
+  let pool = pools.get(chain.id);
+  if (!pool) {
+    pool = new ProviderPool(chain);
+    pools.set(chain.id, pool);
+  }
+  return pool;
+}
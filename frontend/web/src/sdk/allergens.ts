@@ -0,0 +1,89 @@
+// allergens.ts
+// The allergens behind UserEncryptedData.allergyFlags. Each one owns a bit of the uint32 mask;
+// masks already submitted are encrypted on chain and can't be migrated, so a bit is never reused
+// or renumbered. New allergens take the next free bit.
+
+export interface Allergen {
+  bit: number;
+  label: string;
+  // Words in a meal's notes that suggest it contains the allergen; matched whole, plurals included
+  keywords: readonly string[];
+}
+
+export const ALLERGENS = {
+  peanut: { bit: 0, label: "Peanut", keywords: ["peanut", "groundnut", "satay"] },
+  treeNut: {
+    bit: 1,
+    label: "Tree nuts",
+    keywords: ["almond", "cashew", "walnut", "pecan", "pistachio", "hazelnut", "macadamia", "brazil nut", "praline", "marzipan"]
+  },
+  gluten: {
+    bit: 2,
+    label: "Gluten",
+    keywords: ["gluten", "wheat", "barley", "rye", "spelt", "bread", "pasta", "noodle", "flour", "couscous", "seitan", "cracker"]
+  },
+  dairy: {
+    bit: 3,
+    label: "Dairy",
+    keywords: ["milk", "cheese", "butter", "yogurt", "yoghurt", "cream", "whey", "casein", "latte", "ghee"]
+  },
+  egg: { bit: 4, label: "Egg", keywords: ["egg", "omelette", "omelet", "mayonnaise", "mayo", "meringue"] },
+  soy: { bit: 5, label: "Soy", keywords: ["soy", "soya", "tofu", "edamame", "tempeh", "miso"] },
+  shellfish: { bit: 6, label: "Shellfish", keywords: ["shrimp", "prawn", "crab", "lobster", "crayfish", "langoustine"] },
+  fish: {
+    bit: 7,
+    label: "Fish",
+    keywords: ["fish", "salmon", "tuna", "cod", "anchovy", "sardine", "trout", "mackerel", "haddock", "sushi"]
+  },
+  sesame: { bit: 8, label: "Sesame", keywords: ["sesame", "tahini", "hummus", "halva"] },
+  mustard: { bit: 9, label: "Mustard", keywords: ["mustard"] },
+  celery: { bit: 10, label: "Celery", keywords: ["celery", "celeriac"] },
+  lupin: { bit: 11, label: "Lupin", keywords: ["lupin", "lupine"] },
+  sulphites: { bit: 12, label: "Sulphites", keywords: ["sulphite", "sulfite", "wine", "dried apricot"] },
+  molluscs: { bit: 13, label: "Molluscs", keywords: ["mussel", "oyster", "clam", "scallop", "squid", "calamari", "octopus", "snail"] }
+} as const satisfies Record<string, Allergen>;
+
+export type AllergenId = keyof typeof ALLERGENS;
+
+export const ALLERGEN_IDS = Object.keys(ALLERGENS) as AllergenId[];
+
+// Bits no registered allergen owns
+export const UNKNOWN_ALLERGEN_BITS = ~ALLERGEN_IDS.reduce((mask, id) => mask | (1 << ALLERGENS[id].bit), 0) >>> 0;
+
+export function encodeAllergens(ids: Iterable<AllergenId>): number {
+  let mask = 0;
+  for (const id of ids) {
+    if (!(id in ALLERGENS)) throw new RangeError(`Unknown allergen: ${id}`);
+    mask |= 1 << ALLERGENS[id].bit;
+  }
+  return mask >>> 0;
+}
+
+// Registry order; bits without an allergen are ignored, see UNKNOWN_ALLERGEN_BITS
+export function decodeAllergens(mask: number): AllergenId[] {
+  if (!Number.isInteger(mask) || mask < 0 || mask > 0xffffffff) throw new RangeError(`Not a uint32 allergy mask: ${mask}`);
+  return ALLERGEN_IDS.filter(id => (mask >>> ALLERGENS[id].bit) & 1);
+}
+
+export interface AllergenMatch {
+  allergen: AllergenId;
+  keywords: string[]; // as written in the registry
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const KEYWORD_PATTERNS = new Map(
+  ALLERGEN_IDS.map(id => [
+    id,
+    ALLERGENS[id].keywords.map(keyword => ({ keyword, pattern: new RegExp(`\\b${escapeRegExp(keyword)}(?:e?s)?\\b`, "i") }))
+  ])
+);
+
+// The flagged allergens whose keywords appear in `text`, such as a meal's notes
+export function findAllergens(text: string, mask: number): AllergenMatch[] {
+  if (!text.trim()) return [];
+  return decodeAllergens(mask).flatMap(allergen => {
+    const keywords = KEYWORD_PATTERNS.get(allergen)!.filter(({ pattern }) => pattern.test(text)).map(({ keyword }) => keyword);
+    return keywords.length > 0 ? [{ allergen, keywords }] : [];
+  });
+}
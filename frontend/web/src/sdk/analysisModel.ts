@@ -0,0 +1,134 @@
+// analysisModel.ts
+// Plaintext reference of NutritionAIFHE._computeAnalysis. It reproduces the contract's euint32
+// arithmetic exactly, wraparound included, so a result can be previewed without spending gas on
+// requestAnalysis. Keep it in step with the contract; test/AnalysisModel.ts compares the two.
+import { toUint32, UINT32_MAX } from "../fhe/backend";
+import type { AnalysisResult, UserData } from "./nutritionAI";
+
+// Mirrors NutritionAIFHE.AnalysisParams; the owner can change them with setAnalysisParams
+export interface AnalysisParams {
+  bmr: number; // used when weight or height is missing
+  activityFactor: number; // kcal per activity level point
+  loseWeightAdjustment: number; // kcal taken off to lose weight
+  gainMuscleAdjustment: number; // kcal added to gain muscle
+  proteinPercent: number; // used when weight is missing
+  proteinPerKg: number; // tenths of a gram per kg of body weight
+  fatPercent: number; // carbs get what protein and fat leave
+  waterTargetMl: number;
+}
+
+export const ANALYSIS_PARAM_FIELDS = [
+  "bmr",
+  "activityFactor",
+  "loseWeightAdjustment",
+  "gainMuscleAdjustment",
+  "proteinPercent",
+  "proteinPerKg",
+  "fatPercent",
+  "waterTargetMl"
+] as const satisfies readonly (keyof AnalysisParams)[];
+
+// What the contract is deployed with
+export const DEFAULT_ANALYSIS_PARAMS: AnalysisParams = {
+  bmr: 1500,
+  activityFactor: 50,
+  loseWeightAdjustment: 500,
+  gainMuscleAdjustment: 500,
+  proteinPercent: 30,
+  proteinPerKg: 16,
+  fatPercent: 25,
+  waterTargetMl: 2500
+};
+
+// kcal away from the target per score point lost; fixed in the contract
+export const SCORE_STEP = 20;
+
+export const HEALTH_GOALS = {
+  loseWeight: 1,
+  gainMuscle: 2,
+  maintain: 3
+} as const;
+
+export const SEX = {
+  unspecified: 0,
+  male: 1,
+  female: 2
+} as const;
+
+// The analysis only reads these fields; the others are stored but not used yet
+export type AnalysisInput = Pick<UserData, "dailyCalories" | "activityLevel" | "healthGoal" | "weightKg" | "heightCm" | "ageYears" | "sex">;
+
+// euint32 operations: results wrap modulo 2^32 and division rounds down
+const add = (a: number, b: number) => (a + b) >>> 0;
+const sub = (a: number, b: number) => (a - b) >>> 0;
+const mul = (a: number, b: number) => Math.imul(a, b) >>> 0;
+const div = (a: number, b: number) => Math.floor(a / b);
+
+// The same checks setAnalysisParams makes, as messages; empty when the contract would accept them
+export function validateAnalysisParams(params: AnalysisParams): string[] {
+  const problems: string[] = [];
+  for (const field of ANALYSIS_PARAM_FIELDS) {
+    const value = params[field];
+    if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) problems.push(`${field} must be a whole number between 0 and ${UINT32_MAX}`);
+  }
+  if (params.bmr === 0) problems.push("bmr must be greater than 0");
+  if (params.waterTargetMl === 0) problems.push("waterTargetMl must be greater than 0");
+  if (params.loseWeightAdjustment > params.bmr) problems.push("loseWeightAdjustment can't exceed bmr");
+  if (params.proteinPercent + params.fatPercent > 100) problems.push("proteinPercent and fatPercent can't add up to more than 100");
+  return problems;
+}
+
+// Fields whose value differs between the two sets
+export function diffAnalysisParams(current: AnalysisParams, next: AnalysisParams) {
+  return ANALYSIS_PARAM_FIELDS.filter(field => current[field] !== next[field]).map(field => ({
+    field,
+    from: current[field],
+    to: next[field]
+  }));
+}
+
+// Mifflin-St Jeor in quarter kcal, as in NutritionAIFHE._estimateBmr: 10 * weight + 6.25 * height
+// - 5 * age + 5 (male) or - 161 (female), the midpoint -78 when sex is unspecified. Falls back to
+// `fallbackBmr` unless both weight and height are given; floors at 0.
+export function estimateBmr(input: Pick<AnalysisInput, "weightKg" | "heightCm" | "ageYears" | "sex">, fallbackBmr: number): number {
+  const weightKg = toUint32(input.weightKg);
+  const heightCm = toUint32(input.heightCm);
+  const ageYears = toUint32(input.ageYears);
+  const sex = toUint32(input.sex);
+  if (weightKg === 0 || heightCm === 0) return fallbackBmr;
+
+  const sexLoss = sex === SEX.female ? 644 : sex === SEX.male ? 0 : 312;
+  const gains = add(add(mul(weightKg, 40), mul(heightCm, 25)), sex === SEX.male ? 20 : 0);
+  const losses = add(mul(ageYears, 20), sexLoss);
+  return gains >= losses ? div(sub(gains, losses), 4) : 0;
+}
+
+export function computeAnalysis(input: AnalysisInput, params: AnalysisParams = DEFAULT_ANALYSIS_PARAMS): AnalysisResult {
+  const { activityFactor, loseWeightAdjustment, gainMuscleAdjustment, proteinPercent, proteinPerKg, fatPercent, waterTargetMl } = params;
+  const dailyCalories = toUint32(input.dailyCalories);
+  const activityLevel = toUint32(input.activityLevel);
+  const healthGoal = toUint32(input.healthGoal);
+  const weightKg = toUint32(input.weightKg);
+
+  // 1. TDEE
+  const tdee = add(mul(activityLevel, activityFactor), estimateBmr(input, params.bmr));
+
+  // 2. Goal adjustment; a loss is added as its two's complement
+  let adjustment = 0;
+  if (healthGoal === HEALTH_GOALS.loseWeight) adjustment = sub(0, loseWeightAdjustment);
+  if (healthGoal === HEALTH_GOALS.gainMuscle) adjustment = gainMuscleAdjustment;
+  const calorieTarget = add(tdee, adjustment);
+
+  // 3. Macros: 4 kcal per gram of protein and carbs, 9 per gram of fat. Protein follows body
+  // weight when it is known; carbs fill what is left, or are 0 when nothing is
+  const proteinTarget = weightKg > 0 ? div(mul(weightKg, proteinPerKg), 10) : div(div(mul(calorieTarget, proteinPercent), 100), 4);
+  const fatTarget = div(div(mul(calorieTarget, fatPercent), 100), 9);
+  const macroCalories = add(mul(proteinTarget, 4), mul(fatTarget, 9));
+  const carbTarget = calorieTarget >= macroCalories ? div(sub(calorieTarget, macroCalories), 4) : 0;
+
+  // 4. Score: one point off per SCORE_STEP kcal away from the target, floored at 0
+  const absDiff = dailyCalories >= calorieTarget ? sub(dailyCalories, calorieTarget) : sub(calorieTarget, dailyCalories);
+  const score = sub(100, Math.min(div(absDiff, SCORE_STEP), 100));
+
+  return { calorieTarget, proteinTarget, carbTarget, fatTarget, waterTarget: waterTargetMl, score };
+}
@@ -0,0 +1,228 @@
+// contractAdmin.ts
+// Owner-side reads of NutritionAIFHE. The contract keeps isProvider as a mapping only, so the
+// provider list is rebuilt by replaying ProviderAdded/ProviderRemoved; the audit trail is the
+// ownership, pause, cooldown and timelock events in chain order. While a timelock delay is set,
+// the functions in TIMELOCKED_FUNCTIONS only run once their exact calldata has been scheduled, and
+// every delay change drops whatever was scheduled before it. The event reads take the block to
+// start from (the deployment block, so nothing is missed) and go through it in pages.
+import { ethers } from "ethers";
+import type { NutritionAIFHE } from "@contracts/contracts/Nutrition_AI_FHE.sol/NutritionAIFHE";
+import type { TypedContractEvent, TypedDeferredTopicFilter, TypedEventLog } from "@contracts/common";
+import { simulateAndSend } from "../errors/contractErrors";
+
+interface LogPosition {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+}
+
+export interface ProviderChange extends LogPosition {
+  provider: string;
+  added: boolean;
+}
+
+export type AdminEvent = LogPosition & (
+  | { kind: "ownershipProposed"; owner: string; pendingOwner: string }
+  | { kind: "ownershipProposalCancelled"; pendingOwner: string }
+  | { kind: "ownership"; oldOwner: string; newOwner: string }
+  | { kind: "pause"; paused: boolean }
+  | { kind: "cooldown"; oldCooldown: number; newCooldown: number }
+  | { kind: "timelock"; oldDelay: number; newDelay: number }
+);
+
+// Owner functions guarded by the contract's timelocked modifier
+export const TIMELOCKED_FUNCTIONS = [
+  "addProvider",
+  "removeProvider",
+  "setCooldownSeconds",
+  "setTimelockDelay",
+  "proposeOwnership",
+  "setAnalysisParams"
+] as const;
+
+export type TimelockedFunction = typeof TIMELOCKED_FUNCTIONS[number];
+
+// A scheduled call that has been neither executed nor cancelled
+export interface ScheduledAction extends LogPosition {
+  actionId: string;
+  data: string;
+  scheduledAt: number; // unix seconds
+  readyAt: number; // scheduledAt plus the current delay
+  name: string;
+  args: unknown[];
+}
+
+// What has to happen before a timelocked call goes through
+export type TimelockState =
+  | { kind: "open" } // no delay set, send it directly
+  | { kind: "unscheduled"; delay: number }
+  | { kind: "waiting"; readyAt: number }
+  | { kind: "ready" };
+
+// NutritionAIFHE.MAX_TIMELOCK_DELAY
+export const MAX_TIMELOCK_DELAY = 30 * 24 * 60 * 60;
+
+// Public RPCs cap eth_getLogs ranges, so the event history is read this many blocks at a time
+export const LOG_PAGE_BLOCKS = 10000;
+
+const byPosition = (a: LogPosition, b: LogPosition) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+const positionOf = (log: ethers.Log): LogPosition => ({
+  blockNumber: log.blockNumber,
+  logIndex: log.index,
+  txHash: log.transactionHash
+});
+
+// queryFilter over fromBlock..toBlock (the latest block when left out), one page at a time
+export async function queryPaged<E extends TypedContractEvent>(
+  contract: NutritionAIFHE,
+  filter: TypedDeferredTopicFilter<E>,
+  fromBlock: number,
+  toBlock?: number
+): Promise<TypedEventLog<E>[]> {
+  const end = toBlock ?? (await contract.runner!.provider!.getBlockNumber());
+  const logs: TypedEventLog<E>[] = [];
+  for (let start = fromBlock; start <= end; start += LOG_PAGE_BLOCKS) {
+    logs.push(...(await contract.queryFilter(filter, start, Math.min(end, start + LOG_PAGE_BLOCKS - 1))));
+  }
+  return logs;
+}
+
+// Providers left registered after the changes, in the order they were (last) added
+export function replayProviders(changes: ProviderChange[]): string[] {
+  const providers = new Map<string, string>();
+  for (const change of [...changes].sort(byPosition)) {
+    const key = change.provider.toLowerCase();
+    providers.delete(key);
+    if (change.added) providers.set(key, change.provider);
+  }
+  return [...providers.values()];
+}
+
+export async function getProviderChanges(contract: NutritionAIFHE, fromBlock = 0, toBlock?: number): Promise<ProviderChange[]> {
+  const [added, removed] = await Promise.all([
+    queryPaged(contract, contract.filters.ProviderAdded(), fromBlock, toBlock),
+    queryPaged(contract, contract.filters.ProviderRemoved(), fromBlock, toBlock)
+  ]);
+  return [
+    ...added.map(log => ({ ...positionOf(log), provider: log.args.provider, added: true })),
+    ...removed.map(log => ({ ...positionOf(log), provider: log.args.provider, added: false }))
+  ].sort(byPosition);
+}
+
+// Starting anywhere after the deployment block misses the owner's initial ProviderAdded
+export async function getProviders(contract: NutritionAIFHE, fromBlock = 0, toBlock?: number): Promise<string[]> {
+  return replayProviders(await getProviderChanges(contract, fromBlock, toBlock));
+}
+
+// Ownership, pause, cooldown and timelock delay changes, oldest first
+export async function getAdminAuditTrail(contract: NutritionAIFHE, fromBlock = 0, toBlock?: number): Promise<AdminEvent[]> {
+  const [proposed, cancelled, ownership, pause, cooldown, timelock] = await Promise.all([
+    queryPaged(contract, contract.filters.OwnershipProposed(), fromBlock, toBlock),
+    queryPaged(contract, contract.filters.OwnershipProposalCancelled(), fromBlock, toBlock),
+    queryPaged(contract, contract.filters.OwnershipTransferred(), fromBlock, toBlock),
+    queryPaged(contract, contract.filters.PauseToggled(), fromBlock, toBlock),
+    queryPaged(contract, contract.filters.CooldownSet(), fromBlock, toBlock),
+    queryPaged(contract, contract.filters.TimelockDelaySet(), fromBlock, toBlock)
+  ]);
+  const events: AdminEvent[] = [
+    ...proposed.map(log => ({ ...positionOf(log), kind: "ownershipProposed" as const, owner: log.args.owner, pendingOwner: log.args.pendingOwner })),
+    ...cancelled.map(log => ({ ...positionOf(log), kind: "ownershipProposalCancelled" as const, pendingOwner: log.args.pendingOwner })),
+    ...ownership.map(log => ({ ...positionOf(log), kind: "ownership" as const, oldOwner: log.args.oldOwner, newOwner: log.args.newOwner })),
+    ...pause.map(log => ({ ...positionOf(log), kind: "pause" as const, paused: log.args.paused })),
+    ...cooldown.map(log => ({
+      ...positionOf(log),
+      kind: "cooldown" as const,
+      oldCooldown: Number(log.args.oldCooldown),
+      newCooldown: Number(log.args.newCooldown)
+    })),
+    ...timelock.map(log => ({ ...positionOf(log), kind: "timelock" as const, oldDelay: Number(log.args.oldDelay), newDelay: Number(log.args.newDelay) }))
+  ];
+  return events.sort(byPosition);
+}
+
+export function encodeOwnerAction(contract: NutritionAIFHE, name: TimelockedFunction, args: unknown[]): string {
+  return (contract.interface as ethers.Interface).encodeFunctionData(name, args);
+}
+
+// The id the contract files a scheduled call under during the given timelock epoch
+export const actionIdOf = (epoch: bigint, data: string) =>
+  ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "bytes"], [epoch, data]));
+
+// Calls scheduled since `fromBlock` that can still be executed, oldest first. Calls scheduled
+// before the last delay change are left out, as the contract no longer accepts them.
+export async function getScheduledActions(contract: NutritionAIFHE, fromBlock = 0, toBlock?: number): Promise<ScheduledAction[]> {
+  const [scheduled, cancelled, executed, epoch, delay] = await Promise.all([
+    queryPaged(contract, contract.filters.ActionScheduled(), fromBlock, toBlock),
+    queryPaged(contract, contract.filters.ActionCancelled(), fromBlock, toBlock),
+    queryPaged(contract, contract.filters.ActionExecuted(), fromBlock, toBlock),
+    contract.timelockEpoch(),
+    contract.timelockDelay()
+  ]);
+  const changes = [
+    ...scheduled
+      .filter(log => log.args.actionId === actionIdOf(epoch, log.args.data))
+      .map(log => {
+        const scheduledAt = Number(log.args.scheduledAt);
+        return { ...positionOf(log), actionId: log.args.actionId, scheduled: { data: log.args.data, scheduledAt, readyAt: scheduledAt + Number(delay) } };
+      }),
+    ...[...cancelled, ...executed].map(log => ({ ...positionOf(log), actionId: log.args.actionId, scheduled: null }))
+  ].sort(byPosition);
+
+  const pending = new Map<string, ScheduledAction>();
+  for (const { scheduled, ...change } of changes) {
+    pending.delete(change.actionId);
+    if (!scheduled) continue;
+    const call = contract.interface.parseTransaction({ data: scheduled.data });
+    pending.set(change.actionId, { ...change, ...scheduled, name: call?.name ?? "unknown", args: call ? [...call.args] : [] });
+  }
+  return [...pending.values()];
+}
+
+// Where a timelocked call stands, judged by the latest block's timestamp
+export async function timelockState(contract: NutritionAIFHE, data: string): Promise<TimelockState> {
+  const delay = Number(await contract.timelockDelay());
+  if (delay === 0) return { kind: "open" };
+  const scheduledAt = Number(await contract.actionScheduledAt(await contract.actionIdOf(data)));
+  if (scheduledAt === 0) return { kind: "unscheduled", delay };
+  const readyAt = scheduledAt + delay;
+  const block = await contract.runner?.provider?.getBlock("latest");
+  if (!block) throw new Error("NutritionAIFHE needs to be connected to a provider");
+  return block.timestamp >= readyAt ? { kind: "ready" } : { kind: "waiting", readyAt };
+}
+
+// Sends a timelocked call, or schedules it first when the timelock requires that. A call that is
+// scheduled but not ready yet is simulated and reverts with TimelockNotReady.
+export async function sendOwnerAction(
+  contract: NutritionAIFHE,
+  name: TimelockedFunction,
+  args: unknown[]
+): Promise<{ scheduled: boolean; tx: ethers.ContractTransactionResponse }> {
+  const data = encodeOwnerAction(contract, name, args);
+  if ((await timelockState(contract, data)).kind === "unscheduled") {
+    return { scheduled: true, tx: await simulateAndSend(contract.scheduleAction, data) };
+  }
+  return { scheduled: false, tx: await simulateAndSend(contract.getFunction(name), ...args) };
+}
+
+// Problems with a cooldown typed into the admin form; setCooldownSeconds rejects 0
+export function validateCooldown(input: string): string[] {
+  const seconds = input.trim() ? Number(input) : NaN;
+  if (!Number.isSafeInteger(seconds) || seconds <= 0) return ["The cooldown must be a whole number of seconds greater than 0"];
+  return [];
+}
+
+// Problems with a timelock delay typed into the admin form; 0 turns the timelock off
+export function validateTimelockDelay(input: string): string[] {
+  const seconds = input.trim() ? Number(input) : NaN;
+  if (!Number.isSafeInteger(seconds) || seconds < 0) return ["The delay must be a whole number of seconds"];
+  if (seconds > MAX_TIMELOCK_DELAY) return [`The delay can't exceed ${MAX_TIMELOCK_DELAY} seconds (30 days)`];
+  return [];
+}
+
+// Problems with an address typed in as a provider or new owner
+export function validateAdminAddress(input: string): string[] {
+  if (!ethers.isAddress(input.trim())) return ["Enter a 0x-prefixed 20-byte address"];
+  if (ethers.getAddress(input.trim()) === ethers.ZeroAddress) return ["The zero address can't be used"];
+  return [];
+}
@@ -0,0 +1,56 @@
+// dailySummary.ts
+// Turns decrypted nutrition records into the intake part of a submitUserData call: one average
+// day over a date range, counting only the days something was logged.
+import type { UserData } from "./nutritionAI";
+
+export interface DayTotals {
+  date: string; // YYYY-MM-DD
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  water: number; // ml
+}
+
+export type IntakeSummary = Pick<UserData, "dailyCalories" | "proteinGrams" | "carbGrams" | "fatGrams" | "waterIntakeMl">;
+
+// Plaintext of one record, as decrypted by the caller
+export interface RecordValues {
+  date: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  water?: number;
+}
+
+const isInRange = (date: string, from: string, to: string) => date >= from && date <= to;
+
+// Per-day totals of the records inside [from, to], oldest day first
+export function totalsByDay(records: RecordValues[], from: string, to: string): DayTotals[] {
+  const days = new Map<string, DayTotals>();
+  for (const record of records) {
+    if (!isInRange(record.date, from, to)) continue;
+    const day = days.get(record.date) ?? { date: record.date, calories: 0, protein: 0, carbs: 0, fat: 0, water: 0 };
+    day.calories += record.calories;
+    day.protein += record.protein;
+    day.carbs += record.carbs;
+    day.fat += record.fat;
+    day.water += record.water ?? 0;
+    days.set(record.date, day);
+  }
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Rounded to whole units, since the contract takes euint32s; null when no day has records
+export function averageDay(days: DayTotals[]): IntakeSummary | null {
+  if (days.length === 0) return null;
+  const mean = (field: keyof Omit<DayTotals, "date">) => Math.round(days.reduce((total, day) => total + day[field], 0) / days.length);
+  return {
+    dailyCalories: mean("calories"),
+    proteinGrams: mean("protein"),
+    carbGrams: mean("carbs"),
+    fatGrams: mean("fat"),
+    waterIntakeMl: mean("water")
+  };
+}
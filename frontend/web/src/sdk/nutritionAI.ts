@@ -0,0 +1,306 @@
+// nutritionAI.ts
+// Client for the NutritionAIFHE batch workflow: a provider opens a batch, submits encrypted
+// user data, closes the batch and requests an analysis; the decryption oracle later calls
+// back with the six analysis values, which the contract stores and emits in DecryptionCompleted.
+import { ethers } from "ethers";
+import type { NutritionAIFHE } from "@contracts/contracts/Nutrition_AI_FHE.sol/NutritionAIFHE";
+import type { FheBackend } from "../fhe/backend";
+import { cooldownRemaining, simulateAndSend } from "../errors/contractErrors";
+import { queryPaged } from "./contractAdmin";
+import { ANALYSIS_PARAM_FIELDS, AnalysisParams } from "./analysisModel";
+
+// Order of the submitUserData arguments
+export const USER_DATA_FIELDS = [
+  "dailyCalories",
+  "proteinGrams",
+  "carbGrams",
+  "fatGrams",
+  "waterIntakeMl",
+  "activityLevel", // 1-5
+  "healthGoal", // 1: lose weight, 2: gain muscle, 3: maintain
+  "allergyFlags", // bitmask, see ./allergens
+  "weightKg", // 0 when not provided
+  "heightCm",
+  "ageYears",
+  "sex" // 0: unspecified, 1: male, 2: female
+] as const;
+
+// Order of the results array in DecryptionCompleted
+export const ANALYSIS_FIELDS = ["calorieTarget", "proteinTarget", "carbTarget", "fatTarget", "waterTarget", "score"] as const;
+
+export type UserDataField = typeof USER_DATA_FIELDS[number];
+export type AnalysisField = typeof ANALYSIS_FIELDS[number];
+
+export type UserData = Record<UserDataField, number>;
+export type AnalysisResult = Record<AnalysisField, number>;
+
+export interface AnalysisRequest {
+  requestId: bigint;
+  batchId: bigint;
+  blockNumber: number;
+}
+
+export interface CompletedAnalysis extends AnalysisRequest {
+  result: AnalysisResult;
+  txHash: string;
+}
+
+// An analysis as stored by the contract once the oracle delivered it
+export interface StoredAnalysis {
+  batchId: bigint;
+  requestId: bigint;
+  completedAt: number; // unix seconds
+  result: AnalysisResult;
+}
+
+// A DecryptionRequested of one provider and, once the oracle called back, its DecryptionCompleted
+export interface TrackedRequest extends AnalysisRequest {
+  txHash: string;
+  completion: { blockNumber: number; txHash: string; result: AnalysisResult } | null;
+}
+
+export interface HistoryOptions {
+  offset?: number;
+  limit?: number;
+}
+
+export interface WaitOptions {
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  fromBlock?: number; // where to start looking for the callback, defaults to the latest block
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 4000;
+const HISTORY_PAGE_SIZE = 50;
+
+export class AnalysisTimeoutError extends Error {
+  constructor(readonly requestId: bigint, readonly timeoutMs: number) {
+    super(`No DecryptionCompleted for request ${requestId} within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "AnalysisTimeoutError";
+  }
+}
+
+export function decodeAnalysisResult(results: readonly bigint[]): AnalysisResult {
+  if (results.length !== ANALYSIS_FIELDS.length) {
+    throw new Error(`Expected ${ANALYSIS_FIELDS.length} analysis values, got ${results.length}`);
+  }
+  const decoded = {} as AnalysisResult;
+  ANALYSIS_FIELDS.forEach((field, index) => {
+    decoded[field] = Number(results[index]);
+  });
+  return decoded;
+}
+
+function toStoredAnalysis(record: NutritionAIFHE.AnalysisRecordStructOutput): StoredAnalysis {
+  return {
+    batchId: record.batchId,
+    requestId: record.requestId,
+    completedAt: Number(record.completedAt),
+    result: decodeAnalysisResult(ANALYSIS_FIELDS.map(field => record[field]))
+  };
+}
+
+// Reads need neither a signer nor an FHE backend, so they also work on a read-only contract
+
+// The provider's analysis of a batch, or null when it hasn't completed
+export async function getAnalysis(contract: NutritionAIFHE, provider: string, batchId: bigint): Promise<StoredAnalysis | null> {
+  if (!(await contract.hasAnalysis(provider, batchId))) return null;
+  return toStoredAnalysis(await contract.getAnalysis(provider, batchId));
+}
+
+// One page of the provider's analyses, oldest first
+export async function getAnalysisHistory(contract: NutritionAIFHE, provider: string, { offset = 0, limit = HISTORY_PAGE_SIZE }: HistoryOptions = {}): Promise<StoredAnalysis[]> {
+  const page = await contract.getAnalysisHistory(provider, offset, limit);
+  return page.map(toStoredAnalysis);
+}
+
+export async function getAllAnalyses(contract: NutritionAIFHE, provider: string): Promise<StoredAnalysis[]> {
+  const count = Number(await contract.analysisCount(provider));
+  const pages: Promise<StoredAnalysis[]>[] = [];
+  for (let offset = 0; offset < count; offset += HISTORY_PAGE_SIZE) {
+    pages.push(getAnalysisHistory(contract, provider, { offset, limit: HISTORY_PAGE_SIZE }));
+  }
+  return (await Promise.all(pages)).flat();
+}
+
+// Follows a provider's analysis requests from `fromBlock` on. Each refresh only reads the blocks
+// after the previous one, in pages. DecryptionRequested doesn't name the provider, so each new
+// request is attributed once, through its decryption context; completions are matched to the
+// requests already found.
+export class ProviderRequestTracker {
+  private nextBlock: number;
+  private readonly requests = new Map<bigint, TrackedRequest>();
+
+  constructor(private readonly contract: NutritionAIFHE, private readonly provider: string, fromBlock = 0) {
+    this.nextBlock = fromBlock;
+  }
+
+  // The provider's requests up to `toBlock` (the latest block when left out), oldest first
+  async refresh(toBlock?: number): Promise<TrackedRequest[]> {
+    const contract = this.contract;
+    const end = toBlock ?? (await contract.runner!.provider!.getBlockNumber());
+    if (end >= this.nextBlock) {
+      const [requested, completed] = await Promise.all([
+        queryPaged(contract, contract.filters.DecryptionRequested(), this.nextBlock, end),
+        queryPaged(contract, contract.filters.DecryptionCompleted(), this.nextBlock, end)
+      ]);
+      const contexts = await Promise.all(requested.map(log => contract.decryptionContexts(log.args.requestId)));
+      requested.forEach((log, index) => {
+        if (contexts[index].provider.toLowerCase() !== this.provider.toLowerCase()) return;
+        this.requests.set(log.args.requestId, {
+          requestId: log.args.requestId,
+          batchId: log.args.batchId,
+          blockNumber: log.blockNumber,
+          txHash: log.transactionHash,
+          completion: null
+        });
+      });
+      for (const log of completed) {
+        const request = this.requests.get(log.args.requestId);
+        if (!request) continue;
+        this.requests.set(log.args.requestId, {
+          ...request,
+          completion: { blockNumber: log.blockNumber, txHash: log.transactionHash, result: decodeAnalysisResult(log.args.results) }
+        });
+      }
+      this.nextBlock = end + 1;
+    }
+    return [...this.requests.values()];
+  }
+}
+
+// The provider's analysis requests from `fromBlock` to `toBlock`, oldest first
+export async function getProviderRequests(contract: NutritionAIFHE, provider: string, fromBlock = 0, toBlock?: number): Promise<TrackedRequest[]> {
+  return new ProviderRequestTracker(contract, provider, fromBlock).refresh(toBlock);
+}
+
+// The provider's most recently completed analysis, or null before the first one
+export async function getLatestAnalysis(contract: NutritionAIFHE, provider: string): Promise<StoredAnalysis | null> {
+  const count = Number(await contract.analysisCount(provider));
+  if (count === 0) return null;
+  const [latest] = await getAnalysisHistory(contract, provider, { offset: count - 1, limit: 1 });
+  return latest ?? null;
+}
+
+export async function readAnalysisParams(contract: NutritionAIFHE): Promise<AnalysisParams> {
+  const params = await contract.getAnalysisParams();
+  const decoded = {} as AnalysisParams;
+  ANALYSIS_PARAM_FIELDS.forEach(field => {
+    decoded[field] = Number(params[field]);
+  });
+  return decoded;
+}
+
+// Has NutritionAIFHE ingest handles encrypted for it that are stored elsewhere (meal records and
+// goals in the storage adapter), so the relayer lets the sender decrypt them. One input proof
+// covers up to MAX_REGISTERED_CIPHERTEXTS handles.
+export async function registerCiphertexts(contract: NutritionAIFHE, handles: string[], inputProof: string): Promise<ethers.ContractTransactionResponse> {
+  return simulateAndSend(contract.registerCiphertexts, handles, inputProof);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class NutritionAIClient {
+  constructor(readonly contract: NutritionAIFHE, private readonly fhe: Pick<FheBackend, "encryptUint32">) {}
+
+  private async sender(): Promise<string> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") throw new Error("NutritionAIClient needs a contract connected to a signer");
+    return runner.getAddress();
+  }
+
+  private async mined(tx: ethers.ContractTransactionResponse): Promise<ethers.ContractTransactionReceipt> {
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error("Transaction receipt is missing");
+    return receipt;
+  }
+
+  private eventArgs(receipt: ethers.ContractTransactionReceipt, name: string): ethers.Result {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === name) return parsed.args;
+    }
+    throw new Error(`${name} was not emitted by ${receipt.hash}`);
+  }
+
+  // Returns the id of the newly opened batch
+  async openBatch(): Promise<bigint> {
+    const receipt = await this.mined(await simulateAndSend(this.contract.openBatch));
+    return this.eventArgs(receipt, "BatchOpened").batchId;
+  }
+
+  async closeBatch(): Promise<bigint> {
+    const receipt = await this.mined(await simulateAndSend(this.contract.closeBatch));
+    return this.eventArgs(receipt, "BatchClosed").batchId;
+  }
+
+  // Encrypts all the fields under one input proof and submits them to the open batch
+  async submitUserData(data: UserData): Promise<{ batchId: bigint; txHash: string }> {
+    const { handles, inputProof } = await this.fhe.encryptUint32(
+      await this.contract.getAddress(),
+      await this.sender(),
+      USER_DATA_FIELDS.map(field => data[field])
+    );
+    const [calories, protein, carbs, fat, water, activity, goal, allergies, weight, height, age, sex] = handles;
+    const receipt = await this.mined(
+      await simulateAndSend(
+        this.contract.submitUserData,
+        calories, protein, carbs, fat, water, activity, goal, allergies, weight, height, age, sex,
+        inputProof
+      )
+    );
+    return { batchId: this.eventArgs(receipt, "DataSubmitted").batchId, txHash: receipt.hash };
+  }
+
+  async requestAnalysis(batchId: bigint): Promise<AnalysisRequest> {
+    const receipt = await this.mined(await simulateAndSend(this.contract.requestAnalysis, batchId));
+    const args = this.eventArgs(receipt, "DecryptionRequested");
+    return { requestId: args.requestId, batchId: args.batchId, blockNumber: receipt.blockNumber };
+  }
+
+  // Polls for the oracle's callback. Polling rather than a subscription keeps this working on
+  // RPCs without filter support and picks up callbacks that landed before the call.
+  async waitForAnalysis(requestId: bigint, { timeoutMs = DEFAULT_TIMEOUT_MS, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS, fromBlock }: WaitOptions = {}): Promise<CompletedAnalysis> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("NutritionAIClient needs a contract connected to a provider");
+    const filter = this.contract.filters.DecryptionCompleted(requestId);
+    const start = fromBlock ?? (await provider.getBlockNumber());
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const [log] = await this.contract.queryFilter(filter, start);
+      if (log) {
+        return {
+          requestId,
+          batchId: log.args.batchId,
+          blockNumber: log.blockNumber,
+          txHash: log.transactionHash,
+          result: decodeAnalysisResult(log.args.results)
+        };
+      }
+      if (Date.now() >= deadline) throw new AnalysisTimeoutError(requestId, timeoutMs);
+      await sleep(Math.min(pollIntervalMs, Math.max(0, deadline - Date.now())));
+    }
+  }
+
+  // Requests an analysis of the batch and resolves with the decrypted result
+  async analyse(batchId: bigint, options: Omit<WaitOptions, "fromBlock"> = {}): Promise<CompletedAnalysis> {
+    const request = await this.requestAnalysis(batchId);
+    return this.waitForAnalysis(request.requestId, { ...options, fromBlock: request.blockNumber });
+  }
+
+  // This provider's stored analysis of a batch, or null when it hasn't completed
+  async analysisOf(batchId: bigint): Promise<StoredAnalysis | null> {
+    return getAnalysis(this.contract, await this.sender(), batchId);
+  }
+
+  async history(options?: HistoryOptions): Promise<StoredAnalysis[]> {
+    return getAnalysisHistory(this.contract, await this.sender(), options);
+  }
+
+  // Seconds until this provider may submit (or request an analysis) again
+  async cooldownRemaining(kind: "submission" | "decryption" = "submission"): Promise<number | null> {
+    return cooldownRemaining(this.contract, await this.sender(), kind);
+  }
+}
@@ -0,0 +1,119 @@
+// binary.ts
+// Byte-level building blocks for the compact payload codecs.
+import { ethers } from "ethers";
+
+export interface BinaryCodec<T> {
+  encode(value: T, writer: ByteWriter): void;
+  decode(reader: ByteReader): T;
+}
+
+export class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    if (!Number.isInteger(value) || value < 0 || value > 0xffff) throw new RangeError(`${value} does not fit in u16`);
+    this.bytes.push(value >> 8, value & 0xff);
+  }
+
+  // Unsigned LEB128
+  varint(value: number) {
+    if (!Number.isSafeInteger(value) || value < 0) throw new RangeError(`${value} is not a valid varint`);
+    while (value >= 0x80) {
+      this.bytes.push((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.bytes.push(value);
+  }
+
+  raw(bytes: Uint8Array) {
+    for (const byte of bytes) this.bytes.push(byte);
+  }
+
+  // Length-prefixed
+  bytesField(bytes: Uint8Array) {
+    this.varint(bytes.length);
+    this.raw(bytes);
+  }
+
+  string(value: string) {
+    this.bytesField(ethers.toUtf8Bytes(value));
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+export class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done() {
+    return this.offset === this.bytes.length;
+  }
+
+  private take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) throw new RangeError("Payload is truncated");
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  u8(): number {
+    return this.take(1)[0];
+  }
+
+  u16(): number {
+    const [high, low] = this.take(2);
+    return (high << 8) | low;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) throw new RangeError("Varint is too long");
+    }
+  }
+
+  raw(length: number): Uint8Array {
+    return this.take(length);
+  }
+
+  bytesField(): Uint8Array {
+    return this.take(this.varint());
+  }
+
+  string(): string {
+    return ethers.toUtf8String(this.bytesField());
+  }
+}
+
+// Dates are stored as days since the Unix epoch in a u16
+const DAY_MS = 86400000;
+const MAX_DAYS = 0xffff;
+
+export const dateToDays = (date: string) => Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+
+export const daysToDate = (days: number) => new Date(days * DAY_MS).toISOString().split("T")[0];
+
+// The dates the binary layouts can hold, for validators to reject anything else up front
+export const FIRST_STORABLE_DATE = "1970-01-01";
+export const LAST_STORABLE_DATE = daysToDate(MAX_DAYS);
+
+export const isStorableDate = (date: string) => {
+  const days = dateToDays(date);
+  return days >= 0 && days <= MAX_DAYS;
+};
+
+// FHEVM handles are 32 bytes; anything else (legacy "FHE-" strings) is stored as text
+export const isHandle = (value: string) => ethers.isHexString(value, 32);
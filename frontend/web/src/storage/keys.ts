@@ -0,0 +1,60 @@
+// keys.ts
+// UniversalAdapter keys are global to the contract, so everything is namespaced by wallet.
+
+// Keys used before namespacing; every user of the contract shared them
+export const LEGACY_KEYS = {
+  records: "nutritionRecords",
+  goals: "healthGoals"
+} as const;
+
+export interface WalletKeys {
+  records: string;
+  goals: string;
+}
+
+export function walletKeys(address: string): WalletKeys {
+  const owner = address.toLowerCase();
+  return {
+    records: `${LEGACY_KEYS.records}:${owner}`,
+    goals: `${LEGACY_KEYS.goals}:${owner}`
+  };
+}
+
+// Human-readable name of a write, shown in the transaction panel
+export function describeKey(key: string): string {
+  const [base, kind, date] = key.split("/");
+  if (kind === "day") return `Save records for ${date}`;
+  if (kind === "index") return "Update record index";
+  if (base.startsWith(LEGACY_KEYS.goals)) return "Save health goals";
+  if (base.startsWith(LEGACY_KEYS.records)) return "Save record archive";
+  return `Write ${key}`;
+}
+
+// The shared blob can't be split by owner, so each wallet decides once whether to import it.
+// That decision is remembered locally.
+const MIGRATION_FLAG_PREFIX = "nutrition-ai:legacy-migration";
+
+export type LegacyMigrationOutcome = "imported" | "dismissed";
+
+const migrationFlagKey = (address: string) => `${MIGRATION_FLAG_PREFIX}:${address.toLowerCase()}`;
+
+export const isLegacyMigrationSettled = (address: string) =>
+  localStorage.getItem(migrationFlagKey(address)) !== null;
+
+export const settleLegacyMigration = (address: string, outcome: LegacyMigrationOutcome) =>
+  localStorage.setItem(migrationFlagKey(address), outcome);
+
+// Allergy flags are kept per wallet on this device only: the adapter would store them in the
+// clear, and the contract only ever sees the encrypted copy in a daily summary
+const ALLERGY_FLAGS_PREFIX = "nutrition-ai:allergy-flags";
+
+const allergyFlagsKey = (address: string) => `${ALLERGY_FLAGS_PREFIX}:${address.toLowerCase()}`;
+
+// 0 when nothing (or something unreadable) is stored
+export function loadAllergyFlags(address: string): number {
+  const stored = Number(localStorage.getItem(allergyFlagsKey(address)) ?? 0);
+  return Number.isInteger(stored) && stored >= 0 && stored <= 0xffffffff ? stored : 0;
+}
+
+export const saveAllergyFlags = (address: string, mask: number) =>
+  localStorage.setItem(allergyFlagsKey(address), String(mask >>> 0));
@@ -0,0 +1,85 @@
+// payload.ts
+// Encoding of values written through UniversalAdapter.setData. Payloads are either UTF-8 JSON
+// (everything written before the binary codec) or a binary frame:
+//
+//   "NAI" magic | frame version (u8) | flags (u8) | body
+//
+// where flag bit 0 marks a deflate-raw compressed body. JSON can't start with the magic, so
+// both formats are told apart by their first bytes.
+import { ethers } from "ethers";
+
+const FRAME_MAGIC = ethers.toUtf8Bytes("NAI");
+const FRAME_VERSION = 1;
+const FLAG_COMPRESSED = 0x01;
+const HEADER_LENGTH = FRAME_MAGIC.length + 2;
+
+export type PayloadResult =
+  | { ok: true; format: "json"; value: unknown }
+  | { ok: true; format: "binary"; body: Uint8Array }
+  | { ok: false; reason: string; raw: string };
+
+export function encodePayload(value: unknown): Uint8Array {
+  return ethers.toUtf8Bytes(JSON.stringify(value));
+}
+
+// CompressionStream is missing from older browsers; payloads are then written uncompressed
+export const compressionSupported = () => typeof CompressionStream !== "undefined";
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes.slice()]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Compression is only kept when it actually shrinks the body
+export async function encodeBinaryPayload(body: Uint8Array, compress = true): Promise<Uint8Array> {
+  let flags = 0;
+  if (compress && compressionSupported()) {
+    const compressed = await transform(body, new CompressionStream("deflate-raw"));
+    if (compressed.length < body.length) {
+      body = compressed;
+      flags |= FLAG_COMPRESSED;
+    }
+  }
+  return ethers.getBytes(ethers.concat([FRAME_MAGIC, Uint8Array.of(FRAME_VERSION, flags), body]));
+}
+
+const hasFrameMagic = (bytes: Uint8Array) =>
+  bytes.length >= HEADER_LENGTH && FRAME_MAGIC.every((byte, i) => bytes[i] === byte);
+
+// Null for an empty payload; unreadable bytes come back with the reason and their raw form
+export async function readPayload(data: ethers.BytesLike): Promise<PayloadResult | null> {
+  const bytes = ethers.getBytes(data);
+  if (bytes.length === 0) return null;
+
+  if (hasFrameMagic(bytes)) {
+    const raw = ethers.hexlify(bytes);
+    const version = bytes[FRAME_MAGIC.length];
+    const flags = bytes[FRAME_MAGIC.length + 1];
+    if (version !== FRAME_VERSION) return { ok: false, reason: `Unsupported binary frame v${version}`, raw };
+    let body = bytes.subarray(HEADER_LENGTH);
+    if (flags & FLAG_COMPRESSED) {
+      if (typeof DecompressionStream === "undefined") {
+        return { ok: false, reason: "This browser cannot decompress stored data", raw };
+      }
+      try {
+        body = await transform(body, new DecompressionStream("deflate-raw"));
+      } catch (e) {
+        return { ok: false, reason: "Compressed payload is corrupt", raw };
+      }
+    }
+    return { ok: true, format: "binary", body };
+  }
+
+  let str: string;
+  try {
+    str = ethers.toUtf8String(bytes);
+  } catch (e) {
+    return { ok: false, reason: "Payload is not valid UTF-8", raw: ethers.hexlify(bytes) };
+  }
+  if (str.trim() === "") return null;
+  try {
+    return { ok: true, format: "json", value: JSON.parse(str) };
+  } catch (e) {
+    return { ok: false, reason: "Payload is not valid JSON", raw: str };
+  }
+}
@@ -0,0 +1,158 @@
+// recordLog.ts
+// Append-only record storage over UniversalAdapter. Records live in one chunk per day and an
+// index lists the days, so an append rewrites a single bounded chunk (plus the index on the
+// first record of a day) instead of the whole history.
+import { ethers } from "ethers";
+import type { UniversalAdapter } from "@contracts/contracts/UniversalAdapter";
+import { simulateAndSend } from "../errors/contractErrors";
+import { BinaryCodec, dateToDays, daysToDate, isStorableDate } from "./binary";
+import { decodeDocument, DocumentSchema, encodeDocument, isIsoDate, isRecord, objectSchema, QuarantinedEntry, StoredDocument, Validation } from "./schema";
+import { VersionedStore, WriteConflictError } from "./versionedStore";
+
+export interface DataStore {
+  getData(key: string): Promise<string>;
+  setData(key: string, value: Uint8Array): Promise<unknown>;
+}
+
+// Writes are simulated before the wallet is asked to sign. `confirm` makes a write wait for its
+// transaction, e.g. through the TransactionManager
+export const contractStore = (
+  contract: UniversalAdapter,
+  confirm?: (tx: ethers.ContractTransactionResponse, key: string) => Promise<unknown>
+): DataStore => ({
+  getData: key => contract.getData(key),
+  setData: async (key, value) => {
+    const tx = await simulateAndSend(contract.setData, key, value);
+    return confirm ? confirm(tx, key) : tx;
+  }
+});
+
+export interface LogIndex {
+  days: string[]; // YYYY-MM-DD, ascending
+}
+
+export interface LogPage<T> {
+  records: T[];
+  next: number | null; // cursor for the following (older) page
+  quarantine: QuarantinedEntry[];
+}
+
+function validateLogIndex(value: unknown): Validation<LogIndex> {
+  if (!isRecord(value) || !Array.isArray(value.days)) return { ok: false, reason: "days must be a list" };
+  const invalid = value.days.find(day => !isIsoDate(day) || !isStorableDate(day));
+  if (invalid !== undefined) return { ok: false, reason: `invalid day ${String(invalid)}` };
+  return { ok: true, value: { days: value.days as string[] } };
+}
+
+// Sorted days as varint deltas from the previous day, so each usually takes one byte
+const logIndexCodec: BinaryCodec<LogIndex> = {
+  encode(index, writer) {
+    writer.varint(index.days.length);
+    let previous = 0;
+    for (const day of index.days) {
+      const days = dateToDays(day);
+      writer.varint(days - previous);
+      previous = days;
+    }
+  },
+  decode(reader) {
+    let previous = 0;
+    return {
+      days: Array.from({ length: reader.varint() }, () => daysToDate((previous += reader.varint())))
+    };
+  }
+};
+
+// v0 -> v1: only the envelope changed
+export const logIndexSchema = objectSchema("index", 1, [data => data], () => ({ days: [] }), validateLogIndex, {
+  1: logIndexCodec
+});
+
+export const DEFAULT_PAGE_DAYS = 7;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export class RecordLog<T extends { id: string; date: string }> {
+  // `baseKey` still holds the flat array written before the log existed; it is read as an
+  // archive after the last day chunk
+  constructor(private readonly baseKey: string, private readonly schema: DocumentSchema<T[]>) {}
+
+  get indexKey() {
+    return `${this.baseKey}/index`;
+  }
+
+  dayKey(date: string) {
+    return `${this.baseKey}/day/${date}`;
+  }
+
+  async readIndex(store: DataStore): Promise<StoredDocument<LogIndex>> {
+    return decodeDocument(logIndexSchema, this.indexKey, await store.getData(this.indexKey));
+  }
+
+  async readDay(store: DataStore, date: string): Promise<StoredDocument<T[]>> {
+    const key = this.dayKey(date);
+    return decodeDocument(this.schema, key, await store.getData(key));
+  }
+
+  // Pages walk from the newest day backwards; cursor `index.days.length` is the archive page
+  async loadPage(store: DataStore, index: LogIndex, cursor = 0, pageDays = DEFAULT_PAGE_DAYS): Promise<LogPage<T>> {
+    const newestFirst = [...index.days].reverse();
+    if (cursor >= newestFirst.length) {
+      const archived = await decodeDocument(this.schema, this.baseKey, await store.getData(this.baseKey));
+      return { records: [...archived.data].reverse(), next: null, quarantine: archived.quarantine };
+    }
+
+    const days = newestFirst.slice(cursor, cursor + pageDays);
+    const chunks = await Promise.all(days.map(date => this.readDay(store, date)));
+    return {
+      records: chunks.flatMap(chunk => [...chunk.data].reverse()),
+      next: cursor + days.length,
+      quarantine: chunks.flatMap(chunk => chunk.quarantine)
+    };
+  }
+
+  // Every record dated within [from, to] (YYYY-MM-DD, inclusive), oldest first. The archive is
+  // read as well, since its records can carry any date.
+  async loadRange(store: DataStore, index: LogIndex, from: string, to: string): Promise<Omit<LogPage<T>, "next">> {
+    const inRange = (date: string) => date >= from && date <= to;
+    const readArchive = async () => decodeDocument(this.schema, this.baseKey, await store.getData(this.baseKey));
+    const [archived, ...chunks] = await Promise.all([readArchive(), ...index.days.filter(inRange).map(date => this.readDay(store, date))]);
+    return {
+      records: [...archived.data, ...chunks.flatMap(chunk => chunk.data)]
+        .filter(record => inRange(record.date))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      quarantine: [...archived.quarantine, ...chunks.flatMap(chunk => chunk.quarantine)]
+    };
+  }
+
+  // Appends to the record's day chunk, re-reading it from chain so concurrent appends to
+  // other days are never touched. A chunk or index that changes between read and write is
+  // re-read and merged; WriteConflictError escapes only once `maxAttempts` are used up.
+  async append(store: VersionedStore, record: T, maxAttempts = DEFAULT_MAX_ATTEMPTS): Promise<void> {
+    // A record the schema would quarantine is refused instead of written
+    const [problem] = this.schema.validate([record], this.dayKey(record.date)).quarantine;
+    if (problem) throw new Error(problem.reason);
+    await this.writeMerged(store, this.dayKey(record.date), this.schema, maxAttempts, chunk =>
+      chunk.some(r => r.id === record.id) ? null : [...chunk, record]
+    );
+    await this.writeMerged(store, this.indexKey, logIndexSchema, maxAttempts, index =>
+      index.days.includes(record.date) ? null : { days: [...index.days, record.date].sort() }
+    );
+  }
+
+  // `merge` returns null when the stored value already contains the change. Quarantined
+  // entries of the stored document are written back untouched.
+  private async writeMerged<V>(store: VersionedStore, key: string, schema: DocumentSchema<V>, maxAttempts: number, merge: (current: V) => V | null) {
+    for (let attempt = 1; ; attempt++) {
+      const { value, version } = await store.read(key);
+      const current = await decodeDocument(schema, key, value);
+      const merged = merge(current.data);
+      if (merged === null) return;
+      try {
+        await store.write(key, await encodeDocument(schema, merged, current.quarantine), version);
+        return;
+      } catch (e) {
+        if (!(e instanceof WriteConflictError) || attempt >= maxAttempts) throw e;
+      }
+    }
+  }
+}
@@ -0,0 +1,179 @@
+// records.ts
+// Stored shapes of nutrition records and health goals, with their validators and migrations.
+import { ethers } from "ethers";
+import {
+  BinaryCodec,
+  ByteReader,
+  ByteWriter,
+  dateToDays,
+  daysToDate,
+  FIRST_STORABLE_DATE,
+  isHandle,
+  isStorableDate,
+  LAST_STORABLE_DATE
+} from "./binary";
+import { isIsoDate, isRecord, listCodec, listSchema, Migration, objectSchema, Validation } from "./schema";
+import { isUlid, ulidFromBytes, ulidToBytes } from "./ulid";
+
+// "water" logs hydration: the entry carries a water handle and its four macros are encrypted zeros
+export const MEAL_TYPES = ["breakfast", "lunch", "dinner", "snack", "water"] as const;
+export type MealType = typeof MEAL_TYPES[number];
+
+export interface NutritionRecord {
+  id: string; // ULID
+  date: string;
+  mealType: MealType;
+  calories: string; // FHE ciphertext handle
+  protein: string; // FHE ciphertext handle
+  carbs: string; // FHE ciphertext handle
+  fat: string; // FHE ciphertext handle
+  water?: string; // FHE ciphertext handle, ml; only on water entries
+  inputProof?: string; // Proof for all the handles (absent on legacy records)
+  notes: string;
+}
+
+export const isWaterEntry = (record: Pick<NutritionRecord, "mealType">) => record.mealType === "water";
+
+export interface HealthGoal {
+  targetCalories: string; // FHE ciphertext handle
+  targetProtein: string; // FHE ciphertext handle
+  targetCarbs: string; // FHE ciphertext handle
+  targetFat: string; // FHE ciphertext handle
+  inputProof?: string;
+}
+
+export const emptyGoal = (): HealthGoal => ({
+  targetCalories: "",
+  targetProtein: "",
+  targetCarbs: "",
+  targetFat: ""
+});
+
+// Ciphertext fields hold a 0x handle, or an "FHE-" string on records from before real encryption
+const checkCiphertexts = <K extends string>(value: Record<string, unknown>, fields: readonly K[]): string | null => {
+  for (const field of fields) {
+    if (typeof value[field] !== "string") return `${field} must be a ciphertext string`;
+  }
+  return null;
+};
+
+export function validateNutritionRecord(value: unknown): Validation<NutritionRecord> {
+  if (!isRecord(value)) return { ok: false, reason: "not an object" };
+  if (typeof value.id !== "string" || value.id === "") return { ok: false, reason: "id must be a non-empty string" };
+  if (!isIsoDate(value.date)) return { ok: false, reason: "date must be YYYY-MM-DD" };
+  if (!isStorableDate(value.date)) return { ok: false, reason: `date must be from ${FIRST_STORABLE_DATE} to ${LAST_STORABLE_DATE}` };
+  if (!MEAL_TYPES.includes(value.mealType as MealType)) return { ok: false, reason: `unknown meal type ${String(value.mealType)}` };
+  const ciphertextError = checkCiphertexts(value, ["calories", "protein", "carbs", "fat"]);
+  if (ciphertextError) return { ok: false, reason: ciphertextError };
+  if (value.water !== undefined && typeof value.water !== "string") return { ok: false, reason: "water must be a ciphertext string" };
+  if (value.mealType === "water" && value.water === undefined) return { ok: false, reason: "water entries need a water ciphertext" };
+  if (value.inputProof !== undefined && typeof value.inputProof !== "string") return { ok: false, reason: "inputProof must be a string" };
+  if (typeof value.notes !== "string") return { ok: false, reason: "notes must be a string" };
+  return { ok: true, value: value as unknown as NutritionRecord };
+}
+
+export function validateHealthGoal(value: unknown): Validation<HealthGoal> {
+  if (!isRecord(value)) return { ok: false, reason: "not an object" };
+  const ciphertextError = checkCiphertexts(value, ["targetCalories", "targetProtein", "targetCarbs", "targetFat"]);
+  if (ciphertextError) return { ok: false, reason: ciphertextError };
+  if (value.inputProof !== undefined && typeof value.inputProof !== "string") return { ok: false, reason: "inputProof must be a string" };
+  return { ok: true, value: value as unknown as HealthGoal };
+}
+
+// Binary layouts (schema v1). A flags byte says which fields use their compact form:
+//
+//   record: flags | id | date (u16 days since epoch) | meal type (u8) | 4 ciphertexts | water? | proof? | notes
+//   goals:  flags | 4 ciphertexts | proof?
+//
+// ULID ids take 16 bytes, 32-byte handles are stored raw and the proof as bytes; other values
+// (numeric legacy ids, "FHE-" ciphertexts) fall back to length-prefixed text.
+const FLAG_ULID_ID = 0x01;
+const FLAG_HANDLES = 0x02;
+const FLAG_PROOF = 0x04;
+const FLAG_PROOF_TEXT = 0x08;
+const FLAG_WATER = 0x10;
+
+const ciphertextFlags = (values: string[], inputProof: string | undefined) =>
+  (values.every(isHandle) ? FLAG_HANDLES : 0) |
+  (inputProof !== undefined ? FLAG_PROOF : 0) |
+  (inputProof !== undefined && !ethers.isHexString(inputProof) ? FLAG_PROOF_TEXT : 0);
+
+function writeCiphertexts(writer: ByteWriter, flags: number, values: string[], inputProof: string | undefined) {
+  values.forEach(value => (flags & FLAG_HANDLES ? writer.raw(ethers.getBytes(value)) : writer.string(value)));
+  if (inputProof === undefined) return;
+  if (flags & FLAG_PROOF_TEXT) writer.string(inputProof);
+  else writer.bytesField(ethers.getBytes(inputProof));
+}
+
+function readCiphertexts(reader: ByteReader, flags: number, count: number): { values: string[]; inputProof?: string } {
+  const values = Array.from({ length: count }, () => (flags & FLAG_HANDLES ? ethers.hexlify(reader.raw(32)) : reader.string()));
+  if (!(flags & FLAG_PROOF)) return { values };
+  return { values, inputProof: flags & FLAG_PROOF_TEXT ? reader.string() : ethers.hexlify(reader.bytesField()) };
+}
+
+const nutritionRecordCodec: BinaryCodec<NutritionRecord> = {
+  encode(record, writer) {
+    const ciphertexts = [record.calories, record.protein, record.carbs, record.fat];
+    if (record.water !== undefined) ciphertexts.push(record.water);
+    const flags =
+      (isUlid(record.id) ? FLAG_ULID_ID : 0) |
+      (record.water !== undefined ? FLAG_WATER : 0) |
+      ciphertextFlags(ciphertexts, record.inputProof);
+    writer.u8(flags);
+    if (flags & FLAG_ULID_ID) writer.raw(ulidToBytes(record.id));
+    else writer.string(record.id);
+    writer.u16(dateToDays(record.date));
+    writer.u8(MEAL_TYPES.indexOf(record.mealType));
+    writeCiphertexts(writer, flags, ciphertexts, record.inputProof);
+    writer.string(record.notes);
+  },
+  decode(reader) {
+    const flags = reader.u8();
+    const id = flags & FLAG_ULID_ID ? ulidFromBytes(reader.raw(16)) : reader.string();
+    const date = daysToDate(reader.u16());
+    const mealType = MEAL_TYPES[reader.u8()];
+    if (!mealType) throw new Error("unknown meal type");
+    const { values: [calories, protein, carbs, fat, water], inputProof } = readCiphertexts(reader, flags, flags & FLAG_WATER ? 5 : 4);
+    const notes = reader.string();
+    return {
+      id, date, mealType, calories, protein, carbs, fat,
+      ...(water !== undefined && { water }),
+      ...(inputProof !== undefined && { inputProof }),
+      notes
+    };
+  }
+};
+
+const healthGoalCodec: BinaryCodec<HealthGoal> = {
+  encode(goal, writer) {
+    const ciphertexts = [goal.targetCalories, goal.targetProtein, goal.targetCarbs, goal.targetFat];
+    const flags = ciphertextFlags(ciphertexts, goal.inputProof);
+    writer.u8(flags);
+    writeCiphertexts(writer, flags, ciphertexts, goal.inputProof);
+  },
+  decode(reader) {
+    const flags = reader.u8();
+    const { values: [targetCalories, targetProtein, targetCarbs, targetFat], inputProof } = readCiphertexts(reader, flags, 4);
+    return { targetCalories, targetProtein, targetCarbs, targetFat, ...(inputProof !== undefined && { inputProof }) };
+  }
+};
+
+// v0 -> v1: bare arrays from before envelopes used numeric ids and could omit notes
+const recordsV0: Migration = data =>
+  Array.isArray(data)
+    ? data.map(item => isRecord(item)
+        ? { ...item, id: typeof item.id === "number" ? String(item.id) : item.id, notes: item.notes ?? "" }
+        : item)
+    : data;
+
+export const recordListSchema = listSchema("records", 1, [recordsV0], validateNutritionRecord, {
+  1: listCodec(nutritionRecordCodec)
+});
+
+// v0 -> v1: only the envelope changed
+export const goalSchema = objectSchema("goals", 1, [data => data], emptyGoal, validateHealthGoal, {
+  1: healthGoalCodec
+});
+
+// The shared pre-namespacing goals blob is optional, so an absent value stays null
+export const legacyGoalSchema = objectSchema<HealthGoal | null>("legacy goals", 1, [data => data], () => null, validateHealthGoal);
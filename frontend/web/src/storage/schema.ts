@@ -0,0 +1,209 @@
+// schema.ts
+// Versioned envelopes around everything written through UniversalAdapter.setData. A stored
+// document is `{schemaVersion, data}`; bare JSON from before envelopes counts as version 0 and
+// is upgraded through the schema's migration chain before validation. Anything that fails to
+// parse, migrate or validate is quarantined: surfaced to the UI and carried along on the next
+// write instead of being dropped.
+//
+// Schemas with a binary codec for their current version are written as a binary frame (see
+// payload.ts) whose body is `schemaVersion | data | quarantine`; the schema version inside
+// picks the codec on read, so JSON and older binary documents keep loading.
+import { ethers } from "ethers";
+import { BinaryCodec, ByteReader, ByteWriter } from "./binary";
+import { encodeBinaryPayload, encodePayload, readPayload } from "./payload";
+
+export interface QuarantinedEntry {
+  key: string;
+  reason: string;
+  raw: unknown;
+}
+
+interface Envelope {
+  schemaVersion: number;
+  data: unknown;
+  quarantine?: QuarantinedEntry[];
+}
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+// `migrations[n]` upgrades data at version n to version n + 1
+export type Migration = (data: unknown) => unknown;
+
+export interface DocumentSchema<T> {
+  name: string;
+  version: number;
+  migrations: Migration[];
+  // Binary layouts by the schema version they encode. They are typed by the schema's data, so a
+  // layout that no longer matches it stops compiling instead of writing the wrong shape.
+  codecs: Record<number, BinaryCodec<T>>;
+  empty: () => T;
+  // Splits migrated data into the valid value and the entries that have to be quarantined
+  validate(data: unknown, key: string): { value: T; quarantine: QuarantinedEntry[] };
+}
+
+export interface StoredDocument<T> {
+  data: T;
+  quarantine: QuarantinedEntry[];
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Round-trips the date, so days past the end of the month ("2024-02-30") don't pass as the next month
+export const isIsoDate = (value: unknown): value is string => {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !isNaN(time) && new Date(time).toISOString().startsWith(value);
+};
+
+const isEnvelope = (value: unknown): value is Envelope =>
+  isRecord(value) && Number.isInteger(value.schemaVersion) && "data" in value;
+
+const isQuarantinedEntry = (value: unknown): value is QuarantinedEntry =>
+  isRecord(value) && typeof value.key === "string" && typeof value.reason === "string";
+
+// A schema for a single value; an invalid value quarantines the whole document
+export function objectSchema<T>(
+  name: string,
+  version: number,
+  migrations: Migration[],
+  empty: () => T,
+  check: (value: unknown) => Validation<T>,
+  codecs: Record<number, BinaryCodec<T>> = {}
+): DocumentSchema<T> {
+  return {
+    name, version, migrations, codecs, empty,
+    validate(data, key) {
+      const result = check(data);
+      return result.ok
+        ? { value: result.value, quarantine: [] }
+        : { value: empty(), quarantine: [{ key, reason: `${name}: ${result.reason}`, raw: data }] };
+    }
+  };
+}
+
+// A schema for a list; invalid items are quarantined one by one
+export function listSchema<T>(
+  name: string,
+  version: number,
+  migrations: Migration[],
+  check: (value: unknown) => Validation<T>,
+  codecs: Record<number, BinaryCodec<T[]>> = {}
+): DocumentSchema<T[]> {
+  return {
+    name, version, migrations, codecs,
+    empty: () => [],
+    validate(data, key) {
+      if (!Array.isArray(data)) {
+        return { value: [], quarantine: [{ key, reason: `${name}: expected a list`, raw: data }] };
+      }
+      const value: T[] = [];
+      const quarantine: QuarantinedEntry[] = [];
+      data.forEach((item, index) => {
+        const result = check(item);
+        if (result.ok) value.push(result.value);
+        else quarantine.push({ key, reason: `${name}[${index}]: ${result.reason}`, raw: item });
+      });
+      return { value, quarantine };
+    }
+  };
+}
+
+function migrate(schema: DocumentSchema<unknown>, version: number, data: unknown): unknown {
+  let current = data;
+  for (let v = version; v < schema.version; v++) {
+    const step = schema.migrations[v];
+    if (!step) throw new Error(`no migration from version ${v}`);
+    current = step(current);
+  }
+  return current;
+}
+
+// A list of `T` encoded item by item
+export const listCodec = <T>(item: BinaryCodec<T>): BinaryCodec<T[]> => ({
+  encode(values, writer) {
+    writer.varint(values.length);
+    values.forEach(value => item.encode(value, writer));
+  },
+  decode(reader) {
+    return Array.from({ length: reader.varint() }, () => item.decode(reader));
+  }
+});
+
+function decodeBinaryEnvelope(schema: DocumentSchema<unknown>, body: Uint8Array): Envelope {
+  const reader = new ByteReader(body);
+  const schemaVersion = reader.varint();
+  const codec = schema.codecs[schemaVersion];
+  if (!codec) throw new Error(`no binary layout for schema v${schemaVersion}`);
+  const data = codec.decode(reader);
+  const quarantineJson = reader.string();
+  if (!reader.done) throw new Error("trailing bytes");
+  return quarantineJson === ""
+    ? { schemaVersion, data }
+    : { schemaVersion, data, quarantine: JSON.parse(quarantineJson) };
+}
+
+export async function decodeDocument<T>(schema: DocumentSchema<T>, key: string, bytes: ethers.BytesLike): Promise<StoredDocument<T>> {
+  const payload = await readPayload(bytes);
+  if (payload === null) return { data: schema.empty(), quarantine: [] };
+  if (!payload.ok) {
+    return { data: schema.empty(), quarantine: [{ key, reason: payload.reason, raw: payload.raw }] };
+  }
+
+  let envelope: Envelope;
+  if (payload.format === "binary") {
+    try {
+      envelope = decodeBinaryEnvelope(schema as DocumentSchema<unknown>, payload.body);
+    } catch (e: any) {
+      const reason = `${schema.name}: unreadable binary payload (${e.message})`;
+      return { data: schema.empty(), quarantine: [{ key, reason, raw: ethers.hexlify(bytes) }] };
+    }
+  } else {
+    envelope = isEnvelope(payload.value) ? payload.value : { schemaVersion: 0, data: payload.value };
+  }
+  const carried = (Array.isArray(envelope.quarantine) ? envelope.quarantine : []).filter(isQuarantinedEntry);
+
+  if (envelope.schemaVersion > schema.version) {
+    const reason = `${schema.name}: written by a newer app (schema v${envelope.schemaVersion})`;
+    return { data: schema.empty(), quarantine: [...carried, { key, reason, raw: ethers.hexlify(bytes) }] };
+  }
+
+  let migrated: unknown;
+  try {
+    migrated = migrate(schema as DocumentSchema<unknown>, envelope.schemaVersion, envelope.data);
+  } catch (e: any) {
+    const reason = `${schema.name}: migration from v${envelope.schemaVersion} failed (${e.message})`;
+    return { data: schema.empty(), quarantine: [...carried, { key, reason, raw: envelope.data }] };
+  }
+
+  const { value, quarantine } = schema.validate(migrated, key);
+  return { data: value, quarantine: [...carried, ...quarantine] };
+}
+
+export interface EncodeOptions {
+  format?: "json" | "binary"; // binary falls back to JSON for schemas without a binary layout
+  compress?: boolean;
+}
+
+// Always writes the current version; quarantined entries ride along so a rewrite keeps them
+export async function encodeDocument<T>(
+  schema: DocumentSchema<T>,
+  data: T,
+  quarantine: QuarantinedEntry[] = [],
+  { format = "binary", compress = true }: EncodeOptions = {}
+): Promise<Uint8Array> {
+  const codec: BinaryCodec<T> | undefined = schema.codecs[schema.version];
+  if (format === "json" || !codec) {
+    const envelope: Envelope = { schemaVersion: schema.version, data };
+    if (quarantine.length > 0) envelope.quarantine = quarantine;
+    return encodePayload(envelope);
+  }
+
+  const writer = new ByteWriter();
+  writer.varint(schema.version);
+  codec.encode(data, writer);
+  writer.string(quarantine.length > 0 ? JSON.stringify(quarantine) : "");
+  return encodeBinaryPayload(writer.finish(), compress);
+}
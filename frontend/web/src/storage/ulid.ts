@@ -0,0 +1,66 @@
+// ulid.ts
+// Lexicographically sortable, collision-free ids (https://github.com/ulid/spec)
+const ENCODING = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+const encodeTime = (time: number) => {
+  let out = "";
+  for (let i = 0; i < TIME_LENGTH; i++) {
+    out = ENCODING[time % 32] + out;
+    time = Math.floor(time / 32);
+  }
+  return out;
+};
+
+const randomDigits = () => Array.from(crypto.getRandomValues(new Uint8Array(RANDOM_LENGTH)), byte => byte % 32);
+
+// Ids minted within the same millisecond increment the random part, so they stay ordered
+const incrementDigits = (digits: number[]) => {
+  const next = [...digits];
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i] < 31) {
+      next[i]++;
+      return next;
+    }
+    next[i] = 0;
+  }
+  throw new Error("ULID random component overflow");
+};
+
+export function ulid(now = Date.now()): string {
+  lastRandom = now === lastTime ? incrementDigits(lastRandom) : randomDigits();
+  lastTime = now;
+  return encodeTime(now) + lastRandom.map(digit => ENCODING[digit]).join("");
+}
+
+const ULID_PATTERN = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/;
+
+export const isUlid = (value: string) => ULID_PATTERN.test(value);
+
+// The 26 characters carry 128 bits, stored as 16 bytes by the binary codec
+export function ulidToBytes(id: string): Uint8Array {
+  if (!isUlid(id)) throw new Error(`${id} is not a ULID`);
+  let value = 0n;
+  for (const char of id) value = value * 32n + BigInt(ENCODING.indexOf(char));
+  const bytes = new Uint8Array(16);
+  for (let i = 15; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+export function ulidFromBytes(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+  let out = "";
+  for (let i = 0; i < TIME_LENGTH + RANDOM_LENGTH; i++) {
+    out = ENCODING[Number(value & 31n)] + out;
+    value >>= 5n;
+  }
+  return out;
+}
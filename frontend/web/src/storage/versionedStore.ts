@@ -0,0 +1,79 @@
+// versionedStore.ts
+// Optimistic concurrency for UniversalAdapter writes. The contract has no compare-and-set, so
+// a write first checks that the key still holds the version the caller read, identified by the
+// hash of its bytes and annotated with the DataStored event that produced it.
+import { ethers } from "ethers";
+import type { UniversalAdapter } from "@contracts/contracts/UniversalAdapter";
+import type { DataStore } from "./recordLog";
+
+export interface StoreVersion {
+  hash: string; // keccak256 of the stored bytes
+  blockNumber: number | null; // block of the DataStored event that wrote them, null when it wasn't found
+  txHash: string | null;
+}
+
+export interface StoredWrite {
+  value: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+// Finds the latest DataStored event for a key
+export type WriteLookup = (key: string) => Promise<StoredWrite | null>;
+
+export class WriteConflictError extends Error {
+  constructor(readonly key: string, readonly expected: string, readonly actual: StoreVersion) {
+    super(`Data under "${key}" changed since it was read`);
+    this.name = "WriteConflictError";
+  }
+}
+
+export const versionOf = (bytes: ethers.BytesLike) => ethers.keccak256(bytes);
+
+// Public RPCs cap log ranges, so the writing event is searched for a page of blocks at a time,
+// newest first. Without the adapter's deployment block only the recent pages are searched.
+const LOOKUP_PAGE_BLOCKS = 10000;
+const DEFAULT_LOOKBACK_BLOCKS = 50000;
+
+export function dataStoredLookup(contract: UniversalAdapter, owner: string, fromBlock?: number): WriteLookup {
+  return async key => {
+    const provider = contract.runner?.provider;
+    if (!provider) return null;
+    const latest = await provider.getBlockNumber();
+    const first = fromBlock ?? Math.max(0, latest - DEFAULT_LOOKBACK_BLOCKS + 1);
+    for (let end = latest; end >= first; end -= LOOKUP_PAGE_BLOCKS) {
+      const logs = await contract.queryFilter(contract.filters.DataStored(owner), Math.max(first, end - LOOKUP_PAGE_BLOCKS + 1), end);
+      for (let i = logs.length - 1; i >= 0; i--) {
+        const log = logs[i];
+        if ("args" in log && log.args.key === key) {
+          return { value: log.args.value, blockNumber: log.blockNumber, txHash: log.transactionHash };
+        }
+      }
+    }
+    return null;
+  };
+}
+
+export class VersionedStore {
+  constructor(private readonly store: DataStore, private readonly lookup: WriteLookup) {}
+
+  async read(key: string): Promise<{ value: string; version: string }> {
+    const value = await this.store.getData(key);
+    return { value, version: versionOf(value) };
+  }
+
+  async latestVersion(key: string): Promise<StoreVersion> {
+    const [value, event] = await Promise.all([this.store.getData(key), this.lookup(key).catch(() => null)]);
+    const hash = versionOf(value);
+    const matches = event !== null && versionOf(event.value) === hash;
+    return { hash, blockNumber: matches ? event.blockNumber : null, txHash: matches ? event.txHash : null };
+  }
+
+  // Rejects with WriteConflictError when the key moved past `expectedVersion`. The writing event is
+  // only looked up for the conflict, as paging back to it can take many requests.
+  async write(key: string, value: Uint8Array, expectedVersion: string) {
+    const { version } = await this.read(key);
+    if (version !== expectedVersion) throw new WriteConflictError(key, expectedVersion, await this.latestVersion(key));
+    return this.store.setData(key, value);
+  }
+}
@@ -0,0 +1,165 @@
+// transactionManager.ts
+// Follows transactions from submission to confirmation. Pending transactions are persisted, so
+// a reload resumes watching them instead of forgetting that a write is still in flight.
+import { ethers } from "ethers";
+
+export type TransactionStatus = "submitted" | "mined" | "confirmed" | "replaced" | "failed";
+
+export interface TrackedTransaction {
+  hash: string;
+  label: string;
+  from: string;
+  chainId: number;
+  nonce: number;
+  startBlock: number; // block number at submission, needed to detect replacements
+  submittedAt: number;
+  status: TransactionStatus;
+  blockNumber?: number;
+  confirmations: number;
+  replacedBy?: string;
+  replaceReason?: "repriced" | "cancelled" | "replaced";
+  error?: string;
+}
+
+type Listener = (transactions: TrackedTransaction[]) => void;
+type TransactionStorage = Pick<Storage, "getItem" | "setItem">;
+
+const STORAGE_KEY = "nutrition-ai:transactions";
+const DEFAULT_CONFIRMATIONS = 2;
+// Finished transactions beyond this many are forgotten
+const MAX_FINISHED = 20;
+
+export const isPending = (tx: TrackedTransaction) => tx.status === "submitted" || tx.status === "mined";
+
+export class TransactionManager {
+  private transactions: TrackedTransaction[];
+  private readonly listeners = new Set<Listener>();
+
+  constructor(
+    private readonly getProvider: () => Promise<ethers.Provider>,
+    private readonly confirmations = DEFAULT_CONFIRMATIONS,
+    private readonly storage: TransactionStorage = window.localStorage
+  ) {
+    this.transactions = this.load();
+  }
+
+  private load(): TrackedTransaction[] {
+    try {
+      const stored = JSON.parse(this.storage.getItem(STORAGE_KEY) ?? "[]");
+      return Array.isArray(stored) ? stored : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private update(hash: string, changes: Partial<TrackedTransaction>) {
+    this.transactions = this.transactions.map(tx => (tx.hash === hash ? { ...tx, ...changes } : tx));
+    this.commit();
+  }
+
+  private commit() {
+    const finished = this.transactions.filter(tx => !isPending(tx)).slice(0, MAX_FINISHED);
+    this.transactions = this.transactions.filter(tx => isPending(tx) || finished.includes(tx));
+    this.storage.setItem(STORAGE_KEY, JSON.stringify(this.transactions));
+    this.listeners.forEach(listener => listener(this.transactions));
+  }
+
+  // Newest first; the array is replaced on every change
+  list(): TrackedTransaction[] {
+    return this.transactions;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Records a just-sent transaction and resolves with its receipt once mined. Rejects when it
+  // reverts or is replaced by a different transaction; a same-call speed-up resolves with the
+  // replacement's receipt.
+  async track(response: ethers.TransactionResponse, label: string): Promise<ethers.TransactionReceipt> {
+    const provider = response.provider;
+    const startBlock = (await provider.getBlockNumber()) - 1;
+    const network = await provider.getNetwork();
+    this.transactions = [{
+      hash: response.hash,
+      label,
+      from: response.from.toLowerCase(),
+      chainId: Number(network.chainId),
+      nonce: response.nonce,
+      startBlock,
+      submittedAt: Math.floor(Date.now() / 1000),
+      status: "submitted",
+      confirmations: 0
+    }, ...this.transactions.filter(tx => tx.hash !== response.hash)];
+    this.commit();
+    return this.follow(response.replaceableTransaction(startBlock));
+  }
+
+  // Picks up transactions that were still pending when the page was closed
+  async resume(): Promise<void> {
+    const pending = this.transactions.filter(isPending);
+    if (pending.length === 0) return;
+    const provider = await this.getProvider();
+    const chainId = Number((await provider.getNetwork()).chainId);
+    await Promise.all(pending.filter(tx => tx.chainId === chainId).map(async tx => {
+      try {
+        const response = await provider.getTransaction(tx.hash);
+        if (response) {
+          await this.follow(response.replaceableTransaction(tx.startBlock));
+          return;
+        }
+        // Unknown to the node: either its nonce was used by another transaction or it was dropped
+        const nonce = await provider.getTransactionCount(tx.from, "latest");
+        this.update(tx.hash, nonce > tx.nonce
+          ? { status: "replaced", replaceReason: "replaced" }
+          : { status: "failed", error: "Dropped from the mempool" });
+      } catch (e) {
+        // Failures are already recorded on the entry by follow()
+      }
+    }));
+  }
+
+  // Removes finished transactions from the list
+  clearFinished() {
+    this.transactions = this.transactions.filter(isPending);
+    this.commit();
+  }
+
+  private async follow(response: ethers.TransactionResponse): Promise<ethers.TransactionReceipt> {
+    const { hash } = response;
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await response.wait(1);
+    } catch (e: any) {
+      if (ethers.isError(e, "TRANSACTION_REPLACED")) {
+        this.update(hash, { status: "replaced", replacedBy: e.replacement.hash, replaceReason: e.reason });
+        if (e.reason === "repriced" && e.receipt.status === 1) return e.receipt;
+        throw new Error(`Transaction was ${e.reason === "cancelled" ? "cancelled" : "replaced"} in the wallet`);
+      }
+      const error = ethers.isError(e, "CALL_EXCEPTION") ? "Transaction reverted" : e.shortMessage || e.message || "Unknown error";
+      this.update(hash, { status: "failed", error, blockNumber: e.receipt?.blockNumber });
+      throw new Error(error);
+    }
+    if (!receipt) throw new Error("Transaction receipt is missing");
+
+    this.update(hash, { status: "mined", blockNumber: receipt.blockNumber, confirmations: 1 });
+    this.confirm(response, receipt);
+    return receipt;
+  }
+
+  private async confirm(response: ethers.TransactionResponse, receipt: ethers.TransactionReceipt) {
+    try {
+      await response.wait(this.confirmations);
+      this.update(response.hash, { status: "confirmed", confirmations: this.confirmations });
+    } catch (e: any) {
+      // A reorg can drop or replace a transaction after its first receipt
+      this.update(response.hash, {
+        status: "failed",
+        error: `Lost after block ${receipt.blockNumber}: ${e.shortMessage || e.message || "unknown error"}`
+      });
+    }
+  }
+}
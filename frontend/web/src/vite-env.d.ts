@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DEFAULT_CHAIN_ID?: string;
+  readonly VITE_CUSTOM_CHAINS?: string;
+  // VITE_<KEY>_RPC_URLS, VITE_<KEY>_UNIVERSAL_ADAPTER(_BLOCK) and VITE_<KEY>_NUTRITION_AI(_BLOCK) are read per
+  // chain, see chains.ts
+}
@@ -1,8 +1,20 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
+import path from "path";
+
+// Typechain output of the hardhat project; keep in sync with `paths` in tsconfig.json
+const contractTypes = path.resolve(__dirname, "../../types");
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: { "@contracts": contractTypes },
+    // The generated bindings import ethers from outside this package
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: { allow: [searchForWorkspaceRoot(process.cwd()), contractTypes] }
+  },
   define: {
     'process.env': process.env
   },
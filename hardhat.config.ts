@@ -3,6 +3,9 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/analysisParams";
+import "./tasks/ownership";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
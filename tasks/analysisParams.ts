@@ -0,0 +1,67 @@
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import {
+  ANALYSIS_PARAM_FIELDS,
+  AnalysisParams,
+  diffAnalysisParams,
+  validateAnalysisParams,
+} from "../frontend/web/src/sdk/analysisModel";
+import { readAnalysisParams } from "../frontend/web/src/sdk/nutritionAI";
+import { nutritionAI, ownerAction } from "./nutritionAI";
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:analysis-params
+ */
+task("task:analysis-params", "Prints the NutritionAIFHE analysis parameters")
+  .addOptionalParam("address", "Optionally specify the NutritionAIFHE address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await nutritionAI(hre, taskArguments.address);
+    console.log(`NutritionAIFHE: ${await contract.getAddress()}`);
+    console.table(await readAnalysisParams(contract));
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:set-analysis-params --bmr 1600 --fat-percent 30 --dry-run
+ *   - npx hardhat --network sepolia task:set-analysis-params --bmr 1600 --fat-percent 30
+ */
+const setParams = task(
+  "task:set-analysis-params",
+  "Shows how the given NutritionAIFHE analysis parameters differ from the current ones and sets them (owner only, timelocked)",
+)
+  .addOptionalParam("address", "Optionally specify the NutritionAIFHE address")
+  .addFlag("dryRun", "Only print the diff, don't send a transaction");
+ANALYSIS_PARAM_FIELDS.forEach((field) =>
+  setParams.addOptionalParam(
+    field,
+    `New ${field}, unchanged if omitted`,
+    undefined,
+    types.int,
+  ),
+);
+setParams.setAction(async function (taskArguments: TaskArguments, hre) {
+  const contract = await nutritionAI(hre, taskArguments.address);
+  const current = await readAnalysisParams(contract);
+  const next: AnalysisParams = { ...current };
+  ANALYSIS_PARAM_FIELDS.forEach((field) => {
+    if (taskArguments[field] !== undefined) next[field] = taskArguments[field];
+  });
+
+  const changes = diffAnalysisParams(current, next);
+  if (changes.length === 0) {
+    console.log("Nothing to change");
+    return;
+  }
+  console.table(changes);
+
+  const problems = validateAnalysisParams(next);
+  if (problems.length > 0) {
+    throw new Error(`Invalid analysis parameters:\n  ${problems.join("\n  ")}`);
+  }
+  if (taskArguments.dryRun) return;
+
+  const [signer] = await hre.ethers.getSigners();
+  await ownerAction(contract.connect(signer), "setAnalysisParams", [next]);
+});
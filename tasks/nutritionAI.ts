@@ -0,0 +1,92 @@
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ContractTransactionResponse } from "ethers";
+
+import type { NutritionAIFHE } from "../types";
+import {
+  encodeOwnerAction,
+  sendOwnerAction,
+  timelockState,
+  TimelockedFunction,
+} from "../frontend/web/src/sdk/contractAdmin";
+
+const FRONTEND_CONFIG = path.join(
+  __dirname,
+  "..",
+  "frontend",
+  "web",
+  "src",
+  "config.json",
+);
+
+// The frontend's config.json entry for the current chain
+async function deployment(
+  hre: HardhatRuntimeEnvironment,
+): Promise<{ nutritionAI?: string; nutritionAIBlock?: number }> {
+  if (!fs.existsSync(FRONTEND_CONFIG)) return {};
+  const chainId = (await hre.ethers.provider.getNetwork()).chainId;
+  const config = JSON.parse(fs.readFileSync(FRONTEND_CONFIG, "utf-8"));
+  return config.deployments?.[chainId.toString()] ?? {};
+}
+
+// --address, or the deployment the frontend is configured with for this chain
+export async function nutritionAI(
+  hre: HardhatRuntimeEnvironment,
+  address?: string,
+): Promise<NutritionAIFHE> {
+  const target = address ?? (await deployment(hre)).nutritionAI;
+  if (!target) {
+    throw new Error(
+      `No NutritionAIFHE address for network ${hre.network.name}; pass --address`,
+    );
+  }
+  return (await hre.ethers.getContractAt(
+    "NutritionAIFHE",
+    target,
+  )) as unknown as NutritionAIFHE;
+}
+
+// Where the contract's event history starts: its deployment block when config.json records one
+// for this address, otherwise the genesis block
+export async function historyStart(
+  hre: HardhatRuntimeEnvironment,
+  contract: NutritionAIFHE,
+): Promise<number> {
+  const { nutritionAI: configured, nutritionAIBlock } = await deployment(hre);
+  const address = await contract.getAddress();
+  return configured?.toLowerCase() === address.toLowerCase()
+    ? (nutritionAIBlock ?? 0)
+    : 0;
+}
+
+export async function mined(tx: ContractTransactionResponse) {
+  console.log(`Wait for tx:${tx.hash}...`);
+  const receipt = await tx.wait();
+  console.log(`tx:${tx.hash} status=${receipt?.status}`);
+}
+
+// Runs a timelocked call, scheduling it first when the timelock asks for that
+export async function ownerAction(
+  contract: NutritionAIFHE,
+  name: TimelockedFunction,
+  args: unknown[],
+) {
+  const state = await timelockState(
+    contract,
+    encodeOwnerAction(contract, name, args),
+  );
+  if (state.kind === "waiting") {
+    throw new Error(
+      `${name} is scheduled and can be executed from ${new Date(state.readyAt * 1000).toISOString()}`,
+    );
+  }
+  const { scheduled, tx } = await sendOwnerAction(contract, name, args);
+  await mined(tx);
+  if (scheduled) {
+    const delay = Number(await contract.timelockDelay());
+    console.log(
+      `${name} scheduled; run the same task again in ${delay}s to execute it`,
+    );
+  }
+}
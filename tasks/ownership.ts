@@ -0,0 +1,136 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import type { NutritionAIFHE } from "../types";
+import { getScheduledActions } from "../frontend/web/src/sdk/contractAdmin";
+import { historyStart, mined, nutritionAI, ownerAction } from "./nutritionAI";
+
+// The contract connected to the --account signer
+async function connected(
+  hre: HardhatRuntimeEnvironment,
+  taskArguments: TaskArguments,
+): Promise<NutritionAIFHE> {
+  const contract = await nutritionAI(hre, taskArguments.address);
+  const signers = await hre.ethers.getSigners();
+  const signer = signers[taskArguments.account];
+  if (!signer) {
+    throw new Error(
+      `No account ${taskArguments.account}; ${signers.length} configured`,
+    );
+  }
+  return contract.connect(signer);
+}
+
+const ownershipTask = (name: string, description: string) =>
+  task(name, description)
+    .addOptionalParam(
+      "address",
+      "Optionally specify the NutritionAIFHE address",
+    )
+    .addOptionalParam(
+      "account",
+      "Index of the signer to send from",
+      0,
+      types.int,
+    );
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:ownership
+ */
+ownershipTask(
+  "task:ownership",
+  "Prints the NutritionAIFHE owner, pending owner, timelock delay and scheduled changes",
+).setAction(async function (taskArguments: TaskArguments, hre) {
+  const contract = await nutritionAI(hre, taskArguments.address);
+  console.log(`NutritionAIFHE: ${await contract.getAddress()}`);
+  console.log(`Owner:          ${await contract.owner()}`);
+  console.log(`Pending owner:  ${await contract.pendingOwner()}`);
+  console.log(`Timelock delay: ${await contract.timelockDelay()}s`);
+  const scheduled = await getScheduledActions(
+    contract,
+    await historyStart(hre, contract),
+  );
+  if (scheduled.length > 0) {
+    console.table(
+      scheduled.map((action) => ({
+        call: `${action.name}(${action.args.join(", ")})`,
+        readyAt: new Date(action.readyAt * 1000).toISOString(),
+        actionId: action.actionId,
+      })),
+    );
+  }
+});
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:propose-ownership --new-owner 0x...
+ */
+ownershipTask(
+  "task:propose-ownership",
+  "Proposes a new NutritionAIFHE owner, who then has to accept (owner only, timelocked)",
+)
+  .addParam("newOwner", "Address to hand ownership to")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await connected(hre, taskArguments);
+    await ownerAction(contract, "proposeOwnership", [
+      hre.ethers.getAddress(taskArguments.newOwner),
+    ]);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:accept-ownership --account 1
+ */
+ownershipTask(
+  "task:accept-ownership",
+  "Accepts the pending NutritionAIFHE ownership proposal (proposed owner only)",
+).setAction(async function (taskArguments: TaskArguments, hre) {
+  const contract = await connected(hre, taskArguments);
+  await mined(await contract.acceptOwnership());
+});
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:cancel-ownership
+ */
+ownershipTask(
+  "task:cancel-ownership",
+  "Withdraws the pending NutritionAIFHE ownership proposal (owner only)",
+).setAction(async function (taskArguments: TaskArguments, hre) {
+  const contract = await connected(hre, taskArguments);
+  await mined(await contract.cancelOwnershipProposal());
+});
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:set-timelock-delay --seconds 86400
+ */
+ownershipTask(
+  "task:set-timelock-delay",
+  "Sets how long NutritionAIFHE owner changes wait after being scheduled, 0 to turn it off (owner only, timelocked)",
+)
+  .addParam("seconds", "Delay in seconds", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await connected(hre, taskArguments);
+    await ownerAction(contract, "setTimelockDelay", [
+      BigInt(taskArguments.seconds),
+    ]);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:cancel-action --action-id 0x...
+ */
+ownershipTask(
+  "task:cancel-action",
+  "Cancels a scheduled NutritionAIFHE change (owner only)",
+)
+  .addParam(
+    "actionId",
+    "Id of the scheduled change, as printed by task:ownership",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const contract = await connected(hre, taskArguments);
+    await mined(await contract.cancelAction(taskArguments.actionId));
+  });
@@ -0,0 +1,79 @@
+import { expect } from "chai";
+
+import {
+  ALLERGEN_IDS,
+  ALLERGENS,
+  decodeAllergens,
+  encodeAllergens,
+  findAllergens,
+  UNKNOWN_ALLERGEN_BITS,
+} from "../frontend/web/src/sdk/allergens";
+
+describe("Allergen registry", function () {
+  it("gives every allergen a bit of its own", function () {
+    const bits = ALLERGEN_IDS.map((id) => ALLERGENS[id].bit);
+    expect(new Set(bits).size).to.equal(bits.length);
+    bits.forEach((bit) => expect(bit).to.be.within(0, 31));
+  });
+
+  it("round-trips masks", function () {
+    expect(encodeAllergens([])).to.equal(0);
+    expect(encodeAllergens(["peanut", "dairy", "sesame"])).to.equal(
+      0b1_0000_1001,
+    );
+    expect(decodeAllergens(0b1_0000_1001)).to.deep.equal([
+      "peanut",
+      "dairy",
+      "sesame",
+    ]);
+    expect(decodeAllergens(encodeAllergens(ALLERGEN_IDS))).to.deep.equal(
+      ALLERGEN_IDS,
+    );
+  });
+
+  it("ignores bits no allergen owns", function () {
+    expect(UNKNOWN_ALLERGEN_BITS & encodeAllergens(ALLERGEN_IDS)).to.equal(0);
+    expect(decodeAllergens(UNKNOWN_ALLERGEN_BITS)).to.deep.equal([]);
+    expect(decodeAllergens(0xffffffff)).to.deep.equal(ALLERGEN_IDS);
+  });
+
+  it("rejects what can't be a mask or an allergen", function () {
+    expect(() => decodeAllergens(-1)).to.throw(RangeError);
+    expect(() => decodeAllergens(2 ** 32)).to.throw(RangeError);
+    expect(() => decodeAllergens(1.5)).to.throw(RangeError);
+    expect(() => encodeAllergens(["kiwi" as never])).to.throw(RangeError);
+  });
+
+  describe("findAllergens", function () {
+    const mask = encodeAllergens(["peanut", "gluten", "shellfish"]);
+
+    it("reports flagged allergens mentioned in the notes", function () {
+      expect(
+        findAllergens("Pad thai with Prawns and crushed peanuts", mask),
+      ).to.deep.equal([
+        { allergen: "peanut", keywords: ["peanut"] },
+        { allergen: "shellfish", keywords: ["prawn"] },
+      ]);
+      expect(findAllergens("Toast: bread, wheat flour", mask)).to.deep.equal([
+        { allergen: "gluten", keywords: ["wheat", "bread", "flour"] },
+      ]);
+    });
+
+    it("ignores allergens that aren't flagged", function () {
+      expect(findAllergens("Cheese omelette", mask)).to.deep.equal([]);
+      expect(findAllergens("Cheese omelette", 0)).to.deep.equal([]);
+    });
+
+    it("matches whole words only", function () {
+      expect(
+        findAllergens("Codfish", encodeAllergens(["fish"])),
+      ).to.deep.equal([]);
+      expect(
+        findAllergens("Cabbage and eggplant", encodeAllergens(["egg"])),
+      ).to.deep.equal([]);
+      expect(
+        findAllergens("Two boiled eggs", encodeAllergens(["egg"])),
+      ).to.deep.equal([{ allergen: "egg", keywords: ["egg"] }]);
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+import { NutritionAIFHE, NutritionAIFHE__factory } from "../types";
+import { UINT32_MAX } from "../frontend/web/src/fhe/backend";
+import {
+  AnalysisInput,
+  computeAnalysis,
+  estimateBmr,
+  HEALTH_GOALS,
+  SEX,
+} from "../frontend/web/src/sdk/analysisModel";
+import { NutritionAIClient } from "../frontend/web/src/sdk/nutritionAI";
+import { fhevmBackend } from "./helpers/fhevmBackend";
+
+const COOLDOWN = 60;
+const RANDOM_CASES = 24;
+// Set MODEL_SEED to replay a failing run
+const SEED = Number(process.env.MODEL_SEED ?? 0x5eed);
+
+// mulberry32: small, seedable and good enough to spread inputs
+function random(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+// Mostly realistic inputs, with a share of arbitrary uint32 values to exercise wraparound
+function randomInput(next: () => number): AnalysisInput {
+  const int = (max: number) => Math.floor(next() * (max + 1));
+  const pick = (realistic: number) =>
+    next() < 0.75 ? int(realistic) : int(UINT32_MAX);
+  return {
+    dailyCalories: pick(6000),
+    activityLevel: pick(6),
+    healthGoal: pick(4),
+    weightKg: next() < 0.3 ? 0 : pick(200),
+    heightCm: next() < 0.3 ? 0 : pick(220),
+    ageYears: pick(100),
+    sex: pick(3),
+  };
+}
+
+// No body metrics: the analysis falls back to the configured bmr and protein share
+const NO_BODY = { weightKg: 0, heightCm: 0, ageYears: 0, sex: SEX.unspecified };
+
+// tdee is 4 once activity * 50 + 1500 wraps, so taking 500 off wraps back around
+const WRAPPING_ACTIVITY = Math.ceil((2 ** 32 - 1500) / 50);
+
+const EDGE_CASES: AnalysisInput[] = [
+  { ...NO_BODY, dailyCalories: 0, activityLevel: 0, healthGoal: 0 },
+  { ...NO_BODY, dailyCalories: 1650, activityLevel: 3, healthGoal: HEALTH_GOALS.maintain },
+  { ...NO_BODY, dailyCalories: 1669, activityLevel: 3, healthGoal: HEALTH_GOALS.maintain },
+  { ...NO_BODY, dailyCalories: 1670, activityLevel: 3, healthGoal: HEALTH_GOALS.maintain },
+  { ...NO_BODY, dailyCalories: 3650, activityLevel: 3, healthGoal: HEALTH_GOALS.maintain },
+  {
+    ...NO_BODY,
+    dailyCalories: 1400,
+    activityLevel: 5,
+    healthGoal: HEALTH_GOALS.loseWeight,
+  },
+  {
+    ...NO_BODY,
+    dailyCalories: 2500,
+    activityLevel: 1,
+    healthGoal: HEALTH_GOALS.gainMuscle,
+  },
+  {
+    ...NO_BODY,
+    dailyCalories: UINT32_MAX,
+    activityLevel: UINT32_MAX,
+    healthGoal: UINT32_MAX,
+  },
+  {
+    ...NO_BODY,
+    dailyCalories: 0,
+    activityLevel: WRAPPING_ACTIVITY,
+    healthGoal: HEALTH_GOALS.loseWeight,
+  },
+  {
+    ...NO_BODY,
+    dailyCalories: UINT32_MAX,
+    activityLevel: WRAPPING_ACTIVITY,
+    healthGoal: HEALTH_GOALS.gainMuscle,
+  },
+  {
+    dailyCalories: 2100,
+    activityLevel: 3,
+    healthGoal: HEALTH_GOALS.maintain,
+    weightKg: 80,
+    heightCm: 180,
+    ageYears: 30,
+    sex: SEX.male,
+  },
+  {
+    dailyCalories: 1800,
+    activityLevel: 2,
+    healthGoal: HEALTH_GOALS.loseWeight,
+    weightKg: 65,
+    heightCm: 165,
+    ageYears: 45,
+    sex: SEX.female,
+  },
+  // Mifflin-St Jeor floors at 0 and carbs are squeezed out by a heavy protein target
+  {
+    dailyCalories: 500,
+    activityLevel: 0,
+    healthGoal: HEALTH_GOALS.maintain,
+    weightKg: 150,
+    heightCm: 1,
+    ageYears: 100,
+    sex: SEX.unspecified,
+  },
+  // Weight without height keeps the fallback bmr but still sets protein by weight
+  {
+    dailyCalories: 2000,
+    activityLevel: 2,
+    healthGoal: HEALTH_GOALS.gainMuscle,
+    weightKg: 70,
+    heightCm: 0,
+    ageYears: 25,
+    sex: SEX.female,
+  },
+];
+
+describe("Analysis reference model", function () {
+  describe("computeAnalysis", function () {
+    it("derives targets from activity and goal", function () {
+      expect(
+        computeAnalysis({
+          ...NO_BODY,
+          dailyCalories: 2100,
+          activityLevel: 3,
+          healthGoal: HEALTH_GOALS.maintain,
+        }),
+      ).to.deep.equal({
+        calorieTarget: 1650,
+        proteinTarget: 123,
+        carbTarget: 188,
+        fatTarget: 45,
+        waterTarget: 2500,
+        score: 78,
+      });
+      expect(
+        computeAnalysis({
+          ...NO_BODY,
+          dailyCalories: 1150,
+          activityLevel: 3,
+          healthGoal: HEALTH_GOALS.loseWeight,
+        }).calorieTarget,
+      ).to.equal(1150);
+      expect(
+        computeAnalysis({
+          ...NO_BODY,
+          dailyCalories: 2150,
+          activityLevel: 3,
+          healthGoal: HEALTH_GOALS.gainMuscle,
+        }).calorieTarget,
+      ).to.equal(2150);
+    });
+
+    it("personalizes the bmr and protein from body metrics", function () {
+      expect(
+        computeAnalysis({
+          dailyCalories: 2100,
+          activityLevel: 3,
+          healthGoal: HEALTH_GOALS.maintain,
+          weightKg: 80,
+          heightCm: 180,
+          ageYears: 30,
+          sex: SEX.male,
+        }),
+      ).to.deep.equal({
+        calorieTarget: 1930,
+        proteinTarget: 128,
+        carbTarget: 235,
+        fatTarget: 53,
+        waterTarget: 2500,
+        score: 92,
+      });
+    });
+
+    it("estimates the bmr with Mifflin-St Jeor", function () {
+      const body = { weightKg: 60, heightCm: 170, ageYears: 40 };
+      expect(estimateBmr({ ...body, sex: SEX.male }, 1500)).to.equal(1467);
+      expect(estimateBmr({ ...body, sex: SEX.female }, 1500)).to.equal(1301);
+      expect(estimateBmr({ ...body, sex: SEX.unspecified }, 1500)).to.equal(
+        1384,
+      );
+      expect(estimateBmr({ ...body, heightCm: 0, sex: 1 }, 1500)).to.equal(
+        1500,
+      );
+      expect(
+        estimateBmr({ weightKg: 1, heightCm: 1, ageYears: 90, sex: 2 }, 1500),
+      ).to.equal(0);
+    });
+
+    it("floors the score at zero", function () {
+      expect(
+        computeAnalysis({
+          ...NO_BODY,
+          dailyCalories: 0,
+          activityLevel: 5,
+          healthGoal: 2,
+        })
+          .score,
+      ).to.equal(0);
+    });
+
+    it("wraps like euint32 arithmetic", function () {
+      const result = computeAnalysis({
+        ...NO_BODY,
+        dailyCalories: 0,
+        activityLevel: WRAPPING_ACTIVITY,
+        healthGoal: HEALTH_GOALS.loseWeight,
+      });
+      expect(result.calorieTarget).to.equal(2 ** 32 - 496);
+      expect(result.proteinTarget).to.be.lessThan(2 ** 30);
+    });
+
+    it("rejects inputs the contract could not receive", function () {
+      expect(() =>
+        computeAnalysis({
+          ...NO_BODY,
+          dailyCalories: -1,
+          activityLevel: 1,
+          healthGoal: 1,
+        }),
+      ).to.throw(RangeError);
+      expect(() =>
+        computeAnalysis({
+          ...NO_BODY,
+          dailyCalories: 2 ** 32,
+          activityLevel: 1,
+          healthGoal: 1,
+        }),
+      ).to.throw(RangeError);
+    });
+  });
+
+  describe(`matches NutritionAIFHE on the FHEVM mock (seed ${SEED})`, function () {
+    let contract: NutritionAIFHE;
+    let client: NutritionAIClient;
+
+    before(async function () {
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+      const [owner] = await ethers.getSigners();
+      contract = await new NutritionAIFHE__factory(owner).deploy();
+      await contract.waitForDeployment();
+      client = new NutritionAIClient(contract, fhevmBackend);
+    });
+
+    // Each case gets a batch of its own, since a batch is analysed once
+    async function analyseOnChain(input: AnalysisInput) {
+      await time.increase(COOLDOWN);
+      const batchId = await client.openBatch();
+      await client.submitUserData({
+        ...input,
+        proteinGrams: 0,
+        carbGrams: 0,
+        fatGrams: 0,
+        waterIntakeMl: 0,
+        allergyFlags: 0,
+      });
+      await client.closeBatch();
+      const request = await client.requestAnalysis(batchId);
+      await fhevm.awaitDecryptionOracle();
+      const { result } = await client.waitForAnalysis(request.requestId, {
+        fromBlock: request.blockNumber,
+        timeoutMs: 0,
+      });
+      return result;
+    }
+
+    EDGE_CASES.forEach((input) => {
+      it(`agrees on ${JSON.stringify(input)}`, async function () {
+        expect(await analyseOnChain(input)).to.deep.equal(
+          computeAnalysis(input),
+        );
+      });
+    });
+
+    it(`agrees on ${RANDOM_CASES} random inputs`, async function () {
+      const next = random(SEED);
+      for (let i = 0; i < RANDOM_CASES; i++) {
+        const input = randomInput(next);
+        expect(
+          await analyseOnChain(input),
+          `case ${i}: ${JSON.stringify(input)}`,
+        ).to.deep.equal(computeAnalysis(input));
+      }
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { expect } from "chai";
+
+import {
+  ProviderChange,
+  replayProviders,
+  validateAdminAddress,
+  validateCooldown,
+  validateTimelockDelay,
+} from "../frontend/web/src/sdk/contractAdmin";
+
+const ALICE = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+const change = (
+  blockNumber: number,
+  logIndex: number,
+  provider: string,
+  added: boolean,
+): ProviderChange => ({
+  blockNumber,
+  logIndex,
+  txHash: `0x${blockNumber}`,
+  provider,
+  added,
+});
+
+describe("Contract administration", function () {
+  it("replays provider changes in chain order", function () {
+    expect(
+      replayProviders([
+        change(5, 0, ALICE, false),
+        change(1, 0, ALICE, true),
+        change(3, 1, BOB, true),
+        change(3, 0, BOB, false),
+      ]),
+    ).to.deep.equal([BOB]);
+    expect(
+      replayProviders([
+        change(1, 0, ALICE, true),
+        change(2, 0, BOB, true),
+        change(4, 0, ALICE.toLowerCase(), false),
+        change(6, 0, ALICE, true),
+      ]),
+    ).to.deep.equal([BOB, ALICE]);
+    expect(replayProviders([])).to.deep.equal([]);
+  });
+
+  it("accepts only positive whole-second cooldowns", function () {
+    expect(validateCooldown("60")).to.deep.equal([]);
+    expect(validateCooldown(" 1 ")).to.deep.equal([]);
+    for (const input of ["", "0", "-5", "1.5", "abc", "1e300"]) {
+      expect(validateCooldown(input), input).to.have.length(1);
+    }
+  });
+
+  it("accepts timelock delays from 0 up to 30 days", function () {
+    expect(validateTimelockDelay("0")).to.deep.equal([]);
+    expect(validateTimelockDelay(String(30 * 24 * 3600))).to.deep.equal([]);
+    for (const input of ["", "-1", "0.5", String(30 * 24 * 3600 + 1)]) {
+      expect(validateTimelockDelay(input), input).to.have.length(1);
+    }
+  });
+
+  it("rejects malformed and zero addresses", function () {
+    expect(validateAdminAddress(ALICE)).to.deep.equal([]);
+    expect(validateAdminAddress(ALICE.toLowerCase())).to.deep.equal([]);
+    expect(validateAdminAddress("0x1234")).to.have.length(1);
+    expect(
+      validateAdminAddress("0x0000000000000000000000000000000000000000"),
+    ).to.deep.equal(["The zero address can't be used"]);
+  });
+});
@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { NutritionAIFHE, NutritionAIFHE__factory } from "../types";
+import {
+  cooldownRemaining,
+  decodeContractError,
+  describeError,
+  explainError,
+  formatError,
+  simulateAndSend,
+} from "../frontend/web/src/errors/contractErrors";
+import {
+  CONTRACT_ERROR_NAMES,
+  formatDuration,
+  message,
+} from "../frontend/web/src/errors/messages";
+import {
+  NutritionAIClient,
+  UserData,
+} from "../frontend/web/src/sdk/nutritionAI";
+import { fhevmBackend } from "./helpers/fhevmBackend";
+
+const DATA: UserData = {
+  dailyCalories: 1900,
+  proteinGrams: 90,
+  carbGrams: 210,
+  fatGrams: 60,
+  waterIntakeMl: 2000,
+  activityLevel: 2,
+  healthGoal: 1,
+  allergyFlags: 0,
+  weightKg: 0,
+  heightCm: 0,
+  ageYears: 0,
+  sex: 0,
+};
+
+describe("Contract errors", function () {
+  let owner: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let contract: NutritionAIFHE;
+
+  before(function () {
+    if (!fhevm.isMock) {
+      // Submitting encrypted data needs the mock's input proofs
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    [owner, stranger] = await ethers.getSigners();
+    contract = await new NutritionAIFHE__factory(owner).deploy();
+    await contract.waitForDeployment();
+  });
+
+  it("has a message in every locale for each error the contract declares", function () {
+    const declared: string[] = [];
+    contract.interface.forEachError((fragment) => declared.push(fragment.name));
+    expect(declared).to.include.members([...CONTRACT_ERROR_NAMES]);
+    for (const name of CONTRACT_ERROR_NAMES) {
+      for (const locale of ["en", "zh"] as const) {
+        expect(message(name, {}, locale).title).not.to.equal(
+          message("Unknown", {}, locale).title,
+        );
+      }
+    }
+  });
+
+  it("explains a simulated revert before anything is sent", async function () {
+    const nonce = await stranger.getNonce();
+    const error = await simulateAndSend(
+      contract.connect(stranger).openBatch,
+    ).catch((e) => e);
+
+    expect(decodeContractError(error)).to.equal("NotProvider");
+    expect(describeError(error, "en")).to.deep.equal({
+      code: "NotProvider",
+      ...message("NotProvider", {}, "en"),
+    });
+    expect(await stranger.getNonce()).to.equal(nonce);
+  });
+
+  it("decodes revert data however deeply the wallet nests it", function () {
+    const data = contract.interface.encodeErrorResult("Paused");
+    expect(decodeContractError({ data })).to.equal("Paused");
+    expect(decodeContractError({ error: { data: { data } } })).to.equal(
+      "Paused",
+    );
+    expect(decodeContractError({ info: { error: { data } } })).to.equal(
+      "Paused",
+    );
+    expect(
+      decodeContractError({ data: ethers.id("Other()").slice(0, 10) }),
+    ).to.equal(null);
+  });
+
+  it("recognizes wallet rejections and other failures", function () {
+    expect(describeError({ code: 4001 }, "en").code).to.equal("UserRejected");
+    expect(
+      describeError(new Error("MetaMask: User denied transaction"), "en").code,
+    ).to.equal("UserRejected");
+
+    const unknown = describeError(new Error("socket hang up"), "en");
+    expect(unknown.code).to.equal("Unknown");
+    expect(formatError(unknown)).to.contain("socket hang up");
+  });
+
+  it("tells how long a cooldown has left", async function () {
+    const client = new NutritionAIClient(contract, fhevmBackend);
+    await client.openBatch();
+    await client.submitUserData(DATA);
+
+    const remaining = await cooldownRemaining(contract, owner.address);
+    const cooldown = Number(await contract.cooldownSeconds());
+    expect(remaining).to.be.greaterThan(0).and.at.most(cooldown);
+
+    const error = await client.submitUserData(DATA).catch((e) => e);
+    const explained = await explainError(error, {
+      cooldown: () => cooldownRemaining(contract, owner.address),
+      locale: "en",
+    });
+    expect(explained.code).to.equal("CooldownActive");
+    expect(explained.remediation).to.equal(
+      `Try again in ${formatDuration(remaining!, "en")}.`,
+    );
+    expect(formatDuration(3900, "en")).to.equal("1 hour 5 minutes");
+  });
+});
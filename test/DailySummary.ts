@@ -0,0 +1,63 @@
+import { expect } from "chai";
+
+import { averageDay, totalsByDay } from "../frontend/web/src/sdk/dailySummary";
+
+const meal = (date: string, calories: number, water?: number) => ({
+  date,
+  calories,
+  protein: calories / 20,
+  carbs: calories / 10,
+  fat: calories / 40,
+  water,
+});
+
+describe("Daily summary", function () {
+  it("totals the records of each day in the range, oldest first", function () {
+    const days = totalsByDay(
+      [
+        meal("2024-03-03", 600),
+        meal("2024-03-01", 400),
+        meal("2024-03-03", 0, 500),
+        meal("2024-02-29", 900),
+        meal("2024-03-01", 800, 250),
+        meal("2024-03-04", 700),
+      ],
+      "2024-03-01",
+      "2024-03-03",
+    );
+    expect(days).to.deep.equal([
+      {
+        date: "2024-03-01",
+        calories: 1200,
+        protein: 60,
+        carbs: 120,
+        fat: 30,
+        water: 250,
+      },
+      {
+        date: "2024-03-03",
+        calories: 600,
+        protein: 30,
+        carbs: 60,
+        fat: 15,
+        water: 500,
+      },
+    ]);
+  });
+
+  it("averages over the days something was logged", function () {
+    const days = totalsByDay(
+      [meal("2024-03-01", 1201, 300), meal("2024-03-03", 600)],
+      "2024-03-01",
+      "2024-03-07",
+    );
+    expect(averageDay(days)).to.deep.equal({
+      dailyCalories: 901,
+      proteinGrams: 45,
+      carbGrams: 90,
+      fatGrams: 23,
+      waterIntakeMl: 150,
+    });
+    expect(averageDay([])).to.equal(null);
+  });
+});
@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  createLocalDecryptionRelayer,
+  createMockBackend,
+} from "../frontend/web/src/fhe/mockBackend";
+import {
+  DecryptionRelayer,
+  signWithEthers,
+  UserDecryptTypedData,
+} from "../frontend/web/src/fhe/userDecryption";
+import {
+  DecryptionSessionManager,
+  sessionExpiry,
+} from "../frontend/web/src/fhe/decryptionSession";
+
+const CHAIN_ID = 31337;
+const CONTRACT = "0x00000000000000000000000000000000000000c1";
+const OTHER_CONTRACT = "0x00000000000000000000000000000000000000c2";
+
+// Stands in for window.sessionStorage
+class MemoryStorage {
+  readonly items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+// Counts the handles of every userDecrypt call passed through to the relayer
+function countingRelayer(relayer: DecryptionRelayer) {
+  const requests: number[] = [];
+  const counted: DecryptionRelayer = {
+    ...relayer,
+    userDecrypt(handles, request) {
+      requests.push(handles.length);
+      return relayer.userDecrypt(handles, request);
+    },
+  };
+  return { relayer: counted, requests };
+}
+
+describe("Decryption sessions", function () {
+  const user = ethers.Wallet.createRandom();
+
+  let backend: ReturnType<typeof createMockBackend>;
+  let storage: MemoryStorage;
+  let signatures: number;
+
+  const sign = (typedData: UserDecryptTypedData) => {
+    signatures++;
+    return signWithEthers(user)(typedData);
+  };
+  const target = {
+    contractAddress: CONTRACT,
+    chainId: CHAIN_ID,
+    durationDays: 1,
+  };
+
+  beforeEach(function () {
+    backend = createMockBackend(CHAIN_ID);
+    storage = new MemoryStorage();
+    signatures = 0;
+  });
+
+  it("signs once per contract and chain and reuses the session", async function () {
+    const sessions = new DecryptionSessionManager(
+      createLocalDecryptionRelayer(backend),
+      storage,
+    );
+    const session = await sessions.open(user.address, target, sign);
+    expect(await sessions.open(user.address, target, sign)).to.deep.equal(
+      session,
+    );
+    expect(signatures).to.equal(1);
+    expect(sessionExpiry(session)).to.equal(
+      session.scope.startTimestamp + 86400,
+    );
+
+    // Picked up again after a reload, whatever the address casing
+    const reloaded = new DecryptionSessionManager(
+      createLocalDecryptionRelayer(backend),
+      storage,
+    );
+    expect(
+      reloaded.current(user.address.toLowerCase(), CONTRACT, CHAIN_ID),
+    ).to.deep.equal(session);
+
+    // Each contract and chain gets its own signature
+    await sessions.open(
+      user.address,
+      { ...target, contractAddress: OTHER_CONTRACT },
+      sign,
+    );
+    await sessions.open(user.address, { ...target, chainId: 1 }, sign);
+    expect(signatures).to.equal(3);
+  });
+
+  it("drops expired and malformed sessions", async function () {
+    const sessions = new DecryptionSessionManager(
+      createLocalDecryptionRelayer(backend),
+      storage,
+    );
+    await sessions.open(user.address, { ...target, durationDays: 0 }, sign);
+    expect(sessions.current(user.address, CONTRACT, CHAIN_ID)).to.equal(null);
+    expect(storage.items.size).to.equal(0);
+
+    await sessions.open(user.address, target, sign);
+    for (const key of storage.items.keys()) storage.setItem(key, "{");
+    expect(sessions.current(user.address, CONTRACT, CHAIN_ID)).to.equal(null);
+    expect(storage.items.size).to.equal(0);
+
+    await sessions.open(user.address, target, sign);
+    expect(signatures).to.equal(3);
+  });
+
+  it("forgets a revoked session", async function () {
+    const sessions = new DecryptionSessionManager(
+      createLocalDecryptionRelayer(backend),
+      storage,
+    );
+    await sessions.open(user.address, target, sign);
+    sessions.revoke(user.address, CONTRACT, CHAIN_ID);
+    expect(sessions.current(user.address, CONTRACT, CHAIN_ID)).to.equal(null);
+    await sessions.open(user.address, target, sign);
+    expect(signatures).to.equal(2);
+  });
+
+  it("requests duplicate handles once and splits large batches", async function () {
+    const values = Array.from({ length: 130 }, (_, index) => index * 10);
+    const { handles } = await backend.encryptUint32(
+      CONTRACT,
+      user.address,
+      values,
+    );
+    const { relayer, requests } = countingRelayer(
+      createLocalDecryptionRelayer(backend),
+    );
+    const sessions = new DecryptionSessionManager(relayer, storage);
+    const session = await sessions.open(user.address, target, sign);
+
+    const decrypted = await sessions.decryptBatch(
+      [...handles, ...handles.slice(0, 10)],
+      session,
+    );
+    expect(requests).to.deep.equal([64, 64, 2]);
+    handles.forEach((handle, index) =>
+      expect(decrypted[handle]).to.equal(values[index]),
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  encryptNutritionValues,
+  setFheBackend,
+} from "../frontend/web/src/fhe/encryption";
+import {
+  encryptionContract,
+  saveEncrypted,
+  TargetChain,
+} from "../frontend/web/src/fhe/encryptionTarget";
+import { createMockBackend } from "../frontend/web/src/fhe/mockBackend";
+import { walletKeys } from "../frontend/web/src/storage/keys";
+import { DataStore, RecordLog } from "../frontend/web/src/storage/recordLog";
+import {
+  NutritionRecord,
+  recordListSchema,
+} from "../frontend/web/src/storage/records";
+import { VersionedStore } from "../frontend/web/src/storage/versionedStore";
+import { ulid } from "../frontend/web/src/storage/ulid";
+
+const CHAIN_ID = 11155111;
+const ADAPTER = "0x00000000000000000000000000000000000000a1";
+const NUTRITION_AI = "0x00000000000000000000000000000000000000b2";
+const MEAL = { calories: 640, protein: 35, carbs: 70, fat: 22 };
+
+// Stands in for UniversalAdapter's getData/setData
+class MemoryStore implements DataStore {
+  readonly values = new Map<string, string>();
+
+  async getData(key: string) {
+    return this.values.get(key) ?? "0x";
+  }
+
+  async setData(key: string, value: Uint8Array) {
+    this.values.set(key, ethers.hexlify(value));
+  }
+}
+
+describe("Encryption target", function () {
+  const user = ethers.Wallet.createRandom();
+  let backend: ReturnType<typeof createMockBackend>;
+  let store: MemoryStore;
+  let log: RecordLog<NutritionRecord>;
+  let steps: string[];
+
+  beforeEach(function () {
+    backend = createMockBackend(CHAIN_ID);
+    setFheBackend(backend);
+    store = new MemoryStore();
+    log = new RecordLog(walletKeys(user.address).records, recordListSchema);
+    steps = [];
+  });
+
+  after(function () {
+    setFheBackend(null);
+  });
+
+  const saveMeal = (chain: TargetChain) =>
+    saveEncrypted({
+      chain,
+      userAddress: user.address,
+      encrypt: (context) => encryptNutritionValues(MEAL, context),
+      register: async (handles) => {
+        steps.push(`register ${handles.length}`);
+      },
+      store: async (encrypted) => {
+        steps.push("store");
+        await log.append(new VersionedStore(store, async () => null), {
+          id: ulid(),
+          date: "2025-01-01",
+          mealType: "lunch",
+          ...encrypted,
+          notes: "",
+        });
+      },
+    });
+
+  it("saves a record for UniversalAdapter on a chain without NutritionAIFHE", async function () {
+    const chain: TargetChain = {
+      name: "Sepolia",
+      fhe: "relayer",
+      contracts: { universalAdapter: ADAPTER },
+    };
+    expect(encryptionContract(chain)).to.equal(ADAPTER);
+
+    await saveMeal(chain);
+    expect(steps).to.deep.equal(["store"]);
+    const [saved] = (await log.readDay(store, "2025-01-01")).data;
+    expect(backend.reveal(saved.calories, ADAPTER)).to.equal(MEAL.calories);
+    expect(backend.reveal(saved.fat, ADAPTER)).to.equal(MEAL.fat);
+  });
+
+  it("registers with NutritionAIFHE before storing where the relayer decrypts", async function () {
+    const chain: TargetChain = {
+      name: "Sepolia",
+      fhe: "relayer",
+      contracts: { universalAdapter: ADAPTER, nutritionAI: NUTRITION_AI },
+    };
+    expect(encryptionContract(chain)).to.equal(NUTRITION_AI);
+
+    const encrypted = await saveMeal(chain);
+    expect(steps).to.deep.equal(["register 4", "store"]);
+    expect(backend.reveal(encrypted.protein, NUTRITION_AI)).to.equal(
+      MEAL.protein,
+    );
+  });
+
+  it("keeps mock values with UniversalAdapter even where NutritionAIFHE is deployed", async function () {
+    const chain: TargetChain = {
+      name: "Hardhat",
+      fhe: "mock",
+      contracts: { universalAdapter: ADAPTER, nutritionAI: NUTRITION_AI },
+    };
+    expect(encryptionContract(chain)).to.equal(ADAPTER);
+    await saveMeal(chain);
+    expect(steps).to.deep.equal(["store"]);
+  });
+
+  it("refuses to encrypt on a chain without a storage deployment", async function () {
+    await expect(
+      saveMeal({ name: "Hardhat", fhe: "mock", contracts: {} }),
+    ).to.be.rejectedWith(
+      "No UniversalAdapter deployment configured for Hardhat",
+    );
+    expect(steps).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,1085 @@
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import hre, { ethers, fhevm } from "hardhat";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { NutritionAIFHE, NutritionAIFHE__factory } from "../types";
+import {
+  getProviderRequests,
+  NutritionAIClient,
+  ProviderRequestTracker,
+  readAnalysisParams,
+  registerCiphertexts,
+  UserData,
+} from "../frontend/web/src/sdk/nutritionAI";
+import {
+  computeAnalysis,
+  DEFAULT_ANALYSIS_PARAMS,
+} from "../frontend/web/src/sdk/analysisModel";
+import {
+  actionIdOf,
+  encodeOwnerAction,
+  getAdminAuditTrail,
+  getProviders,
+  getScheduledActions,
+  LOG_PAGE_BLOCKS,
+  MAX_TIMELOCK_DELAY,
+  sendOwnerAction,
+  timelockState,
+} from "../frontend/web/src/sdk/contractAdmin";
+import { fhevmBackend } from "./helpers/fhevmBackend";
+
+const COOLDOWN = 60;
+const HOUR = 3600;
+
+const MEAL: UserData = {
+  dailyCalories: 2100,
+  proteinGrams: 120,
+  carbGrams: 230,
+  fatGrams: 70,
+  waterIntakeMl: 1800,
+  activityLevel: 3,
+  healthGoal: 3,
+  allergyFlags: 0,
+  weightKg: 0,
+  heightCm: 0,
+  ageYears: 0,
+  sex: 0,
+};
+
+describe("NutritionAIFHE", function () {
+  let owner: HardhatEthersSigner;
+  let provider: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let contract: NutritionAIFHE;
+  let client: NutritionAIClient;
+
+  const clientFor = (signer: HardhatEthersSigner) =>
+    new NutritionAIClient(contract.connect(signer), fhevmBackend);
+
+  before(function () {
+    if (!fhevm.isMock) {
+      // The suite drives the decryption oracle itself, which only the mock allows
+      this.skip();
+    }
+  });
+
+  beforeEach(async function () {
+    [owner, provider, stranger] = await ethers.getSigners();
+    contract = await new NutritionAIFHE__factory(owner).deploy();
+    await contract.waitForDeployment();
+    await contract.addProvider(provider.address);
+    client = clientFor(provider);
+  });
+
+  describe("provider role", function () {
+    it("registers the owner as the first provider", async function () {
+      expect(await contract.owner()).to.equal(owner.address);
+      expect(await contract.isProvider(owner.address)).to.equal(true);
+    });
+
+    it("lets only the owner manage providers", async function () {
+      // Sent as transactions, these reverts are ones hardhat can't attribute to a source line
+      // (viaIR), which trips the fhevm plugin's error handling; eth_call reports them as they are
+      await expect(
+        contract.connect(stranger).addProvider.staticCall(stranger.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        contract.connect(provider).removeProvider.staticCall(owner.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+
+      await expect(contract.addProvider(stranger.address))
+        .to.emit(contract, "ProviderAdded")
+        .withArgs(stranger.address);
+      await expect(contract.removeProvider(stranger.address))
+        .to.emit(contract, "ProviderRemoved")
+        .withArgs(stranger.address);
+    });
+
+    it("rejects batch and data calls from non-providers", async function () {
+      await expect(
+        contract.connect(stranger).openBatch(),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+      await expect(
+        contract.connect(stranger).closeBatch(),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+      await expect(
+        contract.connect(stranger).requestAnalysis(1),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+
+      await client.openBatch();
+      await expect(
+        clientFor(stranger).submitUserData(MEAL),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+    });
+
+    it("locks out a removed provider", async function () {
+      await contract.removeProvider(provider.address);
+      await expect(
+        contract.connect(provider).openBatch(),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+    });
+  });
+
+  describe("pause", function () {
+    it("can only be toggled by the owner", async function () {
+      await expect(
+        contract.connect(provider).setPaused(true),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.setPaused(true))
+        .to.emit(contract, "PauseToggled")
+        .withArgs(true);
+      expect(await contract.paused()).to.equal(true);
+    });
+
+    it("blocks the batch workflow while paused", async function () {
+      await client.openBatch();
+      await contract.setPaused(true);
+
+      await expect(
+        contract.connect(provider).openBatch(),
+      ).to.be.revertedWithCustomError(contract, "Paused");
+      await expect(
+        contract.connect(provider).closeBatch(),
+      ).to.be.revertedWithCustomError(contract, "Paused");
+      await expect(client.submitUserData(MEAL)).to.be.revertedWithCustomError(
+        contract,
+        "Paused",
+      );
+      await expect(
+        contract.connect(provider).requestAnalysis(2),
+      ).to.be.revertedWithCustomError(contract, "Paused");
+
+      await contract.setPaused(false);
+      expect((await client.submitUserData(MEAL)).batchId).to.equal(2n);
+    });
+  });
+
+  describe("batches", function () {
+    it("opens and closes one batch at a time", async function () {
+      expect(await contract.currentBatchId()).to.equal(1n);
+      expect(await contract.batchOpen()).to.equal(false);
+      await expect(
+        contract.connect(provider).closeBatch(),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+
+      await expect(contract.connect(provider).openBatch())
+        .to.emit(contract, "BatchOpened")
+        .withArgs(2n);
+      await expect(
+        contract.connect(provider).openBatch(),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+
+      await expect(contract.connect(provider).closeBatch())
+        .to.emit(contract, "BatchClosed")
+        .withArgs(2n);
+      expect(await contract.batchOpen()).to.equal(false);
+
+      expect(await client.openBatch()).to.equal(3n);
+    });
+
+    it("rejects submissions outside an open batch", async function () {
+      await expect(client.submitUserData(MEAL)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatch",
+      );
+
+      await client.openBatch();
+      await client.closeBatch();
+      await expect(client.submitUserData(MEAL)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatch",
+      );
+    });
+
+    it("stores submitted values readable by the provider", async function () {
+      const batchId = await client.openBatch();
+      expect((await client.submitUserData(MEAL)).batchId).to.equal(batchId);
+
+      const stored = await contract.batchUserData(batchId, provider.address);
+      const calories = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        stored.dailyCalories,
+        await contract.getAddress(),
+        provider,
+      );
+      expect(calories).to.equal(BigInt(MEAL.dailyCalories));
+    });
+
+    it("rejects an analysis of a batch without the provider's data", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+
+      await expect(
+        contract.requestAnalysis(batchId),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await expect(
+        contract.connect(provider).requestAnalysis(batchId + 1n),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+  });
+
+  describe("ciphertext registration", function () {
+    it("lets the sender decrypt the values it registers", async function () {
+      const address = await contract.getAddress();
+      const { handles, inputProof } = await fhevmBackend.encryptUint32(
+        address,
+        stranger.address,
+        [650, 32],
+      );
+      await expect(
+        registerCiphertexts(contract.connect(stranger), handles, inputProof),
+      )
+        .to.emit(contract, "CiphertextsRegistered")
+        .withArgs(stranger.address, 2);
+
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handles[1],
+          address,
+          stranger,
+        ),
+      ).to.equal(32n);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handles[1],
+          address,
+          provider,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("takes between one and MAX_REGISTERED_CIPHERTEXTS values", async function () {
+      const address = await contract.getAddress();
+      const max = Number(await contract.MAX_REGISTERED_CIPHERTEXTS());
+      const tooMany = await fhevmBackend.encryptUint32(
+        address,
+        stranger.address,
+        Array.from({ length: max + 1 }, (_, index) => index),
+      );
+      await expect(
+        contract
+          .connect(stranger)
+          .registerCiphertexts(tooMany.handles, tooMany.inputProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(
+        contract.connect(stranger).registerCiphertexts([], tooMany.inputProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+    });
+  });
+
+  describe("cooldowns", function () {
+    it("spaces out submissions by the cooldown", async function () {
+      await client.openBatch();
+      await client.submitUserData(MEAL);
+
+      await expect(client.submitUserData(MEAL)).to.be.revertedWithCustomError(
+        contract,
+        "CooldownActive",
+      );
+      expect(await client.cooldownRemaining("submission")).to.be.greaterThan(0);
+
+      await time.increase(COOLDOWN);
+      await client.submitUserData(MEAL);
+    });
+
+    it("spaces out analysis requests by the cooldown", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      await client.requestAnalysis(batchId);
+
+      await expect(
+        client.requestAnalysis(batchId),
+      ).to.be.revertedWithCustomError(contract, "CooldownActive");
+      expect(await client.cooldownRemaining("decryption")).to.be.greaterThan(0);
+
+      await time.increase(COOLDOWN);
+      await client.closeBatch();
+      const nextBatchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      await client.requestAnalysis(nextBatchId);
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.analysisCount(provider.address)).to.equal(2n);
+    });
+
+    it("keeps the two cooldowns independent", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      await client.requestAnalysis(batchId);
+      await expect(client.submitUserData(MEAL)).to.be.revertedWithCustomError(
+        contract,
+        "CooldownActive",
+      );
+    });
+
+    it("only lets the owner change the cooldown, and never to zero", async function () {
+      await expect(
+        contract.connect(provider).setCooldownSeconds(10),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        contract.setCooldownSeconds(0),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(contract.setCooldownSeconds(10))
+        .to.emit(contract, "CooldownSet")
+        .withArgs(COOLDOWN, 10);
+    });
+  });
+
+  describe("administration logs", function () {
+    it("rebuilds the provider list from its events", async function () {
+      expect(await getProviders(contract)).to.deep.equal([
+        owner.address,
+        provider.address,
+      ]);
+
+      await contract.addProvider(stranger.address);
+      await contract.removeProvider(provider.address);
+      await contract.addProvider(stranger.address);
+      await contract.addProvider(provider.address);
+      expect(await getProviders(contract)).to.deep.equal([
+        owner.address,
+        stranger.address,
+        provider.address,
+      ]);
+    });
+
+    it("lists ownership, pause, cooldown and timelock changes in order", async function () {
+      await contract.setPaused(true);
+      await contract.setCooldownSeconds(120);
+      await contract.setPaused(false);
+      await contract.setTimelockDelay(0);
+      await contract.proposeOwnership(provider.address);
+      await contract.cancelOwnershipProposal();
+      await contract.proposeOwnership(stranger.address);
+      const transfer = await contract.connect(stranger).acceptOwnership();
+
+      const trail = await getAdminAuditTrail(contract);
+      expect(
+        trail.map(({ blockNumber, logIndex, txHash, ...event }) => event),
+      ).to.deep.equal([
+        { kind: "pause", paused: true },
+        { kind: "cooldown", oldCooldown: COOLDOWN, newCooldown: 120 },
+        { kind: "pause", paused: false },
+        { kind: "timelock", oldDelay: 0, newDelay: 0 },
+        {
+          kind: "ownershipProposed",
+          owner: owner.address,
+          pendingOwner: provider.address,
+        },
+        { kind: "ownershipProposalCancelled", pendingOwner: provider.address },
+        {
+          kind: "ownershipProposed",
+          owner: owner.address,
+          pendingOwner: stranger.address,
+        },
+        {
+          kind: "ownership",
+          oldOwner: owner.address,
+          newOwner: stranger.address,
+        },
+      ]);
+      expect(trail[7].txHash).to.equal(transfer.hash);
+      expect(
+        await getAdminAuditTrail(contract, trail[6].blockNumber),
+      ).to.have.length(2);
+    });
+
+    it("reads from the deployment block to the given block across log pages", async function () {
+      const deployBlock = (await contract.deploymentTransaction()!.wait())!
+        .blockNumber;
+      await mine(2 * LOG_PAGE_BLOCKS);
+      await contract.addProvider(stranger.address);
+      const added = await ethers.provider.getBlockNumber();
+      await mine(LOG_PAGE_BLOCKS / 2);
+      await contract.removeProvider(provider.address);
+
+      expect(await getProviders(contract, deployBlock)).to.deep.equal([
+        owner.address,
+        stranger.address,
+      ]);
+      expect(await getProviders(contract, deployBlock, added)).to.deep.equal([
+        owner.address,
+        provider.address,
+        stranger.address,
+      ]);
+      // Starting after the deployment misses the owner's registration
+      expect(await getProviders(contract, deployBlock + 1)).to.deep.equal([
+        stranger.address,
+      ]);
+    });
+  });
+
+  describe("ownership", function () {
+    it("moves to the proposed owner once it accepts", async function () {
+      await expect(
+        contract
+          .connect(stranger)
+          .proposeOwnership.staticCall(stranger.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        contract.proposeOwnership.staticCall(ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+
+      await expect(contract.proposeOwnership(provider.address))
+        .to.emit(contract, "OwnershipProposed")
+        .withArgs(owner.address, provider.address);
+      expect(await contract.pendingOwner()).to.equal(provider.address);
+      expect(await contract.owner()).to.equal(owner.address);
+      await expect(
+        contract.connect(stranger).acceptOwnership.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "NotPendingOwner");
+
+      await expect(contract.connect(provider).acceptOwnership())
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(owner.address, provider.address);
+      expect(await contract.owner()).to.equal(provider.address);
+      expect(await contract.pendingOwner()).to.equal(ethers.ZeroAddress);
+      await expect(
+        contract.setPaused.staticCall(true),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        contract.connect(provider).acceptOwnership.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "NotPendingOwner");
+    });
+
+    it("lets the owner replace or cancel a proposal", async function () {
+      await contract.proposeOwnership(stranger.address);
+      await contract.proposeOwnership(provider.address);
+      await expect(
+        contract.connect(stranger).acceptOwnership.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "NotPendingOwner");
+
+      await expect(
+        contract.connect(provider).cancelOwnershipProposal.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.cancelOwnershipProposal())
+        .to.emit(contract, "OwnershipProposalCancelled")
+        .withArgs(provider.address);
+      expect(await contract.pendingOwner()).to.equal(ethers.ZeroAddress);
+      await expect(
+        contract.connect(provider).acceptOwnership.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "NotPendingOwner");
+      await expect(
+        contract.cancelOwnershipProposal.staticCall(),
+      ).to.be.revertedWithCustomError(contract, "NotPendingOwner");
+    });
+
+    it("can be handed over with the hardhat tasks", async function () {
+      const address = await contract.getAddress();
+      await contract.setTimelockDelay(HOUR);
+
+      await hre.run("task:propose-ownership", {
+        address,
+        newOwner: provider.address,
+      });
+      expect(await contract.pendingOwner()).to.equal(ethers.ZeroAddress);
+      await expect(
+        hre.run("task:propose-ownership", {
+          address,
+          newOwner: provider.address,
+        }),
+      ).to.be.rejectedWith("proposeOwnership is scheduled");
+
+      await time.increase(HOUR);
+      await hre.run("task:propose-ownership", {
+        address,
+        newOwner: provider.address,
+      });
+      expect(await contract.pendingOwner()).to.equal(provider.address);
+      await hre.run("task:cancel-ownership", { address });
+      expect(await contract.pendingOwner()).to.equal(ethers.ZeroAddress);
+
+      await contract.scheduleAction(
+        encodeOwnerAction(contract, "proposeOwnership", [provider.address]),
+      );
+      await time.increase(HOUR);
+      await hre.run("task:propose-ownership", {
+        address,
+        newOwner: provider.address,
+      });
+      await hre.run("task:accept-ownership", { address, account: 1 });
+      expect(await contract.owner()).to.equal(provider.address);
+    });
+  });
+
+  describe("timelock", function () {
+    const scheduleCooldown = (seconds: number) =>
+      contract.scheduleAction(
+        encodeOwnerAction(contract, "setCooldownSeconds", [seconds]),
+      );
+
+    it("is off until the owner sets a delay", async function () {
+      expect(await contract.timelockDelay()).to.equal(0n);
+      await expect(
+        contract.connect(provider).setTimelockDelay.staticCall(HOUR),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        contract.setTimelockDelay.staticCall(
+          (await contract.MAX_TIMELOCK_DELAY()) + 1n,
+        ),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+
+      await expect(contract.setTimelockDelay(HOUR))
+        .to.emit(contract, "TimelockDelaySet")
+        .withArgs(0, HOUR);
+      expect(await contract.MAX_TIMELOCK_DELAY()).to.equal(
+        BigInt(MAX_TIMELOCK_DELAY),
+      );
+    });
+
+    it("holds a change until its delay has passed, then runs it once", async function () {
+      await contract.setTimelockDelay(HOUR);
+      await expect(
+        contract.setCooldownSeconds.staticCall(10),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+
+      const data = encodeOwnerAction(contract, "setCooldownSeconds", [10]);
+      await expect(
+        contract.connect(provider).scheduleAction.staticCall(data),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      const actionId = actionIdOf(await contract.timelockEpoch(), data);
+      expect(await contract.actionIdOf(data)).to.equal(actionId);
+      const scheduledAt = (await time.latest()) + 1;
+      await expect(scheduleCooldown(10))
+        .to.emit(contract, "ActionScheduled")
+        .withArgs(actionId, data, scheduledAt);
+      await expect(
+        contract.scheduleAction.staticCall(data),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(
+        contract.setCooldownSeconds.staticCall(10),
+      ).to.be.revertedWithCustomError(contract, "TimelockNotReady");
+      await expect(
+        contract.setCooldownSeconds.staticCall(20),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+      expect(await timelockState(contract, data)).to.deep.include({
+        kind: "waiting",
+      });
+
+      await time.increase(HOUR);
+      expect(await timelockState(contract, data)).to.deep.equal({
+        kind: "ready",
+      });
+      await expect(contract.setCooldownSeconds(10))
+        .to.emit(contract, "ActionExecuted")
+        .withArgs(actionId)
+        .and.to.emit(contract, "CooldownSet")
+        .withArgs(COOLDOWN, 10);
+      await expect(
+        contract.setCooldownSeconds.staticCall(10),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+    });
+
+    it("guards provider changes, analysis parameters and its own delay, but not pause", async function () {
+      await contract.setTimelockDelay(HOUR);
+      await expect(
+        contract.setAnalysisParams.staticCall(DEFAULT_ANALYSIS_PARAMS),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+      await expect(
+        contract.addProvider.staticCall(stranger.address),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+      await expect(
+        contract.removeProvider.staticCall(provider.address),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+      await expect(
+        contract.proposeOwnership.staticCall(stranger.address),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+      await expect(
+        contract.setTimelockDelay.staticCall(0),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+      await contract.setPaused(true);
+      expect(await contract.paused()).to.equal(true);
+
+      const remove = () =>
+        sendOwnerAction(contract, "removeProvider", [provider.address]);
+      expect((await remove()).scheduled).to.equal(true);
+      await time.increase(HOUR);
+      expect((await remove()).scheduled).to.equal(false);
+      expect(await contract.isProvider(provider.address)).to.equal(false);
+    });
+
+    it("drops changes scheduled before the delay was changed", async function () {
+      // Scheduled while there is no delay, then the delay is switched on an hour later
+      await scheduleCooldown(10);
+      await time.increase(HOUR);
+      await contract.setTimelockDelay(HOUR);
+      await expect(
+        contract.setCooldownSeconds.staticCall(10),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+      expect(await getScheduledActions(contract)).to.deep.equal([]);
+
+      // Likewise for a change still waiting when the delay is raised
+      await scheduleCooldown(10);
+      await sendOwnerAction(contract, "setTimelockDelay", [2 * HOUR]);
+      await time.increase(HOUR);
+      await sendOwnerAction(contract, "setTimelockDelay", [2 * HOUR]);
+      expect(await contract.timelockDelay()).to.equal(BigInt(2 * HOUR));
+      await expect(
+        contract.setCooldownSeconds.staticCall(10),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+      expect(await getScheduledActions(contract)).to.deep.equal([]);
+      expect(
+        (
+          await timelockState(
+            contract,
+            encodeOwnerAction(contract, "setCooldownSeconds", [10]),
+          )
+        ).kind,
+      ).to.equal("unscheduled");
+    });
+
+    it("lists scheduled changes until they run or are cancelled", async function () {
+      await contract.setTimelockDelay(HOUR);
+      await scheduleCooldown(10);
+      await scheduleCooldown(20);
+      const scheduledAt = await time.latest();
+
+      const scheduled = await getScheduledActions(contract);
+      expect(
+        scheduled.map(({ name, args, scheduledAt, readyAt }) => ({
+          name,
+          args,
+          scheduledAt,
+          readyAt,
+        })),
+      ).to.deep.equal([
+        {
+          name: "setCooldownSeconds",
+          args: [10n],
+          scheduledAt: scheduledAt - 1,
+          readyAt: scheduledAt - 1 + HOUR,
+        },
+        {
+          name: "setCooldownSeconds",
+          args: [20n],
+          scheduledAt,
+          readyAt: scheduledAt + HOUR,
+        },
+      ]);
+
+      await expect(
+        contract
+          .connect(provider)
+          .cancelAction.staticCall(scheduled[0].actionId),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.cancelAction(scheduled[0].actionId))
+        .to.emit(contract, "ActionCancelled")
+        .withArgs(scheduled[0].actionId);
+      await expect(
+        contract.cancelAction.staticCall(scheduled[0].actionId),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+      await time.increase(HOUR);
+      await expect(
+        contract.setCooldownSeconds.staticCall(10),
+      ).to.be.revertedWithCustomError(contract, "ActionNotScheduled");
+      await contract.setCooldownSeconds(20);
+      expect(await getScheduledActions(contract)).to.deep.equal([]);
+
+      await scheduleCooldown(10);
+      expect(
+        (await getScheduledActions(contract)).map((action) => action.args),
+      ).to.deep.equal([[10n]]);
+    });
+  });
+
+  describe("analysis", function () {
+    it("delivers the decrypted analysis through the callback", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      await client.closeBatch();
+
+      const request = await client.requestAnalysis(batchId);
+      await fhevm.awaitDecryptionOracle();
+      const completed = await client.waitForAnalysis(request.requestId, {
+        fromBlock: request.blockNumber,
+        timeoutMs: 0,
+      });
+
+      // tdee 1500 + 3 * 50 with the "maintain" goal, 2100 eaten is 450 over: 100 - 450 / 20
+      expect(completed.batchId).to.equal(batchId);
+      expect(completed.result).to.deep.equal({
+        calorieTarget: 1650,
+        proteinTarget: 123,
+        carbTarget: 188,
+        fatTarget: 45,
+        waterTarget: 2500,
+        score: 78,
+      });
+      expect(await contract.batchProcessed(batchId, provider.address)).to.equal(
+        true,
+      );
+      expect(await contract.batchProcessed(batchId, owner.address)).to.equal(
+        false,
+      );
+      expect(
+        (await contract.decryptionContexts(request.requestId)).processed,
+      ).to.equal(true);
+    });
+
+    it("personalizes the targets from encrypted body metrics", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData({
+        ...MEAL,
+        weightKg: 80,
+        heightCm: 180,
+        ageYears: 30,
+        sex: 1,
+      });
+      const request = await client.requestAnalysis(batchId);
+      await fhevm.awaitDecryptionOracle();
+      const { result } = await client.waitForAnalysis(request.requestId, {
+        fromBlock: request.blockNumber,
+        timeoutMs: 0,
+      });
+
+      // Mifflin-St Jeor: 800 + 1125 - 150 + 5 = 1780, plus 3 * 50; protein 1.6 g per kg
+      expect(result).to.deep.equal({
+        calorieTarget: 1930,
+        proteinTarget: 128,
+        carbTarget: 235,
+        fatTarget: 53,
+        waterTarget: 2500,
+        score: 92,
+      });
+    });
+
+    it("stores the analysis for the provider and batch", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      const request = await client.requestAnalysis(batchId);
+      expect(await client.analysisOf(batchId)).to.equal(null);
+
+      await fhevm.awaitDecryptionOracle();
+      const completed = await client.waitForAnalysis(request.requestId, {
+        fromBlock: request.blockNumber,
+        timeoutMs: 0,
+      });
+      const stored = await client.analysisOf(batchId);
+      expect(stored).to.deep.include({
+        batchId,
+        requestId: request.requestId,
+        result: completed.result,
+      });
+      expect(stored?.completedAt).to.equal(
+        (await ethers.provider.getBlock(completed.blockNumber))?.timestamp,
+      );
+
+      expect(await contract.hasAnalysis(owner.address, batchId)).to.equal(
+        false,
+      );
+      await expect(
+        contract.getAnalysis(owner.address, batchId),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+
+    it("keeps a history of the provider's analyses", async function () {
+      const meals = [2100, 1650, 1200];
+      for (const dailyCalories of meals) {
+        await time.increase(COOLDOWN);
+        const batchId = await client.openBatch();
+        await client.submitUserData({ ...MEAL, dailyCalories });
+        await client.closeBatch();
+        await client.requestAnalysis(batchId);
+        await fhevm.awaitDecryptionOracle();
+      }
+
+      expect(await contract.analysisCount(provider.address)).to.equal(3n);
+      const history = await client.history();
+      expect(history.map((analysis) => analysis.batchId)).to.deep.equal([
+        2n,
+        3n,
+        4n,
+      ]);
+      expect(history.map((analysis) => analysis.result.score)).to.deep.equal([
+        78, 100, 78,
+      ]);
+
+      const page = await client.history({ offset: 1, limit: 5 });
+      expect(page.map((analysis) => analysis.batchId)).to.deep.equal([3n, 4n]);
+      expect(await client.history({ offset: 3 })).to.deep.equal([]);
+      expect(await clientFor(owner).history()).to.deep.equal([]);
+    });
+
+    it("tracks each provider's requests until the oracle completes them", async function () {
+      const ownerClient = clientFor(owner);
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      await ownerClient.submitUserData({ ...MEAL, dailyCalories: 1650 });
+      const request = await client.requestAnalysis(batchId);
+      const ownerRequest = await ownerClient.requestAnalysis(batchId);
+
+      const [pending] = await getProviderRequests(contract, provider.address);
+      expect(pending).to.deep.include({
+        requestId: request.requestId,
+        batchId,
+        blockNumber: request.blockNumber,
+        completion: null,
+      });
+
+      await fhevm.awaitDecryptionOracle();
+      const tracked = await getProviderRequests(contract, provider.address);
+      expect(tracked.map((entry) => entry.requestId)).to.deep.equal([
+        request.requestId,
+      ]);
+      const completed = await client.waitForAnalysis(request.requestId, {
+        fromBlock: request.blockNumber,
+        timeoutMs: 0,
+      });
+      expect(tracked[0].completion).to.deep.equal({
+        blockNumber: completed.blockNumber,
+        txHash: completed.txHash,
+        result: completed.result,
+      });
+
+      const [ownerTracked] = await getProviderRequests(contract, owner.address);
+      expect(ownerTracked.requestId).to.equal(ownerRequest.requestId);
+      expect(ownerTracked.completion?.result.score).to.equal(100);
+      expect(
+        await getProviderRequests(
+          contract,
+          provider.address,
+          completed.blockNumber + 1,
+        ),
+      ).to.deep.equal([]);
+    });
+
+    it("follows requests across polls, attributing each one once", async function () {
+      let contextReads = 0;
+      const counted = new Proxy(contract, {
+        get(target, property) {
+          if (property === "decryptionContexts") {
+            return (requestId: bigint) => {
+              contextReads++;
+              return target.decryptionContexts(requestId);
+            };
+          }
+          const value = Reflect.get(target, property, target);
+          return typeof value === "function" ? value.bind(target) : value;
+        },
+      });
+      const tracker = new ProviderRequestTracker(
+        counted,
+        provider.address,
+        await ethers.provider.getBlockNumber(),
+      );
+
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      const request = await client.requestAnalysis(batchId);
+      // Further back than one log page
+      await mine(2 * LOG_PAGE_BLOCKS);
+      const [pending] = await tracker.refresh();
+      expect(pending).to.deep.include({
+        requestId: request.requestId,
+        completion: null,
+      });
+      expect(contextReads).to.equal(1);
+
+      await fhevm.awaitDecryptionOracle();
+      const [completed] = await tracker.refresh();
+      expect(completed.requestId).to.equal(request.requestId);
+      expect(completed.completion?.result.score).to.equal(78);
+      expect(await tracker.refresh()).to.have.length(1);
+      expect(contextReads).to.equal(1);
+    });
+
+    it("rejects another analysis of a processed batch", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      await client.requestAnalysis(batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      await time.increase(COOLDOWN);
+      await expect(
+        contract.connect(provider).requestAnalysis(batchId),
+      ).to.be.revertedWithCustomError(contract, "AlreadyProcessed");
+    });
+
+    it("lets each provider analyse the same batch once", async function () {
+      const ownerClient = clientFor(owner);
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      await ownerClient.submitUserData({ ...MEAL, dailyCalories: 1650 });
+      await client.requestAnalysis(batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      await ownerClient.requestAnalysis(batchId);
+      await fhevm.awaitDecryptionOracle();
+      expect((await ownerClient.analysisOf(batchId))?.result.score).to.equal(
+        100,
+      );
+      expect((await client.analysisOf(batchId))?.result.score).to.equal(78);
+    });
+
+    it("completes only the first of two pending requests for a batch", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      const first = await client.requestAnalysis(batchId);
+      await time.increase(COOLDOWN);
+      const second = await client.requestAnalysis(batchId);
+
+      // The second callback reverts with AlreadyProcessed; depending on whether hardhat can map
+      // the revert to a source line it is reported by name or as raw data
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejected;
+      expect((await client.analysisOf(batchId))?.requestId).to.equal(
+        first.requestId,
+      );
+      expect(
+        (await contract.decryptionContexts(second.requestId)).processed,
+      ).to.equal(false);
+      expect(await contract.analysisCount(provider.address)).to.equal(1n);
+      expect(
+        (await client.history()).map((analysis) => analysis.batchId),
+      ).to.deep.equal([batchId]);
+    });
+
+    it("rejects a replayed callback", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      const { requestId } = await client.requestAnalysis(batchId);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        contract.myCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "ReplayAttempt");
+    });
+
+    it("rejects a callback for an unknown request", async function () {
+      await expect(
+        contract.myCallback(12345, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+
+    it("rejects a callback once the batch data has changed", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      const { requestId } = await client.requestAnalysis(batchId);
+
+      // Still unchanged: the state hash matches and only the missing proof fails
+      await expect(
+        contract.myCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "InvalidProof");
+
+      await time.increase(COOLDOWN);
+      await client.submitUserData({ ...MEAL, dailyCalories: 1200 });
+      await expect(
+        contract.myCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "StateMismatch");
+      // The oracle's own callback fails the same way, which also clears it for later tests. Hardhat
+      // reports that revert by name or by selector depending on the build, so match either.
+      const stateMismatch = contract.interface.getError("StateMismatch")!;
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith(
+        new RegExp(`StateMismatch|${stateMismatch.selector}`),
+      );
+    });
+  });
+
+  describe("analysis parameters", function () {
+    const TUNED = {
+      ...DEFAULT_ANALYSIS_PARAMS,
+      bmr: 1800,
+      activityFactor: 120,
+      proteinPercent: 35,
+      proteinPerKg: 20,
+      fatPercent: 30,
+      waterTargetMl: 3000,
+    };
+
+    async function analyse() {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      await client.closeBatch();
+      await client.requestAnalysis(batchId);
+      await fhevm.awaitDecryptionOracle();
+      return (await client.analysisOf(batchId))?.result;
+    }
+
+    it("starts with the defaults the model uses", async function () {
+      expect(await readAnalysisParams(contract)).to.deep.equal(
+        DEFAULT_ANALYSIS_PARAMS,
+      );
+    });
+
+    it("lets only the owner change them", async function () {
+      await expect(
+        contract.connect(provider).setAnalysisParams.staticCall(TUNED),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.setAnalysisParams(TUNED)).to.emit(
+        contract,
+        "AnalysisParamsSet",
+      );
+      expect(await readAnalysisParams(contract)).to.deep.equal(TUNED);
+    });
+
+    it("waits out the timelock while one is set", async function () {
+      await contract.setTimelockDelay(HOUR);
+      const change = () =>
+        sendOwnerAction(contract, "setAnalysisParams", [TUNED]);
+      expect((await change()).scheduled).to.equal(true);
+      await expect(
+        contract.setAnalysisParams.staticCall(TUNED),
+      ).to.be.revertedWithCustomError(contract, "TimelockNotReady");
+      expect(await readAnalysisParams(contract)).to.deep.equal(
+        DEFAULT_ANALYSIS_PARAMS,
+      );
+
+      await time.increase(HOUR);
+      expect((await change()).scheduled).to.equal(false);
+      expect(await readAnalysisParams(contract)).to.deep.equal(TUNED);
+    });
+
+    it("rejects parameters the model can't use", async function () {
+      for (const params of [
+        { ...TUNED, bmr: 0 },
+        { ...TUNED, waterTargetMl: 0 },
+        { ...TUNED, loseWeightAdjustment: TUNED.bmr + 1 },
+        { ...TUNED, proteinPercent: 60, fatPercent: 41 },
+        { ...TUNED, proteinPercent: 2 ** 32 - 1, fatPercent: 1 },
+      ]) {
+        await expect(
+          contract.setAnalysisParams.staticCall(params),
+        ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      }
+    });
+
+    it("computes later analyses with the new parameters", async function () {
+      await contract.setAnalysisParams(TUNED);
+      expect(await analyse()).to.deep.equal(computeAnalysis(MEAL, TUNED));
+    });
+
+    it("completes a pending analysis with the parameters it was requested under", async function () {
+      const batchId = await client.openBatch();
+      await client.submitUserData(MEAL);
+      await client.requestAnalysis(batchId);
+      await contract.setAnalysisParams(TUNED);
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await client.analysisOf(batchId))?.result).to.deep.equal(
+        computeAnalysis(MEAL),
+      );
+    });
+
+    it("can be diffed and set with the hardhat task", async function () {
+      const address = await contract.getAddress();
+      await hre.run("task:set-analysis-params", {
+        address,
+        bmr: 1700,
+        dryRun: true,
+      });
+      expect((await readAnalysisParams(contract)).bmr).to.equal(1500);
+
+      await expect(
+        hre.run("task:set-analysis-params", {
+          address,
+          proteinPercent: 80,
+        }),
+      ).to.be.rejectedWith("proteinPercent and fatPercent");
+
+      await hre.run("task:set-analysis-params", { address, bmr: 1700 });
+      expect((await readAnalysisParams(contract)).bmr).to.equal(1700);
+    });
+  });
+});
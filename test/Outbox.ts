@@ -0,0 +1,186 @@
+import "fake-indexeddb/auto";
+import { expect } from "chai";
+
+import {
+  MealValues,
+  Outbox,
+  OutboxItem,
+} from "../frontend/web/src/outbox/outbox";
+
+const WALLET = "0x00000000000000000000000000000000000000Aa";
+const OTHER_WALLET = "0x00000000000000000000000000000000000000Bb";
+
+const values = (calories: number): MealValues => ({
+  calories,
+  protein: 10,
+  carbs: 20,
+  fat: 5,
+  notes: `meal ${calories}`,
+});
+
+let databases = 0;
+
+describe("Outbox", function () {
+  let outbox: Outbox;
+
+  // Each test gets its own database
+  beforeEach(function () {
+    outbox = new Outbox(`outbox-test-${databases++}`);
+  });
+
+  const enqueue = (calories: number, owner: string | null = WALLET) =>
+    outbox.enqueue(
+      { date: "2025-01-01", mealType: "lunch", ...values(calories) },
+      owner,
+    );
+
+  // Records what was sent and fails for the calories in `failing`
+  const sender = (failing: number[] = []) => {
+    const sent: { owner: string | null; calories: number }[] = [];
+    const send = async (item: OutboxItem, meal: MealValues) => {
+      if (failing.includes(meal.calories)) throw new Error("RPC unavailable");
+      sent.push({ owner: item.owner, calories: meal.calories });
+    };
+    return { sent, send };
+  };
+
+  it("lists queued meals oldest first, each wallet seeing its own and unowned ones", async function () {
+    const first = await enqueue(100);
+    const unowned = await enqueue(200, null);
+    const other = await enqueue(300, OTHER_WALLET);
+
+    expect(first.owner).to.equal(WALLET.toLowerCase());
+    expect((await outbox.list()).map((item) => item.id)).to.deep.equal([
+      first.id,
+      unowned.id,
+      other.id,
+    ]);
+    expect(
+      (await outbox.listFor(WALLET.toUpperCase())).map((item) => item.id),
+    ).to.deep.equal([first.id, unowned.id]);
+
+    await outbox.remove(unowned.id);
+    expect(await outbox.listFor(WALLET)).to.have.length(1);
+  });
+
+  it("seals meal values and unseals them again", async function () {
+    const item = await enqueue(640);
+    const sealed = new TextDecoder().decode(item.sealed);
+    expect(sealed).not.to.contain("meal 640");
+    expect(item).not.to.have.property("calories");
+    const [stored] = await outbox.list();
+    expect(await outbox.unseal(stored)).to.deep.equal(values(640));
+
+    // Tampered ciphertext doesn't authenticate
+    const tampered = new Uint8Array(stored.sealed.slice(0));
+    tampered[0] ^= 1;
+    await expect(outbox.unseal({ ...stored, sealed: tampered.buffer })).to.be
+      .rejected;
+  });
+
+  it("flushes oldest first and stops at the first failure", async function () {
+    await enqueue(100);
+    const failing = await enqueue(200);
+    const blocked = await enqueue(300);
+    const { sent, send } = sender([200]);
+
+    const result = await outbox.flush(WALLET, send);
+    expect(sent).to.deep.equal([
+      { owner: WALLET.toLowerCase(), calories: 100 },
+    ]);
+    expect(result.sent).to.equal(1);
+    expect(result.waiting).to.equal(null);
+    expect(result.failed).to.include({
+      id: failing.id,
+      attempts: 1,
+      lastError: "RPC unavailable",
+    });
+    expect((await outbox.list()).map((item) => item.id)).to.deep.equal([
+      failing.id,
+      blocked.id,
+    ]);
+  });
+
+  it("backs off a failed item until the backoff is reset", async function () {
+    const item = await enqueue(200);
+    const failing = sender([200]);
+    const before = Date.now();
+    const { failed } = await outbox.flush(WALLET, failing.send);
+    expect(failed!.nextAttemptAt)
+      .to.be.at.least(before + 5000)
+      .and.at.most(Date.now() + 5000);
+
+    // Still backing off, so nothing is sent
+    const idle = sender();
+    const waiting = await outbox.flush(WALLET, idle.send);
+    expect(waiting).to.deep.include({ sent: 0, failed: null });
+    expect(waiting.waiting!.id).to.equal(item.id);
+    expect(idle.sent).to.deep.equal([]);
+
+    // A reset retries right away, and the next failure waits twice as long
+    await outbox.resetBackoff(WALLET);
+    const again = await outbox.flush(WALLET, failing.send);
+    expect(again.failed!.attempts).to.equal(2);
+    expect(again.failed!.nextAttemptAt).to.be.at.least(Date.now() + 9000);
+
+    await outbox.resetBackoff(WALLET);
+    const working = sender();
+    expect((await outbox.flush(WALLET, working.send)).sent).to.equal(1);
+    expect(await outbox.list()).to.deep.equal([]);
+  });
+
+  it("lets the flushing wallet claim meals logged without one", async function () {
+    const unowned = await enqueue(100, null);
+    await enqueue(200, OTHER_WALLET);
+    const { sent, send } = sender();
+
+    await outbox.flush(WALLET, send);
+    expect(unowned.owner).to.equal(null);
+    expect(sent).to.deep.equal([
+      { owner: WALLET.toLowerCase(), calories: 100 },
+    ]);
+    expect((await outbox.list()).map((item) => item.owner)).to.deep.equal([
+      OTHER_WALLET.toLowerCase(),
+    ]);
+  });
+
+  it("shares a run between callers for the same wallet", async function () {
+    await enqueue(100);
+    const { sent, send } = sender();
+    const [first, second] = await Promise.all([
+      outbox.flush(WALLET, send),
+      outbox.flush(WALLET.toLowerCase(), send),
+    ]);
+    expect(second).to.equal(first);
+    expect(sent).to.have.length(1);
+  });
+
+  it("stops a run when the wallet switches and flushes the new wallet after it", async function () {
+    await enqueue(100);
+    await enqueue(200, null);
+    await enqueue(300, OTHER_WALLET);
+
+    // The first wallet's send is in flight when the wallet switches
+    let release!: () => void;
+    const inFlight = new Promise<void>((resolve) => (release = resolve));
+    const sent: string[] = [];
+    const stale = outbox.flush(WALLET, async (item, meal) => {
+      sent.push(`${item.owner} ${meal.calories}`);
+      await inFlight;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const current = outbox.flush(OTHER_WALLET, async (item, meal) => {
+      sent.push(`${item.owner} ${meal.calories}`);
+    });
+    release();
+
+    expect(await stale).to.deep.include({ sent: 1, failed: null });
+    expect(await current).to.deep.include({ sent: 2, failed: null });
+    expect(sent).to.deep.equal([
+      `${WALLET.toLowerCase()} 100`,
+      `${OTHER_WALLET.toLowerCase()} 200`,
+      `${OTHER_WALLET.toLowerCase()} 300`,
+    ]);
+  });
+});
@@ -0,0 +1,227 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  decodeDocument,
+  encodeDocument,
+} from "../frontend/web/src/storage/schema";
+import {
+  goalSchema,
+  NutritionRecord,
+  recordListSchema,
+} from "../frontend/web/src/storage/records";
+import { logIndexSchema } from "../frontend/web/src/storage/recordLog";
+import { ulid } from "../frontend/web/src/storage/ulid";
+
+const MEALS = ["breakfast", "lunch", "dinner", "snack"] as const;
+
+// Deterministic stand-ins for relayer handles and input proofs
+const handle = (seed: string) => ethers.keccak256(ethers.toUtf8Bytes(seed));
+const proof = (seed: string) =>
+  ethers.hexlify(
+    ethers.concat([
+      handle(`${seed}/a`),
+      handle(`${seed}/b`),
+      handle(`${seed}/c`),
+    ]),
+  );
+
+function makeRecords(count: number): NutritionRecord[] {
+  const start = Date.UTC(2025, 0, 1);
+  return Array.from({ length: count }, (_, i) => ({
+    id: ulid(start + i * 3600_000),
+    date: new Date(start + Math.floor(i / 4) * 86400_000)
+      .toISOString()
+      .split("T")[0],
+    mealType: MEALS[i % 4],
+    calories: handle(`calories-${i}`),
+    protein: handle(`protein-${i}`),
+    carbs: handle(`carbs-${i}`),
+    fat: handle(`fat-${i}`),
+    inputProof: proof(`record-${i}`),
+    notes: i % 3 === 0 ? "post-workout" : "",
+  }));
+}
+
+// The pre-envelope encoding: a bare JSON array
+const legacyJson = (value: unknown) =>
+  ethers.toUtf8Bytes(JSON.stringify(value));
+
+describe("Payload codec", function () {
+  it("round-trips records, goals and the log index through the binary frame", async function () {
+    const records = makeRecords(12);
+    const decodedRecords = await decodeDocument(
+      recordListSchema,
+      "records",
+      await encodeDocument(recordListSchema, records),
+    );
+    expect(decodedRecords).to.deep.equal({ data: records, quarantine: [] });
+
+    const goals = {
+      targetCalories: handle("goal-0"),
+      targetProtein: handle("goal-1"),
+      targetCarbs: handle("goal-2"),
+      targetFat: handle("goal-3"),
+      inputProof: proof("goals"),
+    };
+    const decodedGoals = await decodeDocument(
+      goalSchema,
+      "goals",
+      await encodeDocument(goalSchema, goals),
+    );
+    expect(decodedGoals.data).to.deep.equal(goals);
+
+    const index = {
+      days: ["2024-12-31", "2025-01-01", "2025-03-15", "2026-10-19"],
+    };
+    const decodedIndex = await decodeDocument(
+      logIndexSchema,
+      "index",
+      await encodeDocument(logIndexSchema, index),
+    );
+    expect(decodedIndex.data).to.deep.equal(index);
+  });
+
+  it("round-trips water entries next to meals", async function () {
+    const water: NutritionRecord = {
+      ...makeRecords(1)[0],
+      mealType: "water",
+      water: handle("water-0"),
+      notes: "",
+    };
+    const records = [water, ...makeRecords(2)];
+    const decoded = await decodeDocument(
+      recordListSchema,
+      "records",
+      await encodeDocument(recordListSchema, records),
+    );
+    expect(decoded).to.deep.equal({ data: records, quarantine: [] });
+    expect(decoded.data[1]).not.to.have.property("water");
+
+    const { water: _, ...missingWater } = water;
+    const quarantined = await decodeDocument(
+      recordListSchema,
+      "records",
+      await encodeDocument(recordListSchema, [missingWater], [], {
+        format: "json",
+      }),
+    );
+    expect(quarantined.data).to.deep.equal([]);
+    expect(quarantined.quarantine[0].reason).to.contain(
+      "water entries need a water ciphertext",
+    );
+  });
+
+  it("keeps legacy text values and quarantined entries", async function () {
+    const legacy: NutritionRecord = {
+      id: "1700000000000",
+      date: "2025-02-01",
+      mealType: "dinner",
+      calories: "FHE-NjAw",
+      protein: "FHE-MzA=",
+      carbs: "FHE-ODA=",
+      fat: "FHE-MjA=",
+      notes: "imported",
+    };
+    const quarantine = [
+      {
+        key: "records",
+        reason: "records[1]: date must be YYYY-MM-DD",
+        raw: { date: "bad" },
+      },
+    ];
+    const decoded = await decodeDocument(
+      recordListSchema,
+      "records",
+      await encodeDocument(recordListSchema, [legacy], quarantine),
+    );
+    expect(decoded).to.deep.equal({ data: [legacy], quarantine });
+  });
+
+  it("quarantines impossible and unstorable dates instead of shifting or throwing", async function () {
+    const [valid, ...others] = makeRecords(4);
+    const dated = [
+      valid,
+      { ...others[0], date: "2024-02-30" },
+      { ...others[1], date: "1969-12-31" },
+      { ...others[2], date: "2149-06-07" },
+    ];
+    const decoded = await decodeDocument(
+      recordListSchema,
+      "records",
+      legacyJson(dated),
+    );
+    expect(decoded.data).to.deep.equal([valid]);
+    expect(decoded.quarantine.map((entry) => entry.reason)).to.deep.equal([
+      "records[1]: date must be YYYY-MM-DD",
+      "records[2]: date must be from 1970-01-01 to 2149-06-06",
+      "records[3]: date must be from 1970-01-01 to 2149-06-06",
+    ]);
+
+    // The rewrite keeps them quarantined rather than failing on the u16 day count
+    const rewritten = await decodeDocument(
+      recordListSchema,
+      "records",
+      await encodeDocument(recordListSchema, decoded.data, decoded.quarantine),
+    );
+    expect(rewritten).to.deep.equal(decoded);
+
+    const index = await decodeDocument(
+      logIndexSchema,
+      "index",
+      legacyJson({ days: ["1969-12-31", "2025-01-01"] }),
+    );
+    expect(index.data).to.deep.equal({ days: [] });
+    expect(index.quarantine[0].reason).to.equal(
+      "index: invalid day 1969-12-31",
+    );
+  });
+
+  it("still reads JSON written before the binary codec", async function () {
+    const records = makeRecords(3);
+    const decoded = await decodeDocument(
+      recordListSchema,
+      "records",
+      legacyJson(records),
+    );
+    expect(decoded.data).to.deep.equal(records);
+
+    const enveloped = await encodeDocument(recordListSchema, records, [], {
+      format: "json",
+    });
+    expect(
+      (await decodeDocument(recordListSchema, "records", enveloped)).data,
+    ).to.deep.equal(records);
+  });
+
+  it("shrinks a day chunk and a year of records compared to JSON", async function () {
+    const rows: {
+      payload: string;
+      json: number;
+      binary: number;
+      compressed: number;
+    }[] = [];
+    for (const count of [4, 28, 365 * 4]) {
+      const records = makeRecords(count);
+      const json = legacyJson(records).length;
+      const binary = (
+        await encodeDocument(recordListSchema, records, [], { compress: false })
+      ).length;
+      const compressed = (await encodeDocument(recordListSchema, records))
+        .length;
+      rows.push({ payload: `${count} records`, json, binary, compressed });
+
+      expect(binary).to.be.lessThan(json * 0.5);
+      expect(compressed).to.be.at.most(binary);
+    }
+    console.table(
+      rows.map(({ payload, json, binary, compressed }) => ({
+        payload,
+        "json bytes": json,
+        "binary bytes": binary,
+        "compressed bytes": compressed,
+        saved: `${(100 - (compressed / json) * 100).toFixed(1)}%`,
+      })),
+    );
+  });
+});
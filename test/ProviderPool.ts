@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import http from "http";
+import type { AddressInfo } from "net";
+
+import {
+  circuitState,
+  PoolChain,
+  ProviderPool,
+} from "../frontend/web/src/rpc/providerPool";
+
+type Reply = (id: number) => { status: number; body?: unknown };
+
+const healthy: Reply = (id) => ({
+  status: 200,
+  body: { jsonrpc: "2.0", id, result: "0x2a" },
+});
+const broken: Reply = () => ({ status: 500 });
+const throttled: Reply = (id) => ({
+  status: 200,
+  body: {
+    jsonrpc: "2.0",
+    id,
+    error: { code: -32005, message: "limit exceeded" },
+  },
+});
+
+// A local JSON-RPC endpoint answering every call with `reply`
+async function endpoint(reply: Reply) {
+  const calls: string[] = [];
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const payload = JSON.parse(body);
+      const requests = Array.isArray(payload) ? payload : [payload];
+      calls.push(...requests.map((request) => request.method));
+      const replies = requests.map((request) => reply(request.id));
+      response.writeHead(replies[0].status, {
+        "content-type": "application/json",
+      });
+      response.end(
+        JSON.stringify(
+          Array.isArray(payload)
+            ? replies.map((r) => r.body)
+            : (replies[0].body ?? {}),
+        ),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/`, calls, server };
+}
+
+const chainWith = (rpcUrls: string[]): PoolChain => ({
+  id: 31337,
+  name: "Test",
+  rpcUrls,
+});
+
+describe("Provider pool", function () {
+  const servers: http.Server[] = [];
+
+  const start = async (reply: Reply) => {
+    const started = await endpoint(reply);
+    servers.push(started.server);
+    return started;
+  };
+
+  afterEach(async function () {
+    await Promise.all(
+      servers
+        .splice(0)
+        .map(
+          (server) => new Promise((resolve) => server.close(() => resolve(0))),
+        ),
+    );
+  });
+
+  it("fails over to the next endpoint and prefers the one that worked", async function () {
+    const [down, up] = [await start(broken), await start(healthy)];
+    const pool = new ProviderPool(chainWith([down.url, up.url]));
+
+    expect(await pool.send("eth_blockNumber", [])).to.equal("0x2a");
+    const [downStats, upStats] = pool.stats();
+    expect(downStats).to.include({
+      requests: 1,
+      failures: 1,
+      consecutiveFailures: 1,
+    });
+    expect(downStats.lastError).to.contain(down.url);
+    expect(upStats).to.include({ requests: 1, failures: 0 });
+    expect(upStats.latencyMs).to.be.a("number");
+
+    // The failed endpoint now scores worse, so the next call skips it
+    await pool.send("eth_blockNumber", []);
+    expect(down.calls).to.have.length(1);
+    expect(up.calls).to.have.length(2);
+    pool.destroy();
+  });
+
+  it("opens the circuit after repeated failures until it is reset", async function () {
+    const down = await start(broken);
+    const pool = new ProviderPool(chainWith([down.url]));
+    const updates: number[] = [];
+    pool.subscribe((stats) => updates.push(stats[0].consecutiveFailures));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(pool.send("eth_blockNumber", [])).to.be.rejectedWith(
+        "All Test RPC endpoints failed",
+      );
+    }
+    expect(updates).to.deep.equal([1, 2, 3]);
+    expect(circuitState(pool.stats()[0])).to.equal("open");
+    expect(circuitState(pool.stats()[0], pool.stats()[0].openUntil)).to.equal(
+      "half-open",
+    );
+
+    pool.resetCircuits();
+    expect(circuitState(pool.stats()[0])).to.equal("closed");
+    pool.destroy();
+  });
+
+  it("counts rate limiting against the endpoint", async function () {
+    const [limited, up] = [await start(throttled), await start(healthy)];
+    const pool = new ProviderPool(chainWith([limited.url, up.url]));
+
+    expect(await pool.send("eth_chainId", [])).to.equal("0x2a");
+    expect(pool.stats()[0]).to.include({ failures: 1 });
+    expect(pool.stats()[0].lastError).to.contain("limit exceeded");
+    pool.destroy();
+  });
+});
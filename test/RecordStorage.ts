@@ -0,0 +1,412 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import type { UniversalAdapter } from "../types/contracts/UniversalAdapter";
+import {
+  describeKey,
+  LEGACY_KEYS,
+  walletKeys,
+} from "../frontend/web/src/storage/keys";
+import {
+  decodeDocument,
+  encodeDocument,
+} from "../frontend/web/src/storage/schema";
+import {
+  NutritionRecord,
+  recordListSchema,
+} from "../frontend/web/src/storage/records";
+import { DataStore, RecordLog } from "../frontend/web/src/storage/recordLog";
+import {
+  dataStoredLookup,
+  StoredWrite,
+  VersionedStore,
+  versionOf,
+  WriteConflictError,
+} from "../frontend/web/src/storage/versionedStore";
+import { ulid } from "../frontend/web/src/storage/ulid";
+
+const OWNER = "0x00000000000000000000000000000000000000Aa";
+
+// Stands in for UniversalAdapter's getData/setData
+class MemoryStore implements DataStore {
+  readonly values = new Map<string, string>();
+  readonly writes: string[] = [];
+
+  async getData(key: string) {
+    return this.values.get(key) ?? "0x";
+  }
+
+  async setData(key: string, value: Uint8Array) {
+    this.writes.push(key);
+    this.values.set(key, ethers.hexlify(value));
+  }
+}
+
+const noEvents = async (): Promise<StoredWrite | null> => null;
+
+// Lets another tab's write land between a read and the version check of the next write
+class RacingStore extends VersionedStore {
+  beforeWrite: ((key: string) => Promise<void>) | null = null;
+
+  constructor(store: DataStore) {
+    super(store, noEvents);
+  }
+
+  async write(key: string, value: Uint8Array, expectedVersion: string) {
+    const hook = this.beforeWrite;
+    this.beforeWrite = null;
+    if (hook) await hook(key);
+    return super.write(key, value, expectedVersion);
+  }
+}
+
+// Serves DataStored logs for the blocks asked about, recording each range queried
+function adapterWithLogs(
+  latest: number,
+  logs: { key: string; value: string; blockNumber: number }[],
+) {
+  const ranges: [number, number][] = [];
+  const contract = {
+    runner: { provider: { getBlockNumber: async () => latest } },
+    filters: { DataStored: (owner: string) => owner },
+    queryFilter: async (
+      _filter: string,
+      fromBlock: number,
+      toBlock: number,
+    ) => {
+      ranges.push([fromBlock, toBlock]);
+      return logs
+        .filter(
+          (log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock,
+        )
+        .map(({ key, value, blockNumber }) => ({
+          args: { key, value },
+          blockNumber,
+          transactionHash: ethers.id(`tx ${blockNumber}`),
+        }));
+    },
+  };
+  return { contract: contract as unknown as UniversalAdapter, ranges };
+}
+
+let sequence = 0;
+function meal(date: string): NutritionRecord {
+  const handle = (field: string) =>
+    ethers.keccak256(ethers.toUtf8Bytes(`${field}-${sequence}`));
+  return {
+    id: ulid(Date.UTC(2025, 0, 1) + sequence++),
+    date,
+    mealType: "lunch",
+    calories: handle("calories"),
+    protein: handle("protein"),
+    carbs: handle("carbs"),
+    fat: handle("fat"),
+    notes: "",
+  };
+}
+
+describe("Record storage", function () {
+  let store: MemoryStore;
+  let versioned: VersionedStore;
+  let log: RecordLog<NutritionRecord>;
+
+  beforeEach(function () {
+    store = new MemoryStore();
+    versioned = new VersionedStore(store, noEvents);
+    log = new RecordLog(walletKeys(OWNER).records, recordListSchema);
+  });
+
+  describe("wallet keys", function () {
+    it("namespaces records and goals by the lower-cased wallet", function () {
+      expect(walletKeys(OWNER)).to.deep.equal(walletKeys(OWNER.toLowerCase()));
+      expect(walletKeys(OWNER).records).to.equal(
+        `${LEGACY_KEYS.records}:${OWNER.toLowerCase()}`,
+      );
+      expect(walletKeys(OWNER).goals).not.to.equal(
+        walletKeys(ethers.ZeroAddress).goals,
+      );
+    });
+
+    it("names the writes shown in the transaction panel", function () {
+      const keys = walletKeys(OWNER);
+      expect(describeKey(log.dayKey("2025-03-04"))).to.equal(
+        "Save records for 2025-03-04",
+      );
+      expect(describeKey(log.indexKey)).to.equal("Update record index");
+      expect(describeKey(keys.goals)).to.equal("Save health goals");
+      expect(describeKey(keys.records)).to.equal("Save record archive");
+      expect(describeKey("other")).to.equal("Write other");
+    });
+  });
+
+  describe("documents", function () {
+    it("migrates bare arrays from before envelopes", async function () {
+      const legacy = [
+        {
+          id: 1700000000000,
+          date: "2025-02-01",
+          mealType: "dinner",
+          calories: "FHE-NjAw",
+          protein: "FHE-MzA=",
+          carbs: "FHE-ODA=",
+          fat: "FHE-MjA=",
+        },
+      ];
+      const decoded = await decodeDocument(
+        recordListSchema,
+        "records",
+        ethers.toUtf8Bytes(JSON.stringify(legacy)),
+      );
+      expect(decoded).to.deep.equal({
+        data: [{ ...legacy[0], id: "1700000000000", notes: "" }],
+        quarantine: [],
+      });
+    });
+
+    it("quarantines invalid items, newer versions and unreadable bytes instead of dropping them", async function () {
+      const valid = meal("2025-01-01");
+      const partial = await decodeDocument(
+        recordListSchema,
+        "records",
+        ethers.toUtf8Bytes(
+          JSON.stringify({
+            schemaVersion: 1,
+            data: [valid, { ...valid, mealType: "brunch" }],
+          }),
+        ),
+      );
+      expect(partial.data).to.deep.equal([valid]);
+      expect(partial.quarantine).to.deep.equal([
+        {
+          key: "records",
+          reason: "records[1]: unknown meal type brunch",
+          raw: { ...valid, mealType: "brunch" },
+        },
+      ]);
+
+      const newer = await decodeDocument(
+        recordListSchema,
+        "records",
+        ethers.toUtf8Bytes(JSON.stringify({ schemaVersion: 9, data: [] })),
+      );
+      expect(newer.data).to.deep.equal([]);
+      expect(newer.quarantine[0].reason).to.equal(
+        "records: written by a newer app (schema v9)",
+      );
+
+      const garbled = await decodeDocument(
+        recordListSchema,
+        "records",
+        "0x01ff",
+      );
+      expect(garbled.data).to.deep.equal([]);
+      expect(garbled.quarantine).to.have.length(1);
+    });
+  });
+
+  describe("record log", function () {
+    it("appends into day chunks and lists each day once in the index", async function () {
+      const [first, second, third] = [
+        meal("2025-01-02"),
+        meal("2025-01-02"),
+        meal("2025-01-01"),
+      ];
+      await log.append(versioned, first);
+      await log.append(versioned, second);
+      await log.append(versioned, third);
+      expect(store.writes).to.deep.equal([
+        log.dayKey("2025-01-02"),
+        log.indexKey,
+        log.dayKey("2025-01-02"),
+        log.dayKey("2025-01-01"),
+        log.indexKey,
+      ]);
+
+      const index = await log.readIndex(store);
+      expect(index.data.days).to.deep.equal(["2025-01-01", "2025-01-02"]);
+      expect((await log.readDay(store, "2025-01-02")).data).to.deep.equal([
+        first,
+        second,
+      ]);
+
+      // A retried append of the same record is a no-op
+      await log.append(versioned, first);
+      expect(store.writes).to.have.length(5);
+    });
+
+    it("refuses records the schema would quarantine", async function () {
+      await expect(
+        log.append(versioned, { ...meal("2025-01-01"), date: "1969-12-31" }),
+      ).to.be.rejectedWith("date must be from 1970-01-01 to 2149-06-06");
+      expect(store.writes).to.deep.equal([]);
+    });
+
+    it("pages from the newest day back to the archive", async function () {
+      const archived = meal("2024-12-25");
+      await store.setData(
+        walletKeys(OWNER).records,
+        await encodeDocument(recordListSchema, [archived]),
+      );
+      const days = ["2025-01-01", "2025-01-02", "2025-01-03"];
+      const records = days.map((date) => meal(date));
+      for (const record of records) await log.append(versioned, record);
+      const index = (await log.readIndex(store)).data;
+
+      const newest = await log.loadPage(store, index, 0, 2);
+      expect(newest.records).to.deep.equal([records[2], records[1]]);
+      const older = await log.loadPage(store, index, newest.next!, 2);
+      expect(older).to.deep.equal({
+        records: [records[0]],
+        next: 3,
+        quarantine: [],
+      });
+      expect(
+        (await log.loadPage(store, index, older.next!)).records,
+      ).to.deep.equal([archived]);
+
+      const range = await log.loadRange(
+        store,
+        index,
+        "2024-12-01",
+        "2025-01-02",
+      );
+      expect(range.records).to.deep.equal([archived, records[0], records[1]]);
+    });
+  });
+
+  describe("versioned writes", function () {
+    it("rejects a write based on a version that has moved on", async function () {
+      const key = log.indexKey;
+      const { version } = await versioned.read(key);
+      await store.setData(key, ethers.toUtf8Bytes("[]"));
+
+      const write = versioned.write(key, ethers.toUtf8Bytes("{}"), version);
+      await expect(write).to.be.rejectedWith(WriteConflictError);
+      const error: WriteConflictError = await write.then(
+        () => expect.fail("the write went through"),
+        (e) => e,
+      );
+      expect(error.expected).to.equal(version);
+      expect(error.actual.hash).to.equal(versionOf(ethers.toUtf8Bytes("[]")));
+      expect(await store.getData(key)).to.equal(
+        ethers.hexlify(ethers.toUtf8Bytes("[]")),
+      );
+    });
+
+    it("points the current version at the event that wrote it", async function () {
+      const key = log.indexKey;
+      const value = ethers.hexlify(ethers.toUtf8Bytes("[]"));
+      await store.setData(key, ethers.getBytes(value));
+      const written = new VersionedStore(store, async () => ({
+        value,
+        blockNumber: 42,
+        txHash: ethers.ZeroHash,
+      }));
+      expect(await written.latestVersion(key)).to.deep.equal({
+        hash: versionOf(value),
+        blockNumber: 42,
+        txHash: ethers.ZeroHash,
+      });
+
+      // An event for other bytes doesn't describe what is stored now
+      const stale = new VersionedStore(store, async () => ({
+        value: "0x",
+        blockNumber: 41,
+        txHash: ethers.ZeroHash,
+      }));
+      expect((await stale.latestVersion(key)).blockNumber).to.equal(null);
+    });
+
+    it("only looks for the writing event when a write conflicts", async function () {
+      const key = log.indexKey;
+      let lookups = 0;
+      const counted = new VersionedStore(store, async () => {
+        lookups++;
+        return null;
+      });
+      const { version } = await counted.read(key);
+      await counted.write(key, ethers.toUtf8Bytes("[]"), version);
+      expect(lookups).to.equal(0);
+
+      await expect(
+        counted.write(key, ethers.toUtf8Bytes("{}"), version),
+      ).to.be.rejectedWith(WriteConflictError);
+      expect(lookups).to.equal(1);
+    });
+
+    it("pages back to the adapter's deployment block for the writing event", async function () {
+      const key = log.indexKey;
+      const value = ethers.hexlify(ethers.toUtf8Bytes("[]"));
+      const { contract, ranges } = adapterWithLogs(45_000, [
+        { key, value: "0x", blockNumber: 1_000 },
+        { key, value, blockNumber: 3_000 },
+        { key: "other", value: "0x", blockNumber: 40_000 },
+      ]);
+
+      const found = await dataStoredLookup(contract, OWNER, 2_500)(key);
+      expect(found).to.deep.equal({
+        value,
+        blockNumber: 3_000,
+        txHash: ethers.id("tx 3000"),
+      });
+      expect(ranges).to.deep.equal([
+        [35_001, 45_000],
+        [25_001, 35_000],
+        [15_001, 25_000],
+        [5_001, 15_000],
+        [2_500, 5_000],
+      ]);
+
+      // Nothing before the deployment block is read
+      ranges.length = 0;
+      expect(await dataStoredLookup(contract, OWNER, 3_001)(key)).to.equal(
+        null,
+      );
+      expect(ranges.at(-1)).to.deep.equal([3_001, 5_000]);
+    });
+
+    it("leaves the writer unknown when it is older than the recent blocks searched", async function () {
+      const key = log.indexKey;
+      const { contract, ranges } = adapterWithLogs(100_000, [
+        { key, value: "0x", blockNumber: 3_000 },
+      ]);
+      expect(await dataStoredLookup(contract, OWNER)(key)).to.equal(null);
+      expect(ranges).to.have.length(5);
+      expect(ranges.at(-1)).to.deep.equal([50_001, 60_000]);
+    });
+
+    it("merges an append that raced another one into the same day", async function () {
+      const [mine, theirs] = [meal("2025-01-05"), meal("2025-01-05")];
+      const racing = new RacingStore(store);
+      racing.beforeWrite = () => log.append(versioned, theirs);
+      await log.append(racing, mine);
+
+      expect((await log.readDay(store, "2025-01-05")).data).to.deep.equal([
+        theirs,
+        mine,
+      ]);
+      expect((await log.readIndex(store)).data.days).to.deep.equal([
+        "2025-01-05",
+      ]);
+    });
+
+    it("gives up once every attempt ran into a conflict", async function () {
+      const racing = new RacingStore(store);
+      let conflicts = 0;
+      const interfere = async (key: string) => {
+        conflicts++;
+        await store.setData(
+          key,
+          await encodeDocument(recordListSchema, [meal("2025-01-06")]),
+        );
+        racing.beforeWrite = interfere;
+      };
+      racing.beforeWrite = interfere;
+
+      await expect(
+        log.append(racing, meal("2025-01-06"), 2),
+      ).to.be.rejectedWith(WriteConflictError);
+      expect(conflicts).to.equal(2);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import {
+  TrackedTransaction,
+  TransactionManager,
+} from "../frontend/web/src/transactions/transactionManager";
+
+const STORAGE_KEY = "nutrition-ai:transactions";
+
+// Stands in for window.localStorage
+class MemoryStorage {
+  readonly items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+// Confirmation is followed in the background after track() resolves
+async function until(check: () => boolean, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe("Transaction manager", function () {
+  let sender: HardhatEthersSigner;
+  let recipient: HardhatEthersSigner;
+  let storage: MemoryStorage;
+  let chainId: number;
+
+  const managerFor = (store = storage) =>
+    new TransactionManager(async () => ethers.provider, 2, store);
+
+  const pendingEntry = (
+    changes: Partial<TrackedTransaction>,
+  ): TrackedTransaction => ({
+    hash: ethers.ZeroHash,
+    label: "Save health goals",
+    from: sender.address.toLowerCase(),
+    chainId,
+    nonce: 0,
+    startBlock: 0,
+    submittedAt: 0,
+    status: "submitted",
+    confirmations: 0,
+    ...changes,
+  });
+
+  beforeEach(async function () {
+    [sender, recipient] = await ethers.getSigners();
+    storage = new MemoryStorage();
+    chainId = Number((await ethers.provider.getNetwork()).chainId);
+  });
+
+  it("follows a transaction until it is mined and confirmed", async function () {
+    const manager = managerFor();
+    const statuses: string[] = [];
+    manager.subscribe(([latest]) => statuses.push(latest.status));
+
+    const tx = await sender.sendTransaction({
+      to: recipient.address,
+      value: 1n,
+    });
+    await mine(1);
+    const receipt = await manager.track(tx, "Save records for 2025-01-01");
+    expect(receipt.hash).to.equal(tx.hash);
+    await until(() => manager.list()[0].status === "confirmed");
+
+    expect(statuses).to.deep.equal(["submitted", "mined", "confirmed"]);
+    expect(manager.list()[0]).to.include({
+      hash: tx.hash,
+      label: "Save records for 2025-01-01",
+      from: sender.address.toLowerCase(),
+      chainId,
+      nonce: tx.nonce,
+      blockNumber: receipt.blockNumber,
+      confirmations: 2,
+    });
+    // A reload sees the same list
+    expect(managerFor().list()).to.deep.equal(manager.list());
+  });
+
+  it("resumes a pending transaction after a reload", async function () {
+    const tx = await sender.sendTransaction({
+      to: recipient.address,
+      value: 1n,
+    });
+    await mine(1);
+    const startBlock = tx.blockNumber! - 1;
+    storage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([
+        pendingEntry({ hash: tx.hash, nonce: tx.nonce, startBlock }),
+      ]),
+    );
+
+    const manager = managerFor();
+    await manager.resume();
+    await until(() => manager.list()[0].status === "confirmed");
+  });
+
+  it("marks transactions the node no longer knows as replaced or dropped", async function () {
+    const used = await sender.getNonce();
+    await sender.sendTransaction({ to: recipient.address, value: 1n });
+    const elsewhere = pendingEntry({
+      hash: ethers.id("other chain"),
+      chainId: chainId + 1,
+    });
+    storage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([
+        pendingEntry({ hash: ethers.id("replaced"), nonce: used }),
+        pendingEntry({ hash: ethers.id("dropped"), nonce: used + 10 }),
+        elsewhere,
+      ]),
+    );
+
+    const manager = managerFor();
+    await manager.resume();
+    const [replaced, dropped, untouched] = manager.list();
+    expect(replaced).to.include({
+      status: "replaced",
+      replaceReason: "replaced",
+    });
+    expect(dropped).to.include({
+      status: "failed",
+      error: "Dropped from the mempool",
+    });
+    expect(untouched).to.deep.equal(elsewhere);
+
+    manager.clearFinished();
+    expect(manager.list()).to.deep.equal([elsewhere]);
+  });
+
+  it("starts empty when the stored list is unreadable", function () {
+    storage.setItem(STORAGE_KEY, "{");
+    expect(managerFor().list()).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  encryptFields,
+  encryptWaterEntry,
+  setFheBackend,
+  WATER_ENTRY_FIELDS,
+} from "../frontend/web/src/fhe/encryption";
+import {
+  createLocalDecryptionRelayer,
+  createMockBackend,
+} from "../frontend/web/src/fhe/mockBackend";
+import {
+  createDecryptionScope,
+  DecryptionRelayer,
+  signUserDecryption,
+  signWithEthers,
+  userDecryptUint32,
+} from "../frontend/web/src/fhe/userDecryption";
+
+const CHAIN_ID = 31337;
+const CONTRACT = "0x00000000000000000000000000000000000000c1";
+const OTHER_CONTRACT = "0x00000000000000000000000000000000000000c2";
+
+describe("User decryption", function () {
+  const user = ethers.Wallet.createRandom();
+  const stranger = ethers.Wallet.createRandom();
+
+  after(function () {
+    setFheBackend(null);
+  });
+
+  describe("mock backend", function () {
+    it("encrypts fields into deterministic handles with the FHEVM layout", async function () {
+      setFheBackend(createMockBackend(CHAIN_ID));
+      const context = { contractAddress: CONTRACT, userAddress: user.address };
+      const encrypted = await encryptWaterEntry(750, context);
+      expect(Object.keys(encrypted)).to.have.members([
+        ...WATER_ENTRY_FIELDS,
+        "inputProof",
+      ]);
+
+      WATER_ENTRY_FIELDS.forEach((field, index) => {
+        const bytes = ethers.getBytes(encrypted[field]);
+        expect(bytes).to.have.length(32);
+        expect(bytes[21]).to.equal(index);
+        expect(Number(ethers.toBigInt(bytes.slice(22, 30)))).to.equal(CHAIN_ID);
+        expect(bytes[30]).to.equal(4); // euint32
+        expect(bytes[31]).to.equal(0);
+      });
+
+      // A fresh backend replays the same sequence of handles and proofs
+      setFheBackend(createMockBackend(CHAIN_ID));
+      expect(await encryptWaterEntry(750, context)).to.deep.equal(encrypted);
+      expect(await encryptWaterEntry(750, context)).not.to.deep.equal(
+        encrypted,
+      );
+    });
+
+    it("reveals a value only for the contract it was encrypted for", async function () {
+      const backend = createMockBackend(CHAIN_ID);
+      const {
+        handles: [handle],
+      } = await backend.encryptUint32(CONTRACT, user.address, [12.6]);
+      expect(backend.reveal(handle, CONTRACT)).to.equal(13);
+      expect(backend.reveal(handle, OTHER_CONTRACT)).to.equal(undefined);
+      expect(backend.reveal(ethers.ZeroHash, CONTRACT)).to.equal(undefined);
+    });
+
+    it("rejects values that don't fit a euint32", async function () {
+      setFheBackend(createMockBackend(CHAIN_ID));
+      const context = { contractAddress: CONTRACT, userAddress: user.address };
+      for (const value of [-1, 2 ** 32, NaN, Infinity]) {
+        await expect(
+          encryptFields(["calories"], { calories: value }, context),
+        ).to.be.rejectedWith(RangeError);
+      }
+    });
+  });
+
+  describe("local relayer", function () {
+    let backend: ReturnType<typeof createMockBackend>;
+    let relayer: DecryptionRelayer;
+    let handles: string[];
+
+    beforeEach(async function () {
+      backend = createMockBackend(CHAIN_ID);
+      relayer = createLocalDecryptionRelayer(backend);
+      ({ handles } = await backend.encryptUint32(
+        CONTRACT,
+        user.address,
+        [2100, 120],
+      ));
+    });
+
+    const sessionFor = (
+      wallet: ethers.Wallet | ethers.HDNodeWallet,
+      contractAddress = CONTRACT,
+    ) =>
+      signUserDecryption(
+        relayer,
+        signWithEthers(wallet),
+        wallet.address,
+        createDecryptionScope(contractAddress, CHAIN_ID),
+      );
+
+    it("decrypts the handles of a signed request", async function () {
+      const session = await sessionFor(user);
+      expect(await userDecryptUint32(relayer, handles, session)).to.deep.equal({
+        [handles[0]]: 2100,
+        [handles[1]]: 120,
+      });
+      expect(await userDecryptUint32(relayer, [], session)).to.deep.equal({});
+    });
+
+    it("rejects a signature from another wallet or over another scope", async function () {
+      const session = await sessionFor(user);
+      await expect(
+        userDecryptUint32(relayer, handles, {
+          ...session,
+          userAddress: stranger.address,
+        }),
+      ).to.be.rejectedWith("Signature does not match user");
+      await expect(
+        userDecryptUint32(relayer, handles, {
+          ...session,
+          scope: { ...session.scope, durationDays: 365 },
+        }),
+      ).to.be.rejectedWith("Signature does not match user");
+    });
+
+    it("rejects handles of another contract and unknown handles", async function () {
+      await expect(
+        userDecryptUint32(
+          relayer,
+          handles,
+          await sessionFor(user, OTHER_CONTRACT),
+        ),
+      ).to.be.rejectedWith("Unknown ciphertext handle");
+      await expect(
+        userDecryptUint32(relayer, [ethers.ZeroHash], await sessionFor(user)),
+      ).to.be.rejectedWith("Unknown ciphertext handle");
+    });
+
+    it("rejects a request outside its validity window", async function () {
+      const twoDaysAgo = Math.floor(Date.now() / 1000) - 2 * 86400;
+      const session = await signUserDecryption(
+        relayer,
+        signWithEthers(user),
+        user.address,
+        {
+          ...createDecryptionScope(CONTRACT, CHAIN_ID, 1),
+          startTimestamp: twoDaysAgo,
+        },
+      );
+      await expect(
+        userDecryptUint32(relayer, handles, session),
+      ).to.be.rejectedWith("Decryption signature has expired");
+      await expect(relayer.userDecrypt(handles, session)).to.be.rejectedWith(
+        "outside its validity window",
+      );
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import { ethers, fhevm } from "hardhat";
+
+import type { FheBackend } from "../../frontend/web/src/fhe/backend";
+
+// Encrypts through the plugin's mock relayer, in the shape the frontend backends return
+export const fhevmBackend: Pick<FheBackend, "encryptUint32"> = {
+  async encryptUint32(contractAddress, userAddress, values) {
+    const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+    values.forEach((value) => input.add32(value));
+    const { handles, inputProof } = await input.encrypt();
+    return {
+      handles: handles.map((handle) => ethers.hexlify(handle)),
+      inputProof: ethers.hexlify(inputProof),
+    };
+  },
+};
@@ -0,0 +1,1564 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace NutritionAIFHE {
+  export type AnalysisParamsStruct = {
+    bmr: BigNumberish;
+    activityFactor: BigNumberish;
+    loseWeightAdjustment: BigNumberish;
+    gainMuscleAdjustment: BigNumberish;
+    proteinPercent: BigNumberish;
+    proteinPerKg: BigNumberish;
+    fatPercent: BigNumberish;
+    waterTargetMl: BigNumberish;
+  };
+
+  export type AnalysisParamsStructOutput = [
+    bmr: bigint,
+    activityFactor: bigint,
+    loseWeightAdjustment: bigint,
+    gainMuscleAdjustment: bigint,
+    proteinPercent: bigint,
+    proteinPerKg: bigint,
+    fatPercent: bigint,
+    waterTargetMl: bigint
+  ] & {
+    bmr: bigint;
+    activityFactor: bigint;
+    loseWeightAdjustment: bigint;
+    gainMuscleAdjustment: bigint;
+    proteinPercent: bigint;
+    proteinPerKg: bigint;
+    fatPercent: bigint;
+    waterTargetMl: bigint;
+  };
+
+  export type AnalysisRecordStruct = {
+    batchId: BigNumberish;
+    requestId: BigNumberish;
+    completedAt: BigNumberish;
+    calorieTarget: BigNumberish;
+    proteinTarget: BigNumberish;
+    carbTarget: BigNumberish;
+    fatTarget: BigNumberish;
+    waterTarget: BigNumberish;
+    score: BigNumberish;
+  };
+
+  export type AnalysisRecordStructOutput = [
+    batchId: bigint,
+    requestId: bigint,
+    completedAt: bigint,
+    calorieTarget: bigint,
+    proteinTarget: bigint,
+    carbTarget: bigint,
+    fatTarget: bigint,
+    waterTarget: bigint,
+    score: bigint
+  ] & {
+    batchId: bigint;
+    requestId: bigint;
+    completedAt: bigint;
+    calorieTarget: bigint;
+    proteinTarget: bigint;
+    carbTarget: bigint;
+    fatTarget: bigint;
+    waterTarget: bigint;
+    score: bigint;
+  };
+}
+
+export interface NutritionAIFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_REGISTERED_CIPHERTEXTS"
+      | "MAX_TIMELOCK_DELAY"
+      | "acceptOwnership"
+      | "actionIdOf"
+      | "actionScheduledAt"
+      | "addProvider"
+      | "analysisCount"
+      | "batchOpen"
+      | "batchProcessed"
+      | "batchUserData"
+      | "cancelAction"
+      | "cancelOwnershipProposal"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "getAnalysis"
+      | "getAnalysisHistory"
+      | "getAnalysisParams"
+      | "hasAnalysis"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "paused"
+      | "pendingOwner"
+      | "proposeOwnership"
+      | "protocolId"
+      | "registerCiphertexts"
+      | "removeProvider"
+      | "requestAnalysis"
+      | "scheduleAction"
+      | "setAnalysisParams"
+      | "setCooldownSeconds"
+      | "setPaused"
+      | "setTimelockDelay"
+      | "submitUserData"
+      | "timelockDelay"
+      | "timelockEpoch"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ActionCancelled"
+      | "ActionExecuted"
+      | "ActionScheduled"
+      | "AnalysisParamsSet"
+      | "BatchClosed"
+      | "BatchOpened"
+      | "CiphertextsRegistered"
+      | "CooldownSet"
+      | "DataSubmitted"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "OwnershipProposalCancelled"
+      | "OwnershipProposed"
+      | "OwnershipTransferred"
+      | "PauseToggled"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "TimelockDelaySet"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_REGISTERED_CIPHERTEXTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TIMELOCK_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "actionIdOf",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "actionScheduledAt",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "analysisCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "batchOpen", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "batchProcessed",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchUserData",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelAction",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOwnershipProposal",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAnalysis",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAnalysisHistory",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAnalysisParams",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasAnalysis",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerCiphertexts",
+    values: [BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAnalysis",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scheduleAction",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAnalysisParams",
+    values: [NutritionAIFHE.AnalysisParamsStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "setTimelockDelay",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitUserData",
+    values: [
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "timelockDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "timelockEpoch",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_REGISTERED_CIPHERTEXTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TIMELOCK_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "actionIdOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "actionScheduledAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "analysisCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchOpen", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchProcessed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchUserData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOwnershipProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAnalysis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAnalysisHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAnalysisParams",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasAnalysis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerCiphertexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAnalysis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scheduleAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAnalysisParams",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setTimelockDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitUserData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "timelockDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "timelockEpoch",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ActionCancelledEvent {
+  export type InputTuple = [actionId: BytesLike];
+  export type OutputTuple = [actionId: string];
+  export interface OutputObject {
+    actionId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ActionExecutedEvent {
+  export type InputTuple = [actionId: BytesLike];
+  export type OutputTuple = [actionId: string];
+  export interface OutputObject {
+    actionId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ActionScheduledEvent {
+  export type InputTuple = [
+    actionId: BytesLike,
+    data: BytesLike,
+    scheduledAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    actionId: string,
+    data: string,
+    scheduledAt: bigint
+  ];
+  export interface OutputObject {
+    actionId: string;
+    data: string;
+    scheduledAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AnalysisParamsSetEvent {
+  export type InputTuple = [
+    oldParams: NutritionAIFHE.AnalysisParamsStruct,
+    newParams: NutritionAIFHE.AnalysisParamsStruct
+  ];
+  export type OutputTuple = [
+    oldParams: NutritionAIFHE.AnalysisParamsStructOutput,
+    newParams: NutritionAIFHE.AnalysisParamsStructOutput
+  ];
+  export interface OutputObject {
+    oldParams: NutritionAIFHE.AnalysisParamsStructOutput;
+    newParams: NutritionAIFHE.AnalysisParamsStructOutput;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CiphertextsRegisteredEvent {
+  export type InputTuple = [user: AddressLike, count: BigNumberish];
+  export type OutputTuple = [user: string, count: bigint];
+  export interface OutputObject {
+    user: string;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSetEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DataSubmittedEvent {
+  export type InputTuple = [user: AddressLike, batchId: BigNumberish];
+  export type OutputTuple = [user: string, batchId: bigint];
+  export interface OutputObject {
+    user: string;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    results: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    results: bigint[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    results: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipProposalCancelledEvent {
+  export type InputTuple = [pendingOwner: AddressLike];
+  export type OutputTuple = [pendingOwner: string];
+  export interface OutputObject {
+    pendingOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipProposedEvent {
+  export type InputTuple = [owner: AddressLike, pendingOwner: AddressLike];
+  export type OutputTuple = [owner: string, pendingOwner: string];
+  export interface OutputObject {
+    owner: string;
+    pendingOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [oldOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [oldOwner: string, newOwner: string];
+  export interface OutputObject {
+    oldOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PauseToggledEvent {
+  export type InputTuple = [paused: boolean];
+  export type OutputTuple = [paused: boolean];
+  export interface OutputObject {
+    paused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TimelockDelaySetEvent {
+  export type InputTuple = [oldDelay: BigNumberish, newDelay: BigNumberish];
+  export type OutputTuple = [oldDelay: bigint, newDelay: bigint];
+  export interface OutputObject {
+    oldDelay: bigint;
+    newDelay: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface NutritionAIFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): NutritionAIFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: NutritionAIFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_REGISTERED_CIPHERTEXTS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TIMELOCK_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  actionIdOf: TypedContractMethod<[data: BytesLike], [string], "view">;
+
+  actionScheduledAt: TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  analysisCount: TypedContractMethod<[provider: AddressLike], [bigint], "view">;
+
+  batchOpen: TypedContractMethod<[], [boolean], "view">;
+
+  batchProcessed: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  batchUserData: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string
+      ] & {
+        dailyCalories: string;
+        proteinGrams: string;
+        carbGrams: string;
+        fatGrams: string;
+        waterIntakeMl: string;
+        activityLevel: string;
+        healthGoal: string;
+        allergyFlags: string;
+        weightKg: string;
+        heightCm: string;
+        ageYears: string;
+        sex: string;
+      }
+    ],
+    "view"
+  >;
+
+  cancelAction: TypedContractMethod<
+    [actionId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelOwnershipProposal: TypedContractMethod<[], [void], "nonpayable">;
+
+  closeBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        boolean,
+        NutritionAIFHE.AnalysisParamsStructOutput
+      ] & {
+        batchId: bigint;
+        provider: string;
+        stateHash: string;
+        processed: boolean;
+        params: NutritionAIFHE.AnalysisParamsStructOutput;
+      }
+    ],
+    "view"
+  >;
+
+  getAnalysis: TypedContractMethod<
+    [provider: AddressLike, batchId: BigNumberish],
+    [NutritionAIFHE.AnalysisRecordStructOutput],
+    "view"
+  >;
+
+  getAnalysisHistory: TypedContractMethod<
+    [provider: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [NutritionAIFHE.AnalysisRecordStructOutput[]],
+    "view"
+  >;
+
+  getAnalysisParams: TypedContractMethod<
+    [],
+    [NutritionAIFHE.AnalysisParamsStructOutput],
+    "view"
+  >;
+
+  hasAnalysis: TypedContractMethod<
+    [provider: AddressLike, batchId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  proposeOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  registerCiphertexts: TypedContractMethod<
+    [values: BytesLike[], inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestAnalysis: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  scheduleAction: TypedContractMethod<[data: BytesLike], [void], "nonpayable">;
+
+  setAnalysisParams: TypedContractMethod<
+    [params: NutritionAIFHE.AnalysisParamsStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  setTimelockDelay: TypedContractMethod<
+    [delay: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitUserData: TypedContractMethod<
+    [
+      dailyCalories: BytesLike,
+      proteinGrams: BytesLike,
+      carbGrams: BytesLike,
+      fatGrams: BytesLike,
+      waterIntakeMl: BytesLike,
+      activityLevel: BytesLike,
+      healthGoal: BytesLike,
+      allergyFlags: BytesLike,
+      weightKg: BytesLike,
+      heightCm: BytesLike,
+      ageYears: BytesLike,
+      sex: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  timelockDelay: TypedContractMethod<[], [bigint], "view">;
+
+  timelockEpoch: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_REGISTERED_CIPHERTEXTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TIMELOCK_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "actionIdOf"
+  ): TypedContractMethod<[data: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "actionScheduledAt"
+  ): TypedContractMethod<[arg0: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "analysisCount"
+  ): TypedContractMethod<[provider: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchOpen"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batchProcessed"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchUserData"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        string
+      ] & {
+        dailyCalories: string;
+        proteinGrams: string;
+        carbGrams: string;
+        fatGrams: string;
+        waterIntakeMl: string;
+        activityLevel: string;
+        healthGoal: string;
+        allergyFlags: string;
+        weightKg: string;
+        heightCm: string;
+        ageYears: string;
+        sex: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelAction"
+  ): TypedContractMethod<[actionId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelOwnershipProposal"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        boolean,
+        NutritionAIFHE.AnalysisParamsStructOutput
+      ] & {
+        batchId: bigint;
+        provider: string;
+        stateHash: string;
+        processed: boolean;
+        params: NutritionAIFHE.AnalysisParamsStructOutput;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAnalysis"
+  ): TypedContractMethod<
+    [provider: AddressLike, batchId: BigNumberish],
+    [NutritionAIFHE.AnalysisRecordStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAnalysisHistory"
+  ): TypedContractMethod<
+    [provider: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [NutritionAIFHE.AnalysisRecordStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAnalysisParams"
+  ): TypedContractMethod<
+    [],
+    [NutritionAIFHE.AnalysisParamsStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasAnalysis"
+  ): TypedContractMethod<
+    [provider: AddressLike, batchId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "proposeOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "registerCiphertexts"
+  ): TypedContractMethod<
+    [values: BytesLike[], inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestAnalysis"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "scheduleAction"
+  ): TypedContractMethod<[data: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setAnalysisParams"
+  ): TypedContractMethod<
+    [params: NutritionAIFHE.AnalysisParamsStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTimelockDelay"
+  ): TypedContractMethod<[delay: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitUserData"
+  ): TypedContractMethod<
+    [
+      dailyCalories: BytesLike,
+      proteinGrams: BytesLike,
+      carbGrams: BytesLike,
+      fatGrams: BytesLike,
+      waterIntakeMl: BytesLike,
+      activityLevel: BytesLike,
+      healthGoal: BytesLike,
+      allergyFlags: BytesLike,
+      weightKg: BytesLike,
+      heightCm: BytesLike,
+      ageYears: BytesLike,
+      sex: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "timelockDelay"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "timelockEpoch"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "ActionCancelled"
+  ): TypedContractEvent<
+    ActionCancelledEvent.InputTuple,
+    ActionCancelledEvent.OutputTuple,
+    ActionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ActionExecuted"
+  ): TypedContractEvent<
+    ActionExecutedEvent.InputTuple,
+    ActionExecutedEvent.OutputTuple,
+    ActionExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ActionScheduled"
+  ): TypedContractEvent<
+    ActionScheduledEvent.InputTuple,
+    ActionScheduledEvent.OutputTuple,
+    ActionScheduledEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnalysisParamsSet"
+  ): TypedContractEvent<
+    AnalysisParamsSetEvent.InputTuple,
+    AnalysisParamsSetEvent.OutputTuple,
+    AnalysisParamsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CiphertextsRegistered"
+  ): TypedContractEvent<
+    CiphertextsRegisteredEvent.InputTuple,
+    CiphertextsRegisteredEvent.OutputTuple,
+    CiphertextsRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSet"
+  ): TypedContractEvent<
+    CooldownSetEvent.InputTuple,
+    CooldownSetEvent.OutputTuple,
+    CooldownSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DataSubmitted"
+  ): TypedContractEvent<
+    DataSubmittedEvent.InputTuple,
+    DataSubmittedEvent.OutputTuple,
+    DataSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipProposalCancelled"
+  ): TypedContractEvent<
+    OwnershipProposalCancelledEvent.InputTuple,
+    OwnershipProposalCancelledEvent.OutputTuple,
+    OwnershipProposalCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipProposed"
+  ): TypedContractEvent<
+    OwnershipProposedEvent.InputTuple,
+    OwnershipProposedEvent.OutputTuple,
+    OwnershipProposedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PauseToggled"
+  ): TypedContractEvent<
+    PauseToggledEvent.InputTuple,
+    PauseToggledEvent.OutputTuple,
+    PauseToggledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TimelockDelaySet"
+  ): TypedContractEvent<
+    TimelockDelaySetEvent.InputTuple,
+    TimelockDelaySetEvent.OutputTuple,
+    TimelockDelaySetEvent.OutputObject
+  >;
+
+  filters: {
+    "ActionCancelled(bytes32)": TypedContractEvent<
+      ActionCancelledEvent.InputTuple,
+      ActionCancelledEvent.OutputTuple,
+      ActionCancelledEvent.OutputObject
+    >;
+    ActionCancelled: TypedContractEvent<
+      ActionCancelledEvent.InputTuple,
+      ActionCancelledEvent.OutputTuple,
+      ActionCancelledEvent.OutputObject
+    >;
+
+    "ActionExecuted(bytes32)": TypedContractEvent<
+      ActionExecutedEvent.InputTuple,
+      ActionExecutedEvent.OutputTuple,
+      ActionExecutedEvent.OutputObject
+    >;
+    ActionExecuted: TypedContractEvent<
+      ActionExecutedEvent.InputTuple,
+      ActionExecutedEvent.OutputTuple,
+      ActionExecutedEvent.OutputObject
+    >;
+
+    "ActionScheduled(bytes32,bytes,uint256)": TypedContractEvent<
+      ActionScheduledEvent.InputTuple,
+      ActionScheduledEvent.OutputTuple,
+      ActionScheduledEvent.OutputObject
+    >;
+    ActionScheduled: TypedContractEvent<
+      ActionScheduledEvent.InputTuple,
+      ActionScheduledEvent.OutputTuple,
+      ActionScheduledEvent.OutputObject
+    >;
+
+    "AnalysisParamsSet(tuple,tuple)": TypedContractEvent<
+      AnalysisParamsSetEvent.InputTuple,
+      AnalysisParamsSetEvent.OutputTuple,
+      AnalysisParamsSetEvent.OutputObject
+    >;
+    AnalysisParamsSet: TypedContractEvent<
+      AnalysisParamsSetEvent.InputTuple,
+      AnalysisParamsSetEvent.OutputTuple,
+      AnalysisParamsSetEvent.OutputObject
+    >;
+
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "CiphertextsRegistered(address,uint256)": TypedContractEvent<
+      CiphertextsRegisteredEvent.InputTuple,
+      CiphertextsRegisteredEvent.OutputTuple,
+      CiphertextsRegisteredEvent.OutputObject
+    >;
+    CiphertextsRegistered: TypedContractEvent<
+      CiphertextsRegisteredEvent.InputTuple,
+      CiphertextsRegisteredEvent.OutputTuple,
+      CiphertextsRegisteredEvent.OutputObject
+    >;
+
+    "CooldownSet(uint256,uint256)": TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+    CooldownSet: TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+
+    "DataSubmitted(address,uint256)": TypedContractEvent<
+      DataSubmittedEvent.InputTuple,
+      DataSubmittedEvent.OutputTuple,
+      DataSubmittedEvent.OutputObject
+    >;
+    DataSubmitted: TypedContractEvent<
+      DataSubmittedEvent.InputTuple,
+      DataSubmittedEvent.OutputTuple,
+      DataSubmittedEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256[])": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "OwnershipProposalCancelled(address)": TypedContractEvent<
+      OwnershipProposalCancelledEvent.InputTuple,
+      OwnershipProposalCancelledEvent.OutputTuple,
+      OwnershipProposalCancelledEvent.OutputObject
+    >;
+    OwnershipProposalCancelled: TypedContractEvent<
+      OwnershipProposalCancelledEvent.InputTuple,
+      OwnershipProposalCancelledEvent.OutputTuple,
+      OwnershipProposalCancelledEvent.OutputObject
+    >;
+
+    "OwnershipProposed(address,address)": TypedContractEvent<
+      OwnershipProposedEvent.InputTuple,
+      OwnershipProposedEvent.OutputTuple,
+      OwnershipProposedEvent.OutputObject
+    >;
+    OwnershipProposed: TypedContractEvent<
+      OwnershipProposedEvent.InputTuple,
+      OwnershipProposedEvent.OutputTuple,
+      OwnershipProposedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PauseToggled(bool)": TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+    PauseToggled: TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "TimelockDelaySet(uint256,uint256)": TypedContractEvent<
+      TimelockDelaySetEvent.InputTuple,
+      TimelockDelaySetEvent.OutputTuple,
+      TimelockDelaySetEvent.OutputObject
+    >;
+    TimelockDelaySet: TypedContractEvent<
+      TimelockDelaySetEvent.InputTuple,
+      TimelockDelaySetEvent.OutputTuple,
+      TimelockDelaySetEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as nutritionAiFheSol from "./Nutrition_AI_FHE.sol";
+export type { nutritionAiFheSol };
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,1536 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  NutritionAIFHE,
+  NutritionAIFHEInterface,
+} from "../../../contracts/Nutrition_AI_FHE.sol/NutritionAIFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ActionNotScheduled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyProcessed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TimelockNotReady",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "actionId",
+        type: "bytes32",
+      },
+    ],
+    name: "ActionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "actionId",
+        type: "bytes32",
+      },
+    ],
+    name: "ActionExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "actionId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "scheduledAt",
+        type: "uint256",
+      },
+    ],
+    name: "ActionScheduled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "bmr",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "activityFactor",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "loseWeightAdjustment",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "gainMuscleAdjustment",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinPercent",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinPerKg",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "fatPercent",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "waterTargetMl",
+            type: "uint32",
+          },
+        ],
+        indexed: false,
+        internalType: "struct NutritionAIFHE.AnalysisParams",
+        name: "oldParams",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "bmr",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "activityFactor",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "loseWeightAdjustment",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "gainMuscleAdjustment",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinPercent",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinPerKg",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "fatPercent",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "waterTargetMl",
+            type: "uint32",
+          },
+        ],
+        indexed: false,
+        internalType: "struct NutritionAIFHE.AnalysisParams",
+        name: "newParams",
+        type: "tuple",
+      },
+    ],
+    name: "AnalysisParamsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "CiphertextsRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DataSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "results",
+        type: "uint256[]",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "pendingOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipProposalCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "pendingOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipProposed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oldOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "paused",
+        type: "bool",
+      },
+    ],
+    name: "PauseToggled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldDelay",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newDelay",
+        type: "uint256",
+      },
+    ],
+    name: "TimelockDelaySet",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_REGISTERED_CIPHERTEXTS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TIMELOCK_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "actionIdOf",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "actionScheduledAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "analysisCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "batchProcessed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "batchUserData",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "dailyCalories",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "proteinGrams",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "carbGrams",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "fatGrams",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "waterIntakeMl",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "activityLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "healthGoal",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "allergyFlags",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "weightKg",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "heightCm",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "ageYears",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "sex",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "actionId",
+        type: "bytes32",
+      },
+    ],
+    name: "cancelAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cancelOwnershipProposal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "bmr",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "activityFactor",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "loseWeightAdjustment",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "gainMuscleAdjustment",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinPercent",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinPerKg",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "fatPercent",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "waterTargetMl",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct NutritionAIFHE.AnalysisParams",
+        name: "params",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getAnalysis",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "completedAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint32",
+            name: "calorieTarget",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinTarget",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "carbTarget",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "fatTarget",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "waterTarget",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "score",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct NutritionAIFHE.AnalysisRecord",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getAnalysisHistory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "completedAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint32",
+            name: "calorieTarget",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinTarget",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "carbTarget",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "fatTarget",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "waterTarget",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "score",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct NutritionAIFHE.AnalysisRecord[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAnalysisParams",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "bmr",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "activityFactor",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "loseWeightAdjustment",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "gainMuscleAdjustment",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinPercent",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinPerKg",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "fatPercent",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "waterTargetMl",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct NutritionAIFHE.AnalysisParams",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "hasAnalysis",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "proposeOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32[]",
+        name: "values",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "registerCiphertexts",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestAnalysis",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "scheduleAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "bmr",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "activityFactor",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "loseWeightAdjustment",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "gainMuscleAdjustment",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinPercent",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "proteinPerKg",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "fatPercent",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "waterTargetMl",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct NutritionAIFHE.AnalysisParams",
+        name: "params",
+        type: "tuple",
+      },
+    ],
+    name: "setAnalysisParams",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "delay",
+        type: "uint256",
+      },
+    ],
+    name: "setTimelockDelay",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "dailyCalories",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "proteinGrams",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "carbGrams",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "fatGrams",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "waterIntakeMl",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "activityLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "healthGoal",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "allergyFlags",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "weightKg",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "heightCm",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "ageYears",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "sex",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitUserData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "timelockDelay",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "timelockEpoch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6040608081523462000242575f60606200001862000246565b828152826020820152828482015201526200003262000246565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918286820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039082825416179055603c6009556001600a5560ff199081600b5416600b558251610100810181811060018060401b038211176200022e576109c49160e09186526105dc8152603260208201526101f480878301526060820152601e6080820152601060a0820152601960c082015201527d09c400000019000000100000001e000001f4000001f400000032000005dc600f5533905f5416175f55335f5260056020526001825f209182541617905560018060a01b035f54169051907fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a26144559081620002678239f35b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b60405190608082016001600160401b038111838210176200022e5760405256fe6080806040526004361015610012575f80fd5b5f905f3560e01c90816304c7a7cd14612181575080630a763da114612164578063124bd04b1461192f57806316c38b3c146118c45780631b186d28146118a95780631f96c1a8146118385780632a083ca31461181b57806346e2577a146117495780635a94a079146117115780635c975abb146116ef578063632f0920146116775780636b074a071461163a578063710bf3221461156657806373f6a79f146114d9578063781cc3d31461146d57806378e8cdbc1461139a57806379142c601461135157806379ba5097146112ea5780637aff0fd2146112a75780637b5b1157146111e65780637d30820714610fc55780638a355a5714610ef75780638da5cb5b14610ed057806397f9b82b14610e215780639abfd321146109255780639ca58828146108ec578063a4365476146108b3578063acd7510314610890578063af267f8f146107bb578063b1658d01146106fb578063b29b1275146106dd578063b65e89411461066b578063b8221bc41461064d578063c3da7ca514610623578063d58654bd146105c1578063d77697691461032b578063da1f12ab1461030e578063e046e85c14610285578063e30c39781461025c578063eef09bad1461023e5763fa465e31146101e1575f80fd5b3461023b57604036600319011261023b5760206102316101ff61234c565b6024355f52601060205260405f209060018060a01b03165f526020526001600160401b03600260405f20015416151590565b6040519015158152f35b80fd5b503461023b578060031936011261023b576020600254604051908152f35b503461023b578060031936011261023b576001546040516001600160a01b039091168152602090f35b503461023b578060031936011261023b5780546001600160a01b0390811633036102fc576001549081169081156102ea576001600160a01b0319166001557f0bc3f72e3c139df4b2c54b2e5b240b60bc1e635fd6374ae6eac6737775bc5fdd8280a280f35b604051630614e5c760e21b8152600490fd5b6040516330cd747160e01b8152600490fd5b503461023b578060031936011261023b5760206040516127118152f35b503461023b57610100806003193601126105bd5781546001600160a01b031633036102fc5760025480610547575b5063ffffffff8061036861289e565b16158015610536575b6105245761037d6128c4565b818061038761289e565b169116116105245760646103ae8261039d6128d7565b16836103a76128ea565b16906125fd565b11610524576103bb612415565b91816103c561289e565b1660243591838316908184036105205763ffffffff60401b6103e56128c4565b60401b169360643593868516948581036105205763ffffffff60801b6104096128d7565b60801b1660a43591898316988984036105205763ffffffff60c01b61042c6128ea565b60c01b169467ffffffff000000006001600160e01b031961044b6128b1565b60e01b169760201b1617179063ffffffff60601b9060601b1617179063ffffffff60a01b9060a01b16171717600f5561048760405180976124de565b600435908582168092036105205786015261012085015260443583811680910361052057610140850152610160840152608435828116809103610520576101808401526101a083015260c435818116809103610520576101c083015260e4359081168091036105205781610200916101e07fb00526a202f6e6d0ffded7fdad4aa0cf9290d577a8aaeaa51a772873984469bb940152a180f35b5f80fd5b604051630309cb8760e51b8152600490fd5b50806105406128b1565b1615610371565b6105503661281e565b90818452600460205260408420549081156105ab5761056e916125fd565b42106105995780835260046020525f60408420555f805160206144298339815191528380a25f610359565b604051637378c19d60e01b8152600490fd5b604051635e4d29e960e01b8152600490fd5b5080fd5b503461023b578060031936011261023b5760e06040516105e081612276565b8281528260208201528260408201528260608201528260808201528260a08201528260c08201520152610100610614612415565b61062160405180926124de565bf35b503461023b57602036600319011261023b5760406020916004358152600483522054604051908152f35b503461023b578060031936011261023b576020600954604051908152f35b503461023b57602036600319011261023b576040610180916004358152600e6020522061062181549160018060a01b036001820154169060028101546106bb600460ff600385015416930161247a565b92604051958652602086015260408501521515606084015260808301906124de565b503461023b578060031936011261023b576020600354604051908152f35b503461023b57604036600319011261023b576040610717612362565b916004358152600c602052209060018060a01b03165f5260205261018060405f208054906001810154906002810154600382015460048301546005840154600685015490600786015492600887015494600988015496600b600a8a0154990154996040519b8c5260208c015260408b015260608a0152608089015260a088015260c087015260e0860152610100850152610120840152610140830152610160820152f35b503461023b57602036600319011261023b578054600435906001600160a01b031633036102fc576002548061083e575b5062278d0081116105245760407fe9a548e67315439ac624f727fe691585c5cce7759aa57bfbed0e8138cb90d41d91600254908060025561082d60035461253e565b60035582519182526020820152a180f35b6108473661281e565b90818452600460205260408420549081156105ab57610865916125fd565b42106105995780835260046020525f60408420555f805160206144298339815191528380a25f6107eb565b503461023b578060031936011261023b57602060ff600b54166040519015158152f35b503461023b57602036600319011261023b576020906040906001600160a01b036108db61234c565b168152600783522054604051908152f35b503461023b57602036600319011261023b576020906040906001600160a01b0361091461234c565b168152601183522054604051908152f35b5034610520576020908160031936011261052057600435335f526005835260ff60405f20541615610e0f5760ff60065416610dfd57335f526008835261097260405f2054600954906125fd565b4210610deb57805f52600d835260405f20335f52835260ff60405f205416610dd957805f52600c835260405f20335f52835260405f205415610dc757335f52600883524260405f20556109c3612415565b926109cf8433846128fd565b916040516109dc816122ad565b6006815260a08382019460c036873780516109f684612563565b5284810151610a0484612584565b526040810151610a1384612594565b526060810151610a22846125a4565b526080810151610a31846125b4565b520151610a3d826125c4565b52610a4781613c86565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005490966001600160a01b039490918516803b15610520575f6040518092637d6e912360e11b82528a6004830152818381610ac86024820189613c53565b03925af18015610dbc57610da9575b50847f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610da557896040518092633263b83b60e01b82528b600483015260606024830152818381610b306064820189613c53565b63124bd04b60e01b604483015203925af18015610d9a57908a91610d82575b508890527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180885260408a2054610d7057888a528752604089209051916001600160401b038311610d5c57600160401b8311610d5c578154838355808410610d37575b50908952868920895b838110610d255750505050610d1b92610c72877f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c98999a9484610c006004965461253e565b90558b60405194610c1086612210565b89865260408b8701923384528188019485526060880195818752608089019a8b528152600e8d522095518655600186019151166001600160601b0360a01b825416179055516002840155511515600383019060ff801983541691151516179055565b915180518682015160408084015160608086015160808088015160a0808a015160c0808c015160e09c8d0151911b63ffffffff60c01b169190921b63ffffffff60a01b169290931b63ffffffff60801b169390941b63ffffffff60601b169490951b63ffffffff60401b1663ffffffff90971660209690961b67ffffffff00000000169590951795909517919091179390931717176001600160e01b03199190921b1617910155565b604051908152a280f35b82518282015591880191600101610bbb565b828b5283898c2091820191015b818110610d515750610bb2565b5f8155600101610d44565b634e487b7160e01b8a52604160045260248afd5b604051633f06d22b60e01b8152600490fd5b610d8b90612263565b610d9657885f610b4f565b8880fd5b6040513d8c823e3d90fd5b8980fd5b610db4919950612263565b5f975f610ad7565b6040513d5f823e3d90fd5b6040516333b094a160e01b8152600490fd5b604051632bf773b360e11b8152600490fd5b60405163aa9a98df60e01b8152600490fd5b6040516313d0ff5960e31b8152600490fd5b604051631a40715960e11b8152600490fd5b34610520576020366003190112610520576004356001600160401b03811161052057610e519036906004016123e8565b5f546001600160a01b031633036102fc57610e6c8183612869565b91825f52600460205260405f2054610524577f222fc1ed0bcdc88f74dbf5ffee007f1c176126da31403cc7fd649b194a5a048291835f5260046020524260405f2055610ec56040519283926040845260408401916127fe565b4260208301520390a2005b34610520575f366003190112610520575f546040516001600160a01b039091168152602090f35b3461052057602036600319011261052057610f1061234c565b5f546001600160a01b039190821633036102fc5760025480610f73575b5016805f52600560205260405f20805460ff8116610f4757005b60ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b610f7c3661281e565b90815f52600460205260405f20549081156105ab57610f9a916125fd565b421061059957805f5260046020525f60408120555f805160206144298339815191525f80a282610f2d565b34610520576101a036600319011261052057610184356001600160401b03811161052057610ff79036906004016123e8565b90335f52600560205260ff60405f20541615610e0f5760ff60065416610dfd57335f52600760205261103060405f2054600954906125fd565b4210610deb5760ff600b541615610dc75761110691600b91335f5260076020524260405f20556110638282600435613cb7565b916110718183602435613cb7565b61107e8284604435613cb7565b61108b8385606435613cb7565b6110988486608435613cb7565b6110a5858760a435613cb7565b906110b3868860c435613cb7565b926110c1878960e435613cb7565b946110d0888a61010435613cb7565b966110fb6110e28a8c61012435613cb7565b996110f1818d61014435613cb7565b9b61016435613cb7565b9a6040519d8e612247565b8d5260208d0190815260408d0191825260608d0192835260808d0193845260a08d0194855260c08d0195865260e08d019687526101008d019788526101208d019889526101408d01998a526101608d019a8b52600a545f52600c60205260405f20335f5260205260405f209c518d555160018d01555160028c01555160038b01555160048a015551600589015551600688015551600787015551600886015551600985015551600a84015551910155600a546040519081527f81b10a8136baa5e8975cb74b9c1cd5c44791d42a0fe7c195457f86ce298e0c8360203392a2005b34610520576020366003190112610520575f54600435906001600160a01b031633036102fc5760025480611255575b5080156105245760407f6f05c070768300be3a8ec47b18efd326d94912ec5cf3f8bd7488e1c66d61e8bf91600954908060095582519182526020820152a1005b61125e3661281e565b90815f52600460205260405f20549081156105ab5761127c916125fd565b421061059957805f5260046020525f60408120555f805160206144298339815191525f80a281611215565b34610520576020366003190112610520576004356001600160401b038111610520576112e26112dc60209236906004016123e8565b90612869565b604051908152f35b34610520575f366003190112610520576001546001600160a01b0380821633036102ea575f54916001600160601b0360a01b9033828516175f55166001553391167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b346105205760403660031901126105205761136a612362565b6004355f52600d60205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b34610520576040366003190112610520576001600160401b036004358181116105205736602382011215610520578060040135908282116105205760246005933660248560051b8501011161052057602435908111610520576114019036906004016123e8565b9184158015611463575b610524575f5b85811061144757856040519081527fbb3f15dd91fc51f5350c6050a1aa54c2f67282a5cbf178872ab7b942ea12bf5b60203392a2005b8061145c8585856001958c1b8a010135613cb7565b5001611411565b506010851161140b565b34610520576020366003190112610520575f54600435906001600160a01b031633036102fc57805f52600460205260405f2054156105ab57805f5260046020525f60408120557f123ababb6f85aa48b13de8f5bd2acb5393e4980d969791661dc98733100703955f80a2005b34610520576040366003190112610520576114f261234c565b6024356114fd61260a565b505f8181526010602090815260408083206001600160a01b03861684529091529020600201546001600160401b031615610dc7575f52601060205260405f209060018060a01b03165f5260205261012061155960405f2061265a565b6106216040518092612378565b346105205760203660031901126105205761157f61234c565b5f546001600160a01b039190821633036102fc578190600254806115e4575b501690811561052457816001600160601b0360a01b60015416176001555f54167fb51454ce8c7f26becd312a46c4815553887f2ec876a0b8dc813b87f62edf6f805f80a3005b91506115ef3661281e565b91825f52600460205260405f20549081156105ab5761160d916125fd565b4210610599578183925f5260046020525f60408120555f805160206144298339815191525f80a28361159e565b34610520576020366003190112610520576001600160a01b0361165b61234c565b165f526005602052602060ff60405f2054166040519015158152f35b34610520576060366003190112610520576116a061169361234c565b60443590602435906126d0565b604051602091602082016020835281518091526020604084019201935f5b8281106116cb5784840385f35b90919282610120826116e06001948a51612378565b019601910194929190946116be565b34610520575f36600319011261052057602060ff600654166040519015158152f35b34610520576020366003190112610520576001600160a01b0361173261234c565b165f526008602052602060405f2054604051908152f35b346105205760203660031901126105205761176261234c565b5f546001600160a01b039190821633036102fc57600254806117c9575b5016805f52600560205260405f20805460ff81161561179a57005b60ff191660011790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b6117d23661281e565b90815f52600460205260405f20549081156105ab576117f0916125fd565b421061059957805f5260046020525f60408120555f805160206144298339815191525f80a28261177f565b34610520575f36600319011261052057602060405162278d008152f35b34610520575f36600319011261052057335f52600560205260ff60405f20541615610e0f5760ff60065416610dfd57600b5460ff811615610dc75760ff1916600b557f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085876020600a54604051908152a1005b34610520575f36600319011261052057602060405160108152f35b3461052057602036600319011261052057600435801515809103610520575f546001600160a01b031633036102fc5760207f9077d36bc00859b5c3f320310707208543dd35092cb0a0fe117d0c6a558b148b9160ff196006541660ff821617600655604051908152a1005b34610520576060366003190112610520576024356001600160401b0381116105205761195f90369060040161232e565b6044356001600160401b0381116105205761197e90369060040161232e565b6004355f52600e60205260405f20906119d560046040519361199f85612210565b8054855260018101546001600160a01b0316602086015260028101546040860152600381015460ff16151560608601520161247a565b6080830152606082015161215257815115610dc75781515f52600d60205260405f2060018060a01b036020840151165f5260205260ff60405f205416610dd957815160208301516080840151611aac92611a38926001600160a01b0316906128fd565b60a060405191611a47836122ad565b6006835260c03660208501378051611a5e84612563565b526020810151611a6d84612584565b526040810151611a7c84612594565b526060810151611a8b846125a4565b526080810151611a9a846125b4565b520151611aa6826125c4565b52613c86565b6040830151036121405780511561212e576004355f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260405f20541561211c576004355f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0160205260405f20604051808260208294549384815201905f5260205f20925f5b818110612103575050611b4b925003826122c8565b8351806020016020116120ef576040810181602001116120ef57611c0792611bf55f602094611ba2604080518097828d611b8d815180928e808801910161420d565b830191018a82015203888101885201866122c8565b611c1960018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b8752606060048801526064870190613c53565b8581036003190160248701529061422e565b8381036003190160448501529061422e565b03925af1908115610dbc575f916120b4575b50156120a2576004357f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a260c082805181010312610520576020820151604083015192606081015190608081015160a08201519160c001519260405196611c93886122ad565b6006885260c03660208a013785611ca989612563565b5280611cb489612584565b5281611cbf89612594565b5282611cca896125a4565b5283611cd5896125b4565b5284611ce0896125c4565b5260608701600190526004355f52600e60205260405f2087519081815560018101600160a01b6001900360208b0151166001600160601b0360a01b82541617905560408901516002820155606089015115156003820190611d4c919060ff801983541691151516179055565b60808981015180516020808301516040808501516060808701518789015160a0808a015160c0808c015160e09c8d0151911b63ffffffff60c01b169190921b63ffffffff60a01b1692909b1b63ffffffff60801b169290931b63ffffffff60601b1693851b63ffffffff60401b1667ffffffff0000000096881b9690961663ffffffff9098169790971794909417919091179290921793909317949094176001600160e01b03199490931b9390931691909117600493909301929092555f928352600d8152818320818b01516001600160a01b031684529052908190208054600160ff19909116179055875190519690611e458861222b565b87526004356020880152426001600160401b0316604088015263ffffffff16606087015263ffffffff16608086015263ffffffff1660a085015263ffffffff1660c084015263ffffffff1660e083015263ffffffff1661010082015281515f52601060205260405f20600160a01b600190036020840151165f5260205260405f2081518155602082015160018201556002019060408101516001600160401b03166001600160401b0319835416178255606081015163ffffffff16611f2590839063ffffffff60401b82549160401b169063ffffffff60401b1916179055565b6080810151825463ffffffff60601b191660609190911b63ffffffff60601b1617825560a0810151825463ffffffff60801b191660809190911b63ffffffff60801b1617825560c0810151825463ffffffff60a01b191660a09190911b63ffffffff60a01b1617825560e0810151825463ffffffff60c01b191660c09190911b63ffffffff60c01b16178255610100015181546001600160e01b031660e09190911b6001600160e01b031916179055600160a01b600190036020820151165f52601160205260405f208151908054600160401b81101561208e5761200e916001820181556125e8565b819291549060031b91821b915f19901b19161790555160405190604082019082526040602083015282518091526020606083019301905f5b818110612078576004357f27ecd968250b912594b4e48910e1774b71161930317e2c996ef9773299fa4c9f85870386a2005b8251855260209485019490920191600101612046565b634e487b7160e01b5f52604160045260245ffd5b60405163cf6c44e960e01b8152600490fd5b90506020813d6020116120e7575b816120cf602093836122c8565b81010312610520575180151581036105205783611c2b565b3d91506120c2565b634e487b7160e01b5f52601160045260245ffd5b8454835260019485019486945060209093019201611b36565b60405163d66ca67560e01b8152600490fd5b6040516309bde33960e01b8152600490fd5b6040516313b304fb60e21b8152600490fd5b60405163dbde098160e01b8152600490fd5b34610520575f366003190112610520576020600a54604051908152f35b34610520575f36600319011261052057335f52600560205260ff60405f205416156122015760ff60065416610dfd57600b5460ff8116610dc75760019060ff191617600b557fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee260206121f4600a5461253e565b80600a55604051908152a1005b631a40715960e11b8152600490fd5b60a081019081106001600160401b0382111761208e57604052565b61012081019081106001600160401b0382111761208e57604052565b61018081019081106001600160401b0382111761208e57604052565b6001600160401b03811161208e57604052565b61010081019081106001600160401b0382111761208e57604052565b60c081019081106001600160401b0382111761208e57604052565b60e081019081106001600160401b0382111761208e57604052565b90601f801991011681019081106001600160401b0382111761208e57604052565b9291926001600160401b03821161208e5760405191612312601f8201601f1916602001846122c8565b829481845281830111610520578281602093845f960137010152565b9080601f8301121561052057816020612349933591016122e9565b90565b600435906001600160a01b038216820361052057565b602435906001600160a01b038216820361052057565b80518252602081015160208301526001600160401b036040820151166040830152606081015163ffffffff80911660608401528060808301511660808401528060a08301511660a08401528060c08301511660c08401528060e08301511660e08401526101008092015116910152565b9181601f84011215610520578235916001600160401b038311610520576020838186019501011161052057565b6040519061242282612276565b8160e0600f5463ffffffff8082168452808260201c166020850152808260401c166040850152808260601c166060850152808260801c166080850152808260a01c1660a08501528160c01c1660c0840152811c910152565b9060405161248781612276565b60e081935463ffffffff8082168452808260201c166020850152808260401c166040850152808260601c166060850152808260801c166080850152808260a01c1660a08501528160c01c1660c0840152811c910152565b60e0908163ffffffff918281511685528260208201511660208601528260408201511660408601528260608201511660608601528260808201511660808601528260a08201511660a08601528260c08201511660c0860152015116910152565b5f1981146120ef5760010190565b6001600160401b03811161208e5760051b60200190565b8051156125705760200190565b634e487b7160e01b5f52603260045260245ffd5b8051600110156125705760400190565b8051600210156125705760600190565b8051600310156125705760800190565b8051600410156125705760a00190565b8051600510156125705760c00190565b80518210156125705760209160051b010190565b8054821015612570575f5260205f2001905f90565b919082018092116120ef57565b604051906126178261222b565b5f610100838281528260208201528260408201528260608201528260808201528260a08201528260c08201528260e08201520152565b919082039182116120ef57565b906040516126678161222b565b61010060028294805484526001810154602085015201546001600160401b038116604084015263ffffffff808260401c166060850152808260601c166080850152808260801c1660a0850152808260a01c1660c08501528160c01c1660e084015260e01c910152565b92919260018060a01b031690815f526020601181526040805f2095865490818510156127d7578161270182876125fd565b11156127c65750935b612714848661264d565b9261271e8461254c565b9361272b845195866122c8565b80855261273a601f199161254c565b01815f5b8281106127b0575050508397855b87811061275d575050505050505050565b8061276a600192846125e8565b90549060031b1c5f5260108452855f20855f5284526127a9865f206127986127928b8561264d565b9161265a565b6127a2828b6125d4565b52886125d4565b500161274c565b6127b861260a565b82828901015201829061273e565b6127d19150846125fd565b9361270a565b50509250929350508051918201908282106001600160401b0383111761208e57525f815290565b908060209392818452848401375f828201840152601f01601f1916010190565b600354906128636080604051809360208201958652604080830152806060830152805f848401375f838284010152601f801991011681010360608101845201826122c8565b51902090565b612863600354926128906040519384926020840196875260408085015260608401916127fe565b03601f1981018352826122c8565b60043563ffffffff811681036105205790565b60e43563ffffffff811681036105205790565b60443563ffffffff811681036105205790565b60843563ffffffff811681036105205790565b60c43563ffffffff811681036105205790565b5f60a060405161290c81612292565b82815282602082015282604082015282606082015282608082015201525f52600c60205260405f209060018060a01b03165f5260205260405f206129d26040519161295683612247565b8054835260018101546020840152600281015460408401526003810154606084015260048101546080840152600581015460a0840152600681015460c0840152600781015460e0840152600b600882015491826101008601526009810154610120860152600a8101546101408601520154610160840152613de6565b9063ffffffff8351166101608201518015613c3f575b5f805160206144098339815191525460405163f77f3f1d60e01b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610dbc575f91613c0d575b506101608301518015613bf9575b5f805160206144098339815191525460405163f77f3f1d60e01b8152600481019290925260026024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610dbc575f91613bc7575b506101008401518015613bb3575b5f8051602061440983398151915254604051630afe14ad60e31b8152600481019290925260286024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af18015610dbc575f90613b81575b5f91506101208601518015613b6f575b5f8051602061440983398151915254604051630afe14ad60e31b8152600481019290925260196024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af1908115610dbc575f91613b39575b612b869250613f0b565b5f602060018060a01b035f805160206144098339815191525416604460405180948193639cd07acb60e01b835260146004840152600460248401525af1908115610dbc575f91613b07575b506020612bdc614253565b606460018060a01b035f805160206144098339815191525416935f6040519586948593637702dcff60e01b85528b6004860152602485015260448401525af1908115610dbc575f91613ad5575b50612c35905f92613f0b565b92602060018060a01b035f805160206144098339815191525416604460405180958193639cd07acb60e01b83526102846004840152600460248401525af1908115610dbc575f91613aa1575b5f9250612c8c614253565b90602060018060a01b035f805160206144098339815191525416604460405180978193639cd07acb60e01b83526101386004840152600460248401525af1938415610dbc575f94613a6a575b509060646020925f60018060a01b035f8051602061440983398151915254166040519788958694637702dcff60e01b86526004860152602485015260448401525af1918215610dbc575f92613a35575b506064602092935f60018060a01b035f8051602061440983398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610dbc575f91613a03575b5061014084015180156139ef575b5f8051602061440983398151915254604051630afe14ad60e31b8152600481019290925260146024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610dbc575f916139bb575b50612e03612df3602093612e0893613f0b565b612dfd8186614105565b94614189565b614013565b6064612e12614253565b5f8051602061440983398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182905f906001600160a01b03165af1908115610dbc575f91613989575b50612e71610120840151613de6565b9084918515613979575b8015613967575b602090606460018060a01b035f805160206144098339815191525416945f604051968794859363d99882d560e01b8552600485015260248401528160448401525af1918215610dbc575f92613932575b506064612ee1602093946142f1565b5f8051602061440983398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182905f906001600160a01b03165af18015610dbc575f906138fe575b612f539150612f4e60a084015163ffffffff60208801511690613e8d565b613f0b565b612f5b614253565b905f60c0840151602060018060a01b035f805160206144098339815191525416604460405180958193639cd07acb60e01b835260016004840152600460248401525af1908115610dbc575f916138c8575b612fb69250613f8f565b5f60c0850151602060018060a01b035f805160206144098339815191525416604460405180958193639cd07acb60e01b835260026004840152600460248401525af1908115610dbc575f91613892575b6130109250613f8f565b90613019614253565b9063ffffffff604089015116821561387e575b5f80516020614409833981519152546040516303056db360e31b815260048101949094526024840191909152600160f81b6044840152602090839060649082905f906001600160a01b03165af1918215610dbc575f92613849575b509060646020925f60018060a01b035f8051602061440983398151915254166040519889958694637702dcff60e01b86526004860152602485015260448401525af1928315610dbc575f93613814575b5060209060646130f063ffffffff60608a0151166142f1565b915f60018060a01b035f8051602061440983398151915254166040519788958694637702dcff60e01b86526004860152602485015260448401525af1908115610dbc575f916137de575b6131449250613f0b565b9261315f61010083015163ffffffff60a08401511690613e8d565b80156137ca575b5f8051602061440983398151915254604051635a53accb60e01b81526004810192909252600a6024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af18015610dbc575f90613797575b6020915060646131e4612e036131df63ffffffff6080880151168a613e8d565b61408d565b5f8051602061440983398151915254604051637702dcff60e01b8152600481019890985260248801939093526044870152859182905f906001600160a01b03165af1928315610dbc575f93613763575b508061324e6131df63ffffffff60c05f9501511687613e8d565b8015613751575b5f8051602061440983398151915254604051635a53accb60e01b8152600481019290925260096024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af1918215610dbc575f9261371d575b50838415613709575b5f8051602061440983398151915254604051630afe14ad60e31b81526004808201939093526024810192909252600160f81b6044830152602090829060649082905f906001600160a01b03165af18015610dbc575f906136d7575b5f91508384156136c5575b5f8051602061440983398151915254604051630afe14ad60e31b8152600481019290925260096024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af1908115610dbc575f9161368f575b6133849250613f0b565b90602061339e612e03613397858a614105565b9489614189565b60646133a8614253565b5f8051602061440983398151915254604051637702dcff60e01b8152600481019790975260248701939093526044860152849182905f906001600160a01b03165af1918215610dbc575f92613657575b5063ffffffff60e061340c920151166142f1565b92602061341a878351614105565b91606461343361342b8a8451614189565b92518a614189565b5f8051602061440983398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182905f906001600160a01b03165af1908115610dbc575f91613625575b508015613611575b5f8051602061440983398151915254604051635a53accb60e01b8152600481019290925260146024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610dbc575f916135df575b506134ee614340565b81156135cf575b80156135bd575b602090606460018060a01b035f805160206144098339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af18015610dbc575f90613589575b61355d9150613558614340565b614189565b936040519561356b87612292565b8652602086015260408501526060840152608083015260a082015290565b506020813d6020116135b5575b816135a3602093836122c8565b810103126105205761355d905161354b565b3d9150613596565b5060206135c8614253565b90506134fc565b90506135d9614253565b906134f5565b90506020813d602011613609575b816135fa602093836122c8565b8101031261052057515f6134e5565b3d91506135ed565b505f602061361d614253565b91505061348b565b90506020813d60201161364f575b81613640602093836122c8565b8101031261052057515f613483565b3d9150613633565b9091506020813d602011613687575b81613673602093836122c8565b8101031261052057519063ffffffff6133f8565b3d9150613666565b90506020823d6020116136bd575b816136aa602093836122c8565b810103126105205761338491519061337a565b3d915061369d565b5060206136d0614253565b905061331f565b506020813d602011613701575b816136f1602093836122c8565b81010312610520575f9051613314565b3d91506136e4565b505f6020613715614253565b9150506132b9565b9091506020813d602011613749575b81613739602093836122c8565b810103126105205751905f6132b0565b3d915061372c565b50602061375c614253565b9050613255565b9092506020813d60201161378f575b8161377f602093836122c8565b810103126105205751915f613234565b3d9150613772565b506020813d6020116137c2575b816137b1602093836122c8565b8101031261052057602090516131bf565b3d91506137a4565b505f60206137d6614253565b915050613166565b90506020823d60201161380c575b816137f9602093836122c8565b810103126105205761314491519061313a565b3d91506137ec565b9092506020813d602011613841575b81613830602093836122c8565b8101031261052057519160206130d7565b3d9150613823565b91506020823d602011613876575b81613864602093836122c8565b81010312610520579051906064613087565b3d9150613857565b9150602061388a614253565b92905061302c565b90506020823d6020116138c0575b816138ad602093836122c8565b8101031261052057613010915190613006565b3d91506138a0565b90506020823d6020116138f6575b816138e3602093836122c8565b8101031261052057612fb6915190612fac565b3d91506138d6565b506020813d60201161392a575b81613918602093836122c8565b8101031261052057612f539051612f30565b3d915061390b565b91506020823d60201161395f575b8161394d602093836122c8565b81010312610520579051906064612ed2565b3d9150613940565b5060206139726142a5565b9050612e82565b91506139836142a5565b91612e7b565b90506020813d6020116139b3575b816139a4602093836122c8565b8101031261052057515f612e62565b3d9150613997565b90506020813d6020116139e7575b816139d6602093836122c8565b810103126105205751612e03612de0565b3d91506139c9565b505f60206139fb614253565b915050612d86565b90506020813d602011613a2d575b81613a1e602093836122c8565b8101031261052057515f612d78565b3d9150613a11565b91506020823d602011613a62575b81613a50602093836122c8565b81010312610520579051906064612d28565b3d9150613a43565b919093506020823d602011613a99575b81613a87602093836122c8565b81010312610520579051926064612cd8565b3d9150613a7a565b90506020823d602011613acd575b81613abc602093836122c8565b81010312610520575f915190612c81565b3d9150613aaf565b90506020813d602011613aff575b81613af0602093836122c8565b8101031261052057515f612c29565b3d9150613ae3565b90506020813d602011613b31575b81613b22602093836122c8565b8101031261052057515f612bd1565b3d9150613b15565b90506020823d602011613b67575b81613b54602093836122c8565b8101031261052057612b86915190612b7c565b3d9150613b47565b506020613b7a614253565b9050612b21565b506020813d602011613bab575b81613b9b602093836122c8565b81010312610520575f9051612b11565b3d9150613b8e565b505f6020613bbf614253565b915050612ab8565b90506020813d602011613bf1575b81613be2602093836122c8565b8101031261052057515f612aaa565b3d9150613bd5565b505f6020613c05614253565b915050612a50565b90506020813d602011613c37575b81613c28602093836122c8565b8101031261052057515f612a42565b3d9150613c1b565b505f6020613c4b614253565b9150506129e8565b9081518082526020808093019301915f5b828110613c72575050505090565b835185529381019392810192600101613c64565b60405161286381613ca36020820194604086526060830190613c53565b30604083015203601f1981018352826122c8565b90613cca602091613d14959436916122e9565b60018060a01b0392835f805160206144098339815191525416905f60405180988195829463196d0b9b60e01b8452600484015233602484015260806044840152608483019061422e565b6004606483015203925af1928315610dbc575f93613db2575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561052057604051630f8e573b60e21b815260048101849052336024820152905f908290604490829084905af18015610dbc57613da3575b50613da182613d9a308261438e565b339061438e565b565b613dac90612263565b5f613d8b565b9092506020813d602011613dde575b81613dce602093836122c8565b810103126105205751915f613d2d565b3d9150613dc1565b8015613e79575b5f80516020614409833981519152546040516385362ee760e01b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af1908115610dbc575f91613e4a575090565b90506020813d602011613e71575b81613e65602093836122c8565b81010312610520575190565b3d9150613e58565b505f6020613e85614253565b915050613ded565b63ffffffff916020918015613ef9575b5f8051602061440983398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610dbc575f91613e4a575090565b506064613f04614253565b9050613e9d565b908115613f7f575b8015613f6d575b602090606460018060a01b035f805160206144098339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610dbc575f91613e4a575090565b506020613f78614253565b9050613f1a565b9050613f89614253565b90613f13565b908115614003575b8015613ff1575b602090606460018060a01b035f805160206144098339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af1908115610dbc575f91613e4a575090565b506020613ffc614253565b9050613f9e565b905061400d614253565b90613f97565b8015614079575b5f8051602061440983398151915254604051635a53accb60e01b81526004808201939093526024810192909252600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610dbc575f91613e4a575090565b505f6020614085614253565b91505061401a565b80156140f1575b5f8051602061440983398151915254604051635a53accb60e01b81526004810192909252606460248301819052600160f81b604484015260209183919082905f906001600160a01b03165af1908115610dbc575f91613e4a575090565b505f60206140fd614253565b915050614094565b908115614179575b8015614167575b602090606460018060a01b035f805160206144098339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af1908115610dbc575f91613e4a575090565b506020614172614253565b9050614114565b9050614183614253565b9061410d565b9081156141fd575b80156141eb575b602090606460018060a01b035f805160206144098339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610dbc575f91613e4a575090565b5060206141f6614253565b9050614198565b9050614207614253565b90614191565b5f5b83811061421e5750505f910152565b818101518382015260200161420f565b906020916142478151809281855285808601910161420d565b601f01601f1916010190565b5f8051602061440983398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610dbc575f91613e4a575090565b5f602060018060a01b035f805160206144098339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610dbc575f91613e4a575090565b60205f91604460018060a01b035f805160206144098339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115610dbc575f91613e4a575090565b5f602060018060a01b035f805160206144098339815191525416604460405180948193639cd07acb60e01b835260646004840152600460248401525af1908115610dbc575f91613e4a575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561052057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610dbc576143ff5750565b613da19061226356fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019b5a634ce9dbcc1cc28dbce24cd5b30136689ff28f9ae433837bd68895d7d5e0a164736f6c6343000818000a";
+
+type NutritionAIFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: NutritionAIFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class NutritionAIFHE__factory extends ContractFactory {
+  constructor(...args: NutritionAIFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      NutritionAIFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): NutritionAIFHE__factory {
+    return super.connect(runner) as NutritionAIFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): NutritionAIFHEInterface {
+    return new Interface(_abi) as NutritionAIFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): NutritionAIFHE {
+    return new Contract(address, _abi, runner) as unknown as NutritionAIFHE;
+  }
+}
@@ -1,4 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as nutritionAiFheSol from "./Nutrition_AI_FHE.sol";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";